@@ -0,0 +1,160 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+
+import bs58 from 'bs58'
+
+import {
+  decryptKeystore,
+  encryptKeystore,
+  formatKeypairJson,
+  generateKeypair,
+  parseKeyMaterial,
+  readPassphrase,
+  validateKeypair,
+  type KeyFormat,
+  type KeyMaterial
+} from '../src/keystore'
+
+const USAGE = `Usage: npm run keytool -- <command> [options]
+
+Commands:
+  generate                  Create a new keypair offline
+  address <file>            Print the public address of a key
+  validate <file>           Check that a key is a well-formed 64-byte ed25519 keypair
+  convert <file> --to <fmt> Convert a key to base58, json or keystore
+  to-base58 <file>          Same as convert --to base58
+
+<file> holds a base58 key, a JSON byte array or a keystore; use - for stdin.
+
+Options:
+  --to <fmt>             base58, json (solana-keygen format) or keystore (default for generate: json)
+  --out <file>           Write the key to a file (created owner-only) instead of stdout
+  --force                Overwrite --out if it exists
+  --passphrase-fd <n>    Read the keystore passphrase from file descriptor n instead of prompting
+  --new-passphrase-fd <n>
+                         Read the passphrase for a re-encrypted keystore from descriptor n; converting
+                         a keystore to a keystore with --passphrase-fd needs it`
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+function parseFd(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined
+  const fd = Number(value)
+  if (!Number.isInteger(fd)) fail(`${flag} must be a file descriptor number`)
+  return fd
+}
+
+function parseFormat(value: string | undefined, fallback?: KeyFormat): KeyFormat {
+  const format = value ?? fallback
+  if (format !== 'base58' && format !== 'json' && format !== 'keystore') fail(`--to must be base58, json or keystore\n\n${USAGE}`)
+  return format
+}
+
+function readKey(file: string | undefined): KeyMaterial {
+  if (!file) fail(USAGE)
+  let text: string
+  try {
+    text = readFileSync(file === '-' ? 0 : file, 'utf8')
+  } catch (err) {
+    fail(`Failed to read ${file}: ${err instanceof Error ? err.message : err}`)
+  }
+  try {
+    return parseKeyMaterial(text)
+  } catch (err) {
+    fail(`${file}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+async function unlock(material: KeyMaterial, fd: number | undefined): Promise<Uint8Array> {
+  if (material.format !== 'keystore') return material.bytes
+  const passphrase = await readPassphrase({ fd, prompt: `Passphrase for ${material.keystore.address}: ` })
+  return decryptKeystore(material.keystore, passphrase)
+}
+
+// A new passphrase is asked for twice when typed, so a typo doesn't lock the key away
+async function newPassphrase(fd: number | undefined): Promise<string> {
+  const passphrase = await readPassphrase({ fd, prompt: 'New passphrase: ' })
+  if (!passphrase) fail('Refusing to encrypt with an empty passphrase')
+  if (fd === undefined && (await readPassphrase({ prompt: 'Repeat passphrase: ' })) !== passphrase) {
+    fail('Passphrases do not match')
+  }
+  return passphrase
+}
+
+async function encode(bytes: Uint8Array, format: KeyFormat, fd: number | undefined): Promise<string> {
+  if (format === 'base58') return `${bs58.encode(bytes)}\n`
+  if (format === 'json') return formatKeypairJson(bytes)
+  return `${JSON.stringify(await encryptKeystore(bytes, await newPassphrase(fd)), null, 2)}\n`
+}
+
+function output(text: string, out: string | undefined, force: boolean) {
+  if (!out) {
+    process.stdout.write(text)
+    return
+  }
+  if (existsSync(out) && !force) fail(`${out} already exists; pass --force to overwrite`)
+  writeFileSync(out, text, { mode: 0o600 })
+  console.error(`Wrote ${out}`)
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      to: { type: 'string' },
+      out: { type: 'string' },
+      force: { type: 'boolean', default: false },
+      'passphrase-fd': { type: 'string' },
+      'new-passphrase-fd': { type: 'string' }
+    }
+  })
+  const [command, file] = positionals
+  const fd = parseFd(values['passphrase-fd'], '--passphrase-fd')
+  const newFd = parseFd(values['new-passphrase-fd'], '--new-passphrase-fd')
+  if (fd !== undefined && fd === newFd) fail('--passphrase-fd and --new-passphrase-fd must be different descriptors')
+
+  switch (command) {
+    case 'generate': {
+      const bytes = generateKeypair()
+      output(await encode(bytes, parseFormat(values.to, 'json'), newFd ?? fd), values.out, values.force)
+      console.error(`Address: ${validateKeypair(bytes)}`)
+      return
+    }
+    case 'address': {
+      const material = readKey(file)
+      // Keystores carry their address in the clear, so no passphrase is needed
+      console.log(material.format === 'keystore' ? material.keystore.address : validateKeypair(material.bytes))
+      return
+    }
+    case 'validate': {
+      const material = readKey(file)
+      const address = validateKeypair(await unlock(material, fd))
+      console.log(`OK: ${material.format} keypair for ${address}`)
+      return
+    }
+    case 'convert':
+    case 'to-base58': {
+      const format = command === 'to-base58' ? 'base58' : parseFormat(values.to)
+      const material = readKey(file)
+      // The descriptor is read to its end for the old passphrase, so it can't hold the new one too
+      const reencrypting = material.format === 'keystore' && format === 'keystore'
+      if (reencrypting && fd !== undefined && newFd === undefined) {
+        fail('Re-encrypting reads the old passphrase from --passphrase-fd; pass the new one with --new-passphrase-fd')
+      }
+      const bytes = await unlock(material, fd)
+      validateKeypair(bytes)
+      output(await encode(bytes, format, newFd ?? fd), values.out, values.force)
+      return
+    }
+    default:
+      fail(USAGE)
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,35 @@
+import 'dotenv/config'
+
+import { parseArgs } from 'node:util'
+
+import { formatLedgerReport, readLedger, summarizeLedger } from '../src/ledger'
+import { parseTimestamp } from '../src/parse'
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string', default: process.env.LEDGER_FILE || '.atomicstream-payments.jsonl' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    }
+  })
+
+  let entries
+  try {
+    entries = readLedger(values.file)
+  } catch (err) {
+    console.error(`Failed to read ledger: ${values.file}`)
+    console.error(err instanceof Error ? err.message : err)
+    process.exit(1)
+  }
+
+  const summary = summarizeLedger(entries, { fromMs: parseTimestamp(values.from), toMs: parseTimestamp(values.to) })
+  if (values.json) {
+    console.log(JSON.stringify(summary, (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value), 2))
+  } else {
+    console.log(formatLedgerReport(summary))
+  }
+}
+
+main()
@@ -0,0 +1,48 @@
+import 'dotenv/config'
+
+import { randomBytes } from 'node:crypto'
+
+import { createKeyPairSignerFromPrivateKeyBytes } from '@solana/kit'
+import { USDC_DEVNET_ADDRESS } from '@x402/svm'
+import bs58 from 'bs58'
+
+import { startMockServer } from '../src/mock/server'
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+async function main() {
+  const server = await startMockServer({
+    port: readNumber('MOCK_PORT', 8402),
+    sliceSeconds: readNumber('MOCK_SLICE_SECONDS', 60),
+    reminderLeadMs: readNumber('MOCK_REMINDER_LEAD_MS', 15_000),
+    eventIntervalMs: readNumber('MOCK_EVENT_INTERVAL_MS', 1000),
+    loopEvents: true
+  })
+
+  // Any keypair can pay the mock; print a throwaway one so the client runs without a real wallet
+  const seed = randomBytes(32)
+  const wallet = await createKeyPairSignerFromPrivateKeyBytes(seed)
+  const secretKey = Buffer.concat([seed, bs58.decode(wallet.address)])
+
+  console.log('Mock AtomicStream server running. Point the client at it with:')
+  console.log(`  PUBLIC_HTTP_BASE_URL=${server.httpBase}`)
+  console.log(`  SVM_RPC_URL=${server.rpcUrl}`)
+  console.log(`  SVM_PRIVATE_KEY=${bs58.encode(secretKey)}`)
+  console.log('To pay through the signer daemon instead, start it with:')
+  console.log(`  SIGNER_ALLOWED_PAY_TO=${server.payTo}`)
+  console.log(`  SIGNER_ALLOWED_MINTS=${USDC_DEVNET_ADDRESS}`)
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,61 @@
+import 'dotenv/config'
+
+import { createKeyPairSignerFromBytes, isAddress } from '@solana/kit'
+import bs58 from 'bs58'
+
+import { decryptKeystore, readKeystore, readPassphrase } from '../src/keystore'
+import { parseDecimal, parseInteger, parseList, parseOptionalInteger } from '../src/parse'
+import { DEFAULT_ALLOWED_MINTS, startSignerDaemon } from '../src/signer-daemon'
+
+// The daemon is the one process that holds the key, so it reads the same key settings the client would
+async function loadKeypair(): Promise<Uint8Array> {
+  const keystoreFile = process.env.SVM_KEYSTORE_FILE
+  if (keystoreFile) {
+    if (process.env.SVM_PRIVATE_KEY) throw new Error('Set either SVM_PRIVATE_KEY or SVM_KEYSTORE_FILE, not both')
+    const keystore = readKeystore(keystoreFile)
+    const fd = parseOptionalInteger(process.env.SVM_KEYSTORE_PASSPHRASE_FD)
+    return decryptKeystore(keystore, await readPassphrase({ fd, prompt: `Passphrase for ${keystore.address}: ` }))
+  }
+  if (!process.env.SVM_PRIVATE_KEY) throw new Error('Missing SVM_PRIVATE_KEY (or SVM_KEYSTORE_FILE) environment variable')
+  return bs58.decode(process.env.SVM_PRIVATE_KEY)
+}
+
+async function main() {
+  const allowedPayTo = parseList(process.env.SIGNER_ALLOWED_PAY_TO)
+  if (!allowedPayTo.length) throw new Error('Set SIGNER_ALLOWED_PAY_TO to the addresses payments may go to')
+  const invalid = allowedPayTo.filter((address) => !isAddress(address))
+  if (invalid.length) throw new Error(`SIGNER_ALLOWED_PAY_TO has invalid addresses: ${invalid.join(', ')}`)
+  const allowedMints = parseList(process.env.SIGNER_ALLOWED_MINTS)
+  const invalidMints = allowedMints.filter((address) => !isAddress(address))
+  if (invalidMints.length) throw new Error(`SIGNER_ALLOWED_MINTS has invalid addresses: ${invalidMints.join(', ')}`)
+
+  const daemon = await startSignerDaemon({
+    signer: await createKeyPairSignerFromBytes(await loadKeypair()),
+    policy: {
+      allowedPayTo,
+      allowedMints: allowedMints.length ? allowedMints : DEFAULT_ALLOWED_MINTS,
+      maxPaymentUsdc: parseDecimal(process.env.SIGNER_MAX_PAYMENT_USDC, 0),
+      maxDailyUsdc: parseDecimal(process.env.SIGNER_MAX_DAILY_USDC, 0)
+    },
+    stateFile: process.env.SIGNER_STATE_FILE ?? '.atomicstream-signer.json',
+    socketPath: process.env.SIGNER_SOCKET || undefined,
+    port: parseInteger(process.env.SIGNER_PORT, 8410),
+    host: process.env.SIGNER_HOST || undefined,
+    token: process.env.SIGNER_TOKEN || undefined
+  })
+
+  console.log('Signer running. Point the client at it with:')
+  console.log(`  SIGNER_URL=${daemon.url}`)
+  if (process.env.SIGNER_TOKEN) console.log('  SIGNER_TOKEN=<same as here>')
+
+  const shutdown = () => {
+    daemon.close().finally(() => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,33 @@
+import 'dotenv/config'
+
+import { startMockWebhookReceiver } from '../src/mock/webhook'
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+async function main() {
+  const receiver = await startMockWebhookReceiver({
+    port: readNumber('MOCK_WEBHOOK_PORT', 8403),
+    secret: process.env.MOCK_WEBHOOK_SECRET || undefined,
+    failFirst: readNumber('MOCK_WEBHOOK_FAIL_FIRST', 0)
+  })
+
+  console.log('Mock webhook receiver running. Point the client at it with:')
+  console.log(`  WEBHOOK_URLS=${receiver.url}`)
+  if (process.env.MOCK_WEBHOOK_SECRET) console.log('  WEBHOOK_SECRET=<same as MOCK_WEBHOOK_SECRET>')
+
+  const shutdown = () => {
+    const events = receiver.batches.reduce((sum, batch) => sum + batch.events.length, 0)
+    console.log(`Received ${receiver.batches.length} batches (${events} events) in ${receiver.requests} requests`)
+    receiver.close().finally(() => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,398 @@
+import type { AtomicStreamSource } from './events'
+import {
+  FILTERABLE_EVENTS,
+  isFilterableEvent,
+  matchesFilterConditions,
+  parseFilterConditions,
+  resolveFilterPath,
+  toNumber,
+  type FilterableEventName,
+  type FilterCondition
+} from './filter'
+import { isNumber, isRecord, isString } from './parse'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+const ALERT_RULE_KINDS = ['count', 'sum', 'change', 'sequence'] as const
+
+export type AlertRuleKind = (typeof ALERT_RULE_KINDS)[number]
+
+export type AlertDirection = 'up' | 'down' | 'any'
+
+/** One event a rule listens for. Count, sum and change rules have one step; sequences have two or more, in order. */
+export type AlertStep = {
+  event: FilterableEventName
+  /** Events that fail these conditions are ignored by the rule. */
+  where: FilterCondition[]
+  /** Path whose value keys the rule's state, e.g. `mint`; overrides the rule's `groupBy`. */
+  groupBy: string | undefined
+}
+
+export type AlertRule = {
+  name: string
+  kind: AlertRuleKind
+  description: string | undefined
+  steps: AlertStep[]
+  /** Path whose value keys the rule's state, so each wallet or mint is counted on its own. */
+  groupBy: string | undefined
+  windowMs: number
+  cooldownMs: number
+  /** The count or sum to reach, or for change rules the percent move. Unused by sequences. */
+  threshold: number
+  /** Sum and change rules: the numeric path to add up or watch. */
+  field: string | undefined
+  /** Sum rules: an array path, e.g. `tokenTransfers`; `field` is then read from each item. */
+  over: string | undefined
+  /** Sum rules: items of `over` that fail these conditions are not counted. */
+  itemWhere: FilterCondition[]
+  /** Change rules: which way the move has to go. */
+  direction: AlertDirection
+}
+
+/** An event that contributed to an alert, as it was received. */
+export type AlertEvent = { event: FilterableEventName; receivedAt: string; data: unknown }
+
+export type Alert = {
+  rule: string
+  kind: AlertRuleKind
+  description?: string
+  /** The `groupBy` value the rule fired for; null when the rule has no `groupBy`. */
+  key: string | null
+  firedAt: string
+  /**
+   * Count and sum rules: the total that reached the threshold. Change rules:
+   * the percent move, negative when down. Sequences: seconds from the first
+   * step to the last.
+   */
+  value: number
+  /** The contributing events, oldest first. For change rules, the reference event and the one that moved. */
+  events: AlertEvent[]
+}
+
+export type AlertStats = { rule: string; fired: number; suppressed: number }[]
+
+export type AlertEngineOptions = {
+  /** Events, and signatures of events already consumed, kept per rule and key; the oldest are dropped first. */
+  maxWindowEvents: number
+  /** Keys tracked per rule; the ones created first are forgotten first. */
+  maxKeys: number
+}
+
+export const DEFAULT_ALERT_ENGINE_OPTIONS: AlertEngineOptions = {
+  maxWindowEvents: 1_000,
+  maxKeys: 10_000
+}
+
+type Entry = {
+  atMs: number
+  event: FilterableEventName
+  data: unknown
+  /** The event's signature, so an event seen twice (processed, then confirmed) counts once. */
+  id: string | undefined
+  value: number
+}
+
+type KeyState = {
+  entries: Entry[]
+  /** Sequences in progress, each holding the entries matched so far. */
+  chains: Entry[][]
+  /** Signatures of events a fired alert used up, oldest first, so a late copy of one can't count again. */
+  consumed: Set<string>
+  cooldownUntilMs: number
+}
+
+type RuleState = { rule: AlertRule; keys: Map<string, KeyState>; fired: number; suppressed: number }
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function parseWhere(value: unknown, where: string, key: string): FilterCondition[] {
+  if (value === undefined) return []
+  if (!isString(value) || !value.trim()) throw new Error(`${where} ${key} must be a condition string`)
+  return parseFilterConditions(value)
+}
+
+function parseOptionalPath(value: unknown, where: string, key: string): string | undefined {
+  if (value !== undefined && !(isString(value) && value)) throw new Error(`${where} ${key} must be a path`)
+  return value
+}
+
+function parseStep(value: unknown, where: string): AlertStep {
+  if (!isRecord(value) || !isString(value.event) || !isFilterableEvent(value.event)) {
+    throw new Error(`${where} needs an event, one of: ${FILTERABLE_EVENTS.join(', ')}`)
+  }
+  return {
+    event: value.event,
+    where: parseWhere(value.where, where, 'where'),
+    groupBy: parseOptionalPath(value.groupBy, where, 'groupBy')
+  }
+}
+
+function parsePositive(value: unknown, where: string, key: string): number {
+  if (!isNumber(value) || value <= 0) throw new Error(`${where} needs ${key}, a positive number`)
+  return value
+}
+
+/**
+ * Validates alert rules, e.g. the contents of `ALERT_RULES_FILE`. Every rule
+ * has a unique `name`, a `kind` and a `windowSeconds`; `cooldownSeconds`
+ * defaults to the window. Conditions use the filter rule syntax.
+ *
+ *   { "name": "busy-wallet", "kind": "count", "event": "transaction",
+ *     "where": "tokenTransfers[].fromUserAccount == 9WzD...", "atLeast": 4, "windowSeconds": 60 }
+ */
+export function parseAlertRules(value: unknown): AlertRule[] {
+  if (!Array.isArray(value)) throw new Error('alert rules must be an array')
+  const names = new Set<string>()
+  return value.map((entry: unknown, index) => {
+    let where = `alert rule ${index}`
+    if (!isRecord(entry) || !isString(entry.name) || !entry.name) throw new Error(`${where} needs a name`)
+    where = `alert rule ${entry.name}`
+    if (names.has(entry.name)) throw new Error(`${where} is defined twice`)
+    names.add(entry.name)
+    if (!isString(entry.kind) || !(ALERT_RULE_KINDS as readonly string[]).includes(entry.kind)) {
+      throw new Error(`${where} needs a kind, one of: ${ALERT_RULE_KINDS.join(', ')}`)
+    }
+    if (entry.description !== undefined && !isString(entry.description)) throw new Error(`${where} description must be a string`)
+    const kind = entry.kind as AlertRuleKind
+    const windowSeconds = parsePositive(entry.windowSeconds, where, 'windowSeconds')
+    const cooldownSeconds = entry.cooldownSeconds === undefined ? windowSeconds : entry.cooldownSeconds
+    if (!isNumber(cooldownSeconds) || cooldownSeconds < 0) throw new Error(`${where} cooldownSeconds must be 0 or more`)
+
+    let steps: AlertStep[]
+    if (kind === 'sequence') {
+      if (!Array.isArray(entry.steps) || entry.steps.length < 2) throw new Error(`${where} needs at least two steps`)
+      steps = entry.steps.map((step: unknown, stepIndex) => parseStep(step, `${where} step ${stepIndex}`))
+    } else {
+      steps = [parseStep(entry, where)]
+    }
+
+    let threshold = 0
+    if (kind === 'count' || kind === 'sum') threshold = parsePositive(entry.atLeast, where, 'atLeast')
+    if (kind === 'change') threshold = parsePositive(entry.atLeastPct, where, 'atLeastPct')
+
+    const field = parseOptionalPath(entry.field, where, 'field')
+    if ((kind === 'sum' || kind === 'change') && !field) throw new Error(`${where} needs a field`)
+    const direction = entry.direction ?? 'any'
+    if (direction !== 'up' && direction !== 'down' && direction !== 'any') throw new Error(`${where} direction must be up, down or any`)
+
+    return {
+      name: entry.name,
+      kind,
+      description: entry.description as string | undefined,
+      steps,
+      groupBy: kind === 'sequence' ? parseOptionalPath(entry.groupBy, where, 'groupBy') : steps[0]?.groupBy,
+      windowMs: windowSeconds * 1000,
+      cooldownMs: cooldownSeconds * 1000,
+      threshold,
+      field,
+      over: parseOptionalPath(entry.over, where, 'over'),
+      itemWhere: parseWhere(entry.itemWhere, where, 'itemWhere'),
+      direction
+    }
+  })
+}
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+function eventId(data: unknown): string | undefined {
+  return isRecord(data) && isString(data.signature) ? data.signature : undefined
+}
+
+function keysFor(path: string | undefined, data: unknown, event: FilterableEventName): string[] {
+  if (!path) return ['']
+  // Null values, such as the mint of a native SOL whale, group together as `null`
+  return [...new Set(resolveFilterPath(data, path, event).map(String))]
+}
+
+/** Sum rules: `field` across the event, or across the items of `over` that pass `itemWhere`. */
+function amountOf(rule: AlertRule, data: unknown, event: FilterableEventName): number {
+  const sources = rule.over
+    ? resolveFilterPath(data, rule.over, event).filter((item) => matchesFilterConditions(item, rule.itemWhere))
+    : [data]
+  let total = 0
+  for (const source of sources) {
+    for (const value of resolveFilterPath(source, rule.field as string, rule.over ? undefined : event)) total += toNumber(value) ?? 0
+  }
+  return total
+}
+
+function percent(from: number, to: number): number {
+  return ((to - from) / from) * 100
+}
+
+function toAlertEvent(entry: Entry): AlertEvent {
+  return { event: entry.event, receivedAt: new Date(entry.atMs).toISOString(), data: entry.data }
+}
+
+/**
+ * Evaluates windowed, stateful rules over typed events. State is kept per rule
+ * and per `groupBy` value, and windows are measured by arrival time; `attach`
+ * takes it from the source's clock, so a replay goes by recorded time:
+ *
+ * - `count` fires when at least `atLeast` matching events arrive within the window.
+ * - `sum` fires when `field` (summed over `over` items, when set) reaches `atLeast`.
+ * - `change` fires when `field` moves by at least `atLeastPct` from the lowest
+ *   (up) or highest (down) value seen within the window.
+ * - `sequence` fires when its steps match in order, all within the window of
+ *   the first, and with the same `groupBy` value.
+ *
+ * Events with a signature count once per rule and key, however often they are
+ * delivered. Once a rule fires, the events that triggered it are consumed, so
+ * they never fire the same rule twice, and the rule stays quiet for that key
+ * until its cooldown has passed; triggers in between are counted as
+ * suppressed.
+ */
+export function createAlertEngine(rules: AlertRule[], options: Partial<AlertEngineOptions> = {}) {
+  const settings = { ...DEFAULT_ALERT_ENGINE_OPTIONS, ...options }
+  const states: RuleState[] = rules.map((rule) => ({ rule, keys: new Map(), fired: 0, suppressed: 0 }))
+
+  function stateFor(state: RuleState, key: string): KeyState {
+    let keyState = state.keys.get(key)
+    if (!keyState) {
+      keyState = { entries: [], chains: [], consumed: new Set(), cooldownUntilMs: 0 }
+      state.keys.set(key, keyState)
+      if (state.keys.size > settings.maxKeys) state.keys.delete(state.keys.keys().next().value as string)
+    }
+    return keyState
+  }
+
+  function push(list: Entry[], entry: Entry) {
+    list.push(entry)
+    if (list.length > settings.maxWindowEvents) list.shift()
+  }
+
+  function isConsumed(keyState: KeyState, entry: Entry): boolean {
+    return entry.id !== undefined && keyState.consumed.has(entry.id)
+  }
+
+  /** Returns the alert and consumes the key's window, or nothing while the key is cooling down. */
+  function fire(state: RuleState, key: string, keyState: KeyState, value: number, events: Entry[], atMs: number): Alert | undefined {
+    if (atMs < keyState.cooldownUntilMs) {
+      state.suppressed += 1
+      return undefined
+    }
+    state.fired += 1
+    keyState.cooldownUntilMs = atMs + state.rule.cooldownMs
+    for (const { id } of [...keyState.entries, ...events]) {
+      if (!id) continue
+      keyState.consumed.add(id)
+      if (keyState.consumed.size > settings.maxWindowEvents) keyState.consumed.delete(keyState.consumed.values().next().value as string)
+    }
+    keyState.entries = []
+    keyState.chains = []
+    const { rule } = state
+    return {
+      rule: rule.name,
+      kind: rule.kind,
+      ...(rule.description ? { description: rule.description } : {}),
+      key: rule.groupBy || rule.steps.some((step) => step.groupBy) ? key : null,
+      firedAt: new Date(atMs).toISOString(),
+      value,
+      events: events.map(toAlertEvent)
+    }
+  }
+
+  function evaluateWindow(state: RuleState, key: string, entry: Entry): Alert | undefined {
+    const { rule } = state
+    const keyState = stateFor(state, key)
+    const since = entry.atMs - rule.windowMs
+    keyState.entries = keyState.entries.filter((item) => item.atMs > since)
+    if (isConsumed(keyState, entry) || (entry.id && keyState.entries.some((item) => item.id === entry.id))) return undefined
+
+    if (rule.kind === 'change') {
+      const window = keyState.entries.filter((item) => item.value > 0)
+      push(keyState.entries, entry)
+      if (!window.length) return undefined
+      const low = window.reduce((best, item) => (item.value < best.value ? item : best))
+      const high = window.reduce((best, item) => (item.value > best.value ? item : best))
+      const up = percent(low.value, entry.value)
+      const down = percent(high.value, entry.value)
+      const rising = rule.direction === 'up' || (rule.direction === 'any' && up >= -down)
+      const move = rising ? up : down
+      if (rising ? move < rule.threshold : -move < rule.threshold) return undefined
+      const alert = fire(state, key, keyState, move, [rising ? low : high, entry], entry.atMs)
+      // The next move is measured from here
+      if (alert) keyState.entries = [entry]
+      return alert
+    }
+
+    push(keyState.entries, entry)
+    const total = rule.kind === 'count' ? keyState.entries.length : keyState.entries.reduce((sum, item) => sum + item.value, 0)
+    if (total < rule.threshold) return undefined
+    return fire(state, key, keyState, total, keyState.entries, entry.atMs)
+  }
+
+  function evaluateSequence(state: RuleState, key: string, stepIndex: number, entry: Entry): Alert | undefined {
+    const { rule } = state
+    const keyState = stateFor(state, key)
+    keyState.chains = keyState.chains.filter((chain) => (chain[0] as Entry).atMs > entry.atMs - rule.windowMs)
+    if (isConsumed(keyState, entry)) return undefined
+    if (stepIndex === 0) {
+      keyState.chains.push([entry])
+      if (keyState.chains.length > settings.maxWindowEvents) keyState.chains.shift()
+      return undefined
+    }
+    // The oldest chain waiting for this step takes it
+    const chain = keyState.chains.find((item) => item.length === stepIndex && !item.some(({ id }) => id && id === entry.id))
+    if (!chain) return undefined
+    chain.push(entry)
+    if (chain.length < rule.steps.length) return undefined
+    keyState.chains = keyState.chains.filter((item) => item !== chain)
+    return fire(state, key, keyState, (entry.atMs - (chain[0] as Entry).atMs) / 1000, chain, entry.atMs)
+  }
+
+  /** Feeds one event through every rule and returns the alerts it fired. */
+  function evaluate(event: FilterableEventName, data: unknown, atMs = Date.now()): Alert[] {
+    const alerts: Alert[] = []
+    for (const state of states) {
+      const { rule } = state
+      // Later steps first, so an event matching several steps can't complete a chain it just started
+      for (let stepIndex = rule.steps.length - 1; stepIndex >= 0; stepIndex -= 1) {
+        const step = rule.steps[stepIndex] as AlertStep
+        if (step.event !== event || !matchesFilterConditions(data, step.where, event)) continue
+        const value = rule.kind === 'sum' ? amountOf(rule, data, event) : rule.kind === 'change' ? toNumber(resolveFilterPath(data, rule.field as string, event)[0]) : 0
+        if (value === undefined || (rule.kind === 'sum' && value === 0)) continue
+        const entry: Entry = { atMs, event, data, id: eventId(data), value }
+        for (const key of keysFor(step.groupBy ?? rule.groupBy, data, event)) {
+          const alert = rule.kind === 'sequence' ? evaluateSequence(state, key, stepIndex, entry) : evaluateWindow(state, key, entry)
+          if (alert) alerts.push(alert)
+        }
+      }
+    }
+    return alerts
+  }
+
+  return {
+    evaluate,
+
+    get size() {
+      return rules.length
+    },
+
+    /**
+     * Evaluates the source's events and emits each alert on the source as an
+     * `alert` event, so logs, iterators and webhooks receive them like any
+     * other event.
+     */
+    attach(source: AtomicStreamSource) {
+      const events = new Set(rules.flatMap((rule) => rule.steps.map((step) => step.event)))
+      for (const event of events) {
+        source.on(event, (data: unknown) => {
+          for (const alert of evaluate(event, data, source.now())) source.emit('alert', alert)
+        })
+      }
+    },
+
+    stats(): AlertStats {
+      return states.map(({ rule, fired, suppressed }) => ({ rule: rule.name, fired, suppressed }))
+    }
+  }
+}
+
+export type AlertEngine = ReturnType<typeof createAlertEngine>
@@ -0,0 +1,128 @@
+import { isString } from './parse'
+import type { UnknownRecord, Ws402StreamSchema } from './types'
+
+export const USDC_DECIMALS = 6
+
+/** Spend caps; 0 disables a limit. */
+export type SpendLimits = {
+  maxTotalUsdc: number
+  /** Counts renewals the server accepted; schema purchases, even one replacing an expired token, are not renewals. */
+  maxRenewals: number
+  maxSessionSeconds: number
+  maxPricePerSliceUsdc: number
+}
+
+export function usdcToAtomic(usdc: number): bigint {
+  return BigInt(Math.round(usdc * 10 ** USDC_DECIMALS))
+}
+
+export function formatUsdc(atomic: bigint): string {
+  return (Number(atomic) / 10 ** USDC_DECIMALS).toFixed(USDC_DECIMALS)
+}
+
+export function parseAtomicAmount(value: unknown): bigint | undefined {
+  if (!isString(value) || !/^\d+$/.test(value)) return undefined
+  return BigInt(value)
+}
+
+/**
+ * Projected cost of one slice: the larger of the advertised pricing and the
+ * payment ceiling, so a schema that under-reports pricing can't slip past caps.
+ */
+export function estimateSliceCost(schema: Ws402StreamSchema): bigint {
+  const fromPricing = usdcToAtomic(schema.pricing.pricePerSecond * schema.pricing.estimatedDuration)
+  const fromDetails = parseAtomicAmount(schema.paymentDetails.maxAmountRequired) ?? 0n
+  return fromPricing > fromDetails ? fromPricing : fromDetails
+}
+
+/** The part of a budget another one charges its payments to; see `createSpendBudget`. */
+export type SharedSpendBudget = {
+  check(amountAtomic: bigint): string | undefined
+  record(amountAtomic: bigint): void
+}
+
+/**
+ * Tracks payments signed during this process and decides whether another one
+ * is allowed. Caps apply to what was signed; `settle` separately counts the
+ * payments the server accepted, which is what was actually paid, and which of
+ * them were renewals. onExhausted fires once, the first time a limit is hit.
+ *
+ * A `shared` budget, e.g. one cap for every stream paid from the same wallet,
+ * is checked and charged with each payment as well; once it is exhausted,
+ * every budget attached to it refuses its next payment.
+ */
+export function createSpendBudget(
+  limits: SpendLimits,
+  onExhausted: (reason: string) => void,
+  shared?: SharedSpendBudget
+) {
+  const startedAt = Date.now()
+  let spentAtomic = 0n
+  let payments = 0
+  let settledAtomic = 0n
+  let renewals = 0
+  let exhaustedReason: string | undefined
+
+  function violation(amountAtomic: bigint): string | undefined {
+    if (limits.maxSessionSeconds > 0 && Date.now() - startedAt >= limits.maxSessionSeconds * 1000) {
+      return `max session time of ${limits.maxSessionSeconds}s reached`
+    }
+    if (limits.maxRenewals > 0 && renewals >= limits.maxRenewals) {
+      return `max renewals of ${limits.maxRenewals} reached`
+    }
+    if (limits.maxPricePerSliceUsdc > 0 && amountAtomic > usdcToAtomic(limits.maxPricePerSliceUsdc)) {
+      return `slice price ${formatUsdc(amountAtomic)} exceeds max ${limits.maxPricePerSliceUsdc} USDC`
+    }
+    if (limits.maxTotalUsdc > 0 && spentAtomic + amountAtomic > usdcToAtomic(limits.maxTotalUsdc)) {
+      return `total spend would exceed max ${limits.maxTotalUsdc} USDC`
+    }
+    return undefined
+  }
+
+  function exhaust(reason: string) {
+    if (exhaustedReason) return
+    exhaustedReason = reason
+    onExhausted(reason)
+  }
+
+  return {
+    /** Returns the blocking reason, or undefined if a payment of this size is allowed. */
+    check(amountAtomic: bigint): string | undefined {
+      const reason = exhaustedReason ?? violation(amountAtomic) ?? shared?.check(amountAtomic)
+      if (reason) exhaust(reason)
+      return reason
+    },
+    /** Exhausts the budget immediately, e.g. when the session clock runs out. */
+    exhaust,
+    record(amountAtomic: bigint) {
+      payments += 1
+      spentAtomic += amountAtomic
+      shared?.record(amountAtomic)
+    },
+    /** Counts a signed payment the server accepted, e.g. a renewal it answered with a new expiry. */
+    settle(amountAtomic: bigint, { renewal = false } = {}) {
+      settledAtomic += amountAtomic
+      if (renewal) renewals += 1
+    },
+    snapshot() {
+      return {
+        spentUsdc: formatUsdc(spentAtomic),
+        settledUsdc: formatUsdc(settledAtomic),
+        payments,
+        renewals,
+        elapsedSeconds: Math.round((Date.now() - startedAt) / 1000)
+      }
+    }
+  }
+}
+
+export type SpendBudget = ReturnType<typeof createSpendBudget>
+
+/**
+ * Requirement amount in atomic units: v2 requirements carry `amount`,
+ * v1 requirements carry `maxAmountRequired`.
+ */
+export function requirementAmount(requirements: object): bigint {
+  const record = requirements as UnknownRecord
+  return parseAtomicAmount(record.amount) ?? parseAtomicAmount(record.maxAmountRequired) ?? 0n
+}
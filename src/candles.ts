@@ -0,0 +1,248 @@
+import type { AtomicStreamSource } from './events'
+import type { WsTickerEvent } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CandleInterval = { label: string; ms: number }
+
+/** OHLC over one interval for one pair, either on one DEX or across all of them. */
+export type Candle = {
+  baseMint: string
+  quoteMint: string
+  /** Null for the candle across every DEX. */
+  dex: string | null
+  interval: string
+  openTime: string
+  closeTime: string
+  open: number
+  high: number
+  low: number
+  close: number
+  ticks: number
+  firstSlot: number
+  lastSlot: number
+  /**
+   * Tick-weighted mean price over the rolling window, this candle included.
+   * Ticks carry no volume, so each one counts once.
+   */
+  avgPrice: number
+  /** Close against the previous candle's close; null for the first candle of a pair. */
+  changePct: number | null
+  /** Close against the open of the oldest candle in the rolling window. */
+  rollingChangePct: number
+  /** DEXes that ticked during the candle. */
+  dexes: number
+  /**
+   * Spread between the highest and lowest last price per DEX, relative to the
+   * lowest. Only on cross-DEX candles with at least two DEXes; null otherwise.
+   */
+  spreadPct: number | null
+}
+
+export type CandleAggregatorOptions = {
+  intervals: CandleInterval[]
+  /** Also build a candle per DEX next to the cross-DEX one. */
+  perDex: boolean
+  /** Candles per series that rolling averages and change cover. */
+  rollingWindow: number
+}
+
+export const DEFAULT_CANDLE_OPTIONS: Omit<CandleAggregatorOptions, 'intervals'> = {
+  perDex: true,
+  rollingWindow: 20
+}
+
+type OpenCandle = {
+  startMs: number
+  open: number
+  high: number
+  low: number
+  close: number
+  ticks: number
+  priceSum: number
+  firstSlot: number
+  lastSlot: number
+  /** Last price per DEX, for the spread. */
+  lastByDex: Map<string, number>
+}
+
+type Series = {
+  baseMint: string
+  quoteMint: string
+  dex: string | null
+  interval: CandleInterval
+  current: OpenCandle | undefined
+  /** Closed candles in the rolling window, oldest first. */
+  window: { open: number; close: number; ticks: number; priceSum: number }[]
+  lastCloseMs: number
+}
+
+const UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 }
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Parses intervals such as `1s,1m,5m`; each is a whole number of seconds, minutes or hours. */
+export function parseCandleIntervals(value: string[]): CandleInterval[] {
+  const intervals = value.map((label) => {
+    const match = /^(\d+)([smh])$/.exec(label)
+    const count = Number(match?.[1])
+    if (!match || count <= 0) throw new Error(`invalid candle interval ${label}; use e.g. 1s, 1m, 5m or 1h`)
+    return { label, ms: count * (UNITS[match[2] as string] as number) }
+  })
+  const unique = intervals.filter((interval, index) => intervals.findIndex(({ ms }) => ms === interval.ms) === index)
+  return unique.sort((a, b) => a.ms - b.ms)
+}
+
+// =============================================================================
+// Aggregator
+// =============================================================================
+
+function percent(from: number, to: number): number | null {
+  return from ? ((to - from) / from) * 100 : null
+}
+
+/**
+ * Builds OHLC candles from ticker events per (baseMint, quoteMint) pair and
+ * interval, across DEXes and optionally per DEX. Ticks are bucketed by the
+ * time they were received, since ticker events carry a slot but no timestamp;
+ * `attach` takes it from the source's clock, so a replay buckets by recorded
+ * time. Intervals are aligned to the epoch, so a 1m candle runs from :00 to
+ * :00. A candle closes on the first tick past its end or, for quiet pairs, on
+ * the next sweep; intervals without ticks produce no candle.
+ */
+export function createCandleAggregator(options: CandleAggregatorOptions) {
+  const series = new Map<string, Series>()
+
+  function seriesFor(event: WsTickerEvent, interval: CandleInterval, dex: string | null): Series {
+    const key = `${interval.ms}|${event.baseMint}|${event.quoteMint}|${dex ?? '*'}`
+    let entry = series.get(key)
+    if (!entry) {
+      entry = { baseMint: event.baseMint, quoteMint: event.quoteMint, dex, interval, current: undefined, window: [], lastCloseMs: 0 }
+      series.set(key, entry)
+    }
+    return entry
+  }
+
+  function close(entry: Series): Candle {
+    const candle = entry.current as OpenCandle
+    entry.current = undefined
+    const previous = entry.window[entry.window.length - 1]
+    entry.window.push({ open: candle.open, close: candle.close, ticks: candle.ticks, priceSum: candle.priceSum })
+    if (entry.window.length > options.rollingWindow) entry.window.shift()
+    const endMs = candle.startMs + entry.interval.ms
+    entry.lastCloseMs = endMs
+
+    const ticks = entry.window.reduce((sum, item) => sum + item.ticks, 0)
+    const priceSum = entry.window.reduce((sum, item) => sum + item.priceSum, 0)
+    const lastPrices = [...candle.lastByDex.values()]
+    const spreadPct = entry.dex === null && lastPrices.length > 1 ? percent(Math.min(...lastPrices), Math.max(...lastPrices)) : null
+    return {
+      baseMint: entry.baseMint,
+      quoteMint: entry.quoteMint,
+      dex: entry.dex,
+      interval: entry.interval.label,
+      openTime: new Date(candle.startMs).toISOString(),
+      closeTime: new Date(endMs).toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      ticks: candle.ticks,
+      firstSlot: candle.firstSlot,
+      lastSlot: candle.lastSlot,
+      avgPrice: priceSum / ticks,
+      changePct: previous ? percent(previous.close, candle.close) : null,
+      rollingChangePct: percent(entry.window[0]?.open ?? candle.open, candle.close) ?? 0,
+      dexes: candle.lastByDex.size,
+      spreadPct
+    }
+  }
+
+  function addTo(entry: Series, event: WsTickerEvent, atMs: number, closed: Candle[]) {
+    const startMs = atMs - (atMs % entry.interval.ms)
+    if (entry.current && entry.current.startMs !== startMs) closed.push(close(entry))
+    const { price } = event
+    if (!entry.current) {
+      entry.current = {
+        startMs,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        ticks: 0,
+        priceSum: 0,
+        firstSlot: event.slot,
+        lastSlot: event.slot,
+        lastByDex: new Map()
+      }
+    }
+    const candle = entry.current
+    candle.high = Math.max(candle.high, price)
+    candle.low = Math.min(candle.low, price)
+    candle.close = price
+    candle.ticks += 1
+    candle.priceSum += price
+    candle.firstSlot = Math.min(candle.firstSlot, event.slot)
+    candle.lastSlot = Math.max(candle.lastSlot, event.slot)
+    candle.lastByDex.set(event.dex, price)
+  }
+
+  /** Adds a tick and returns the candles it closed. Non-finite or non-positive prices are ignored. */
+  function add(event: WsTickerEvent, atMs = Date.now()): Candle[] {
+    const closed: Candle[] = []
+    if (!Number.isFinite(event.price) || event.price <= 0) return closed
+    for (const interval of options.intervals) {
+      addTo(seriesFor(event, interval, null), event, atMs, closed)
+      if (options.perDex) addTo(seriesFor(event, interval, event.dex), event, atMs, closed)
+    }
+    return closed
+  }
+
+  /**
+   * Closes every candle whose interval has ended and returns them. Series
+   * idle for longer than their rolling window are forgotten, so pairs that
+   * stop trading don't accumulate.
+   */
+  function sweep(nowMs = Date.now()): Candle[] {
+    const closed: Candle[] = []
+    for (const [key, entry] of series) {
+      if (entry.current && entry.current.startMs + entry.interval.ms <= nowMs) closed.push(close(entry))
+      if (!entry.current && nowMs - entry.lastCloseMs > entry.interval.ms * options.rollingWindow) series.delete(key)
+    }
+    return closed
+  }
+
+  return {
+    add,
+    sweep,
+
+    /**
+     * Feeds the source's ticker events through the aggregator and emits each
+     * closed candle on the source as a `candle` event, so iterators and
+     * webhooks receive them like any other event. Stops when the source does;
+     * candles still open at that point are not emitted.
+     */
+    attach(source: AtomicStreamSource) {
+      const emit = (candles: Candle[]) => {
+        for (const candle of candles) source.emit('candle', candle)
+      }
+      const shortest = options.intervals[0]?.ms ?? 1000
+      const timer = setInterval(() => emit(sweep(source.now())), Math.min(1000, shortest / 4))
+      timer.unref()
+      source.on('ticker', (event) => emit(add(event, source.now())))
+      source.once('stopped', () => clearInterval(timer))
+    },
+
+    stats() {
+      let open = 0
+      for (const entry of series.values()) if (entry.current) open += 1
+      return { series: series.size, open }
+    }
+  }
+}
+
+export type CandleAggregator = ReturnType<typeof createCandleAggregator>
@@ -0,0 +1,711 @@
+import { randomUUID } from 'node:crypto'
+import { EventEmitter } from 'node:events'
+import WebSocket from 'ws'
+
+import { x402HTTPClient, wrapFetchWithPayment, type x402Client } from '@x402/fetch'
+import type { SettleResponse } from '@x402/core/types'
+import type { ClientSvmSigner } from '@x402/svm'
+
+import { createSpendBudget, formatUsdc, requirementAmount, type SharedSpendBudget, type SpendBudget, type SpendLimits } from './budget'
+import type { CommitmentTracker } from './commitment'
+import { computeBackoffDelay, startHeartbeat } from './connection'
+import { createDefaultAccountDecoderRegistry, type AccountDecoderRegistry } from './decoders/registry'
+import {
+  dispatchStreamEvent,
+  iterateEvents,
+  type AtomicStreamEvent,
+  type AtomicStreamEventMap,
+  type DispatchOptions,
+  type StopInfo
+} from './events'
+import type { EventFilter } from './filter'
+import { isWsX402Event } from './guards'
+import type { PaymentKind, PaymentLedger } from './ledger'
+import { logDebug, logError, logInfo, logWarn } from './log'
+import { isRecord, parseSchemaVersion, safeJsonParse } from './parse'
+import { createRenewalScheduler, type RenewalOutcome, type RenewalPolicy, type RenewalScheduler } from './renewal'
+import type { SessionStore } from './session'
+import type { EventFormat, RenewMethod, WsErrorEvent, WsRenewedEvent } from './types'
+import {
+  buildRenewUrl,
+  createX402Client,
+  httpRenew,
+  inbandRenewChallenge,
+  requestWs402Schema,
+  withToken,
+  type Ws402Session
+} from './x402'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Fields sent with the `setOptions` op. */
+export type StreamOptions = {
+  includeAccounts: boolean
+  includeTokenBalanceChanges: boolean
+  includeLogs: boolean
+  includeInstructions: boolean
+  eventFormat: EventFormat
+  filterTokenBalances: boolean
+}
+
+export type ReconnectOptions = {
+  enabled: boolean
+  /** Consecutive attempts before giving up; 0 = unlimited. */
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  /** Ping interval for half-open socket detection; 0 disables. */
+  heartbeatIntervalMs: number
+  /**
+   * How long a reconnect waits for paused renewals to resume once the token
+   * has run out, before buying one slice to look at the upstream again; 0 waits
+   * until they are resumed.
+   */
+  pausedWaitMs: number
+}
+
+export type AtomicStreamClientConfig = {
+  /** Tags this client's log lines, e.g. when several streams run in one process. */
+  name?: string
+  httpBase: string
+  schemaPath: string
+  signer: ClientSvmSigner
+  /** Solana RPC used while building payments; defaults to the public endpoint for the network. */
+  rpcUrl?: string
+  renewMethod?: RenewMethod
+  accounts?: string[]
+  programs?: string[]
+  options?: Partial<StreamOptions>
+  reconnect?: Partial<ReconnectOptions>
+  limits?: Partial<SpendLimits>
+  /** Checked and charged with every payment next to `limits`, e.g. one spend cap for several clients on the same wallet. */
+  sharedBudget?: SharedSpendBudget
+  /** When to renew ahead of expiry, how to retry, and when to fall back to the other renew method. */
+  renewal?: Partial<RenewalPolicy>
+  /** Persists the paid session so a restart reuses a still-valid token instead of buying a new slice. */
+  sessionStore?: SessionStore
+  /** Records every payment that went through, for reconciliation. */
+  ledger?: PaymentLedger
+  /** Decoders used to attach `decoded` to account events; defaults to the built-in token and system decoders. */
+  accountDecoders?: AccountDecoderRegistry
+  /** Client-side rules applied to data events before they are emitted. */
+  filter?: EventFilter
+  /** Deduplicates transactions by signature and emits `transactionPromoted`/`transactionDropped`. */
+  commitments?: CommitmentTracker
+}
+
+export const DEFAULT_STREAM_OPTIONS: StreamOptions = {
+  includeAccounts: true,
+  includeTokenBalanceChanges: true,
+  includeLogs: false,
+  includeInstructions: false,
+  eventFormat: 'enhanced',
+  filterTokenBalances: false
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  enabled: true,
+  maxAttempts: 0,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  heartbeatIntervalMs: 15_000,
+  pausedWaitMs: 300_000
+}
+
+const DEFAULT_SPEND_LIMITS: SpendLimits = {
+  maxTotalUsdc: 0,
+  maxRenewals: 0,
+  maxSessionSeconds: 0,
+  maxPricePerSliceUsdc: 0
+}
+
+// Tokens this close to expiry are not worth reconnecting with
+const TOKEN_REUSE_MARGIN_MS = 5_000
+
+// Close code the server uses for an unknown or expired token
+const CLOSE_CODE_INVALID_TOKEN = 4401
+
+// How long an inband payment waits for the server's `renewed` before counting as failed
+const INBAND_ACK_TIMEOUT_MS = 15_000
+
+/** Running totals for telemetry; see `getStats()`. */
+export type ClientStats = {
+  bytesReceived: number
+  /** Connections opened after the first. */
+  reconnects: number
+  /** Per renewal attempt; skipped counts cycles blocked by a pause or the budget. */
+  renewals: Record<RenewMethod, Record<RenewalOutcome, number>>
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+/**
+ * Pays for an AtomicStream ws402 stream, keeps the WebSocket connected and
+ * renewed, and re-emits decoded messages as typed events.
+ *
+ * Lifecycle: `start()` buys the first slice and connects; the client then
+ * reconnects on its own until `stop()` is called, the spend budget runs out,
+ * or reconnect attempts are exhausted. Each of those ends with `stopped`.
+ */
+export class AtomicStreamClient extends EventEmitter<AtomicStreamEventMap> {
+  private readonly httpBase: string
+  private readonly schemaPath: string
+  private readonly signer: ClientSvmSigner
+  private readonly rpcUrl?: string
+  private readonly renewMethod: RenewMethod
+  private readonly reconnectOptions: ReconnectOptions
+  private readonly budget: SpendBudget
+  private readonly sessionLimitMs: number
+  private readonly dispatchOptions: DispatchOptions
+  private readonly renewals: RenewalScheduler
+  private readonly sessionStore?: SessionStore
+  private readonly ledger?: PaymentLedger
+  private readonly logScope: string
+
+  private accounts: string[]
+  private programs: string[]
+  private options: StreamOptions
+
+  private x402?: x402Client
+  private fetchWithPayment?: typeof fetch
+  private httpClient?: x402HTTPClient
+  private session?: Ws402Session
+  private renewUrl = ''
+  private ws?: WebSocket
+  private reconnectAttempts = 0
+  private reconnectTimer?: NodeJS.Timeout
+  private sessionTimer?: NodeJS.Timeout
+  private stopping = false
+  private renewalsPaused = false
+  // A reconnect found the token expired while paused and is waiting for renewals to resume
+  private reconnectWaiting = false
+  private pausedWaitTimer?: NodeJS.Timeout
+  // The wait timed out, so the next reconnect buys a slice despite the pause
+  private pausedWaitExpired = false
+  // Requirements of the last signed payment, attached to its ledger entry once it goes through
+  private signedRequirements?: object
+  private sliceSeconds?: number
+  // Message types already reported as unrecognized at warn level
+  private readonly unrecognizedTypes = new Set<string>()
+  private readonly stats: ClientStats = {
+    bytesReceived: 0,
+    reconnects: 0,
+    renewals: {
+      http: { succeeded: 0, failed: 0, skipped: 0 },
+      inband: { succeeded: 0, failed: 0, skipped: 0 }
+    }
+  }
+
+  constructor(config: AtomicStreamClientConfig) {
+    super()
+    this.logScope = config.name ? `client:${config.name}` : 'client'
+    this.httpBase = config.httpBase
+    this.schemaPath = config.schemaPath
+    this.signer = config.signer
+    this.rpcUrl = config.rpcUrl
+    this.renewMethod = config.renewMethod ?? 'http'
+    this.accounts = [...(config.accounts ?? [])]
+    this.programs = [...(config.programs ?? [])]
+    this.options = { ...DEFAULT_STREAM_OPTIONS, ...config.options }
+    this.reconnectOptions = { ...DEFAULT_RECONNECT_OPTIONS, ...config.reconnect }
+    const limits = { ...DEFAULT_SPEND_LIMITS, ...config.limits }
+    this.sessionLimitMs = limits.maxSessionSeconds * 1000
+    this.dispatchOptions = {
+      accountDecoders: config.accountDecoders ?? createDefaultAccountDecoderRegistry(),
+      filter: config.filter,
+      commitments: config.commitments
+    }
+    this.sessionStore = config.sessionStore
+    this.ledger = config.ledger
+    this.budget = createSpendBudget(limits, (reason) => this.finish({ reason: 'budget', message: reason }), config.sharedBudget)
+    this.renewals = createRenewalScheduler({
+      ...config.renewal,
+      method: this.renewMethod,
+      logScope: this.logScope,
+      attempt: (method) => this.renewWith(method),
+      blocked: () => this.renewalBlocked(),
+      onAttempt: (method, outcome) => {
+        this.stats.renewals[method][outcome] += 1
+      }
+    })
+  }
+
+  /** Buys the first slice and opens the WebSocket. Rejects if the purchase fails. */
+  async start(): Promise<void> {
+    if (this.x402) throw new Error('client already started')
+    logInfo(this.logScope, 'starting', { httpBase: this.httpBase, renewMethod: this.renewMethod, schemaPath: this.schemaPath })
+
+    if (this.sessionLimitMs > 0) {
+      const message = `max session time of ${this.sessionLimitMs / 1000}s reached`
+      this.sessionTimer = setTimeout(() => this.budget.exhaust(message), this.sessionLimitMs)
+      this.sessionTimer.unref()
+    }
+
+    this.x402 = createX402Client(this.signer, this.budget, this.rpcUrl, this.logScope)
+    this.x402.onAfterPaymentCreation(async ({ selectedRequirements }) => {
+      this.signedRequirements = selectedRequirements
+    })
+    this.fetchWithPayment = wrapFetchWithPayment(fetch, this.x402)
+    this.httpClient = new x402HTTPClient(this.x402)
+
+    const saved = this.sessionStore?.load(this.httpBase, this.schemaPath)
+    if (saved && saved.expiresAtMs - Date.now() > TOKEN_REUSE_MARGIN_MS) {
+      logInfo(this.logScope, 'resuming saved session', { streamId: saved.streamId, expiresAt: new Date(saved.expiresAtMs).toISOString() })
+      this.session = saved
+    } else {
+      await this.purchaseSession()
+    }
+    if (this.stopping || !this.session) return
+    this.renewUrl = buildRenewUrl(this.httpBase, this.session.streamId, parseSchemaVersion(this.schemaPath))
+    this.renewals.schedule(this.session.expiresAtMs)
+    this.connect()
+  }
+
+  /** Closes the socket with a normal close code and stops reconnecting. */
+  async stop(): Promise<void> {
+    await this.finish({ reason: 'requested' })
+  }
+
+  setAccounts(accounts: string[]) {
+    this.accounts = [...accounts]
+    this.send({ op: 'setAccounts', accounts: this.accounts })
+  }
+
+  setPrograms(programs: string[]) {
+    this.programs = [...programs]
+    this.send({ op: 'setPrograms', programs: this.programs })
+  }
+
+  setOptions(options: Partial<StreamOptions>) {
+    this.options = { ...this.options, ...options }
+    this.send({ op: 'setOptions', ...this.options })
+  }
+
+  /** Drops the current socket and goes through the normal reconnect path. */
+  reconnect() {
+    if (this.stopping || !this.ws) return
+    logInfo(this.logScope, 'reconnect requested')
+    this.ws.terminate()
+  }
+
+  /**
+   * While paused, scheduled renewals, reminders and payment_required are all
+   * skipped, so the current slice runs out instead of paying for a feed known
+   * to be broken. Once it has, reconnects wait instead of buying a new slice,
+   * and resuming buys one and reconnects. A wait longer than
+   * `reconnect.pausedWaitMs` buys one slice anyway, so the upstream's status
+   * can be seen again.
+   */
+  setRenewalsPaused(paused: boolean) {
+    if (paused === this.renewalsPaused) return
+    this.renewalsPaused = paused
+    logInfo(this.logScope, paused ? 'renewals paused' : 'renewals resumed')
+    if (!paused && this.reconnectWaiting && !this.stopping) {
+      this.endPausedWait()
+      this.reconnectNow()
+    }
+  }
+
+  /** Asks the server for a fresh `status` event. */
+  getState() {
+    this.send({ op: 'getState' })
+  }
+
+  getSpend() {
+    return this.budget.snapshot()
+  }
+
+  getStats(): ClientStats {
+    return structuredClone(this.stats)
+  }
+
+  /** Watchlists and options as they will be sent on the next (re)connect. */
+  getSubscription(): { accounts: string[]; programs: string[]; options: StreamOptions } {
+    return { accounts: [...this.accounts], programs: [...this.programs], options: { ...this.options } }
+  }
+
+  get connected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN
+  }
+
+  /** The token ran out while renewals are paused, so the client is disconnected until they resume. */
+  get waitingForRenewals(): boolean {
+    return this.reconnectWaiting
+  }
+
+  /** Events are received as they are emitted, so this is the wall clock. */
+  now(): number {
+    return Date.now()
+  }
+
+  get streamId(): string | undefined {
+    return this.session?.streamId
+  }
+
+  /** Yields every stream and x402 event until the client stops; see `iterateEvents`. */
+  [Symbol.asyncIterator](): AsyncGenerator<AtomicStreamEvent> {
+    return iterateEvents(this)
+  }
+
+  // ===========================================================================
+  // Connection
+  // ===========================================================================
+
+  private send(message: Record<string, unknown>) {
+    if (this.ws?.readyState !== WebSocket.OPEN) return
+    this.ws.send(JSON.stringify(message))
+  }
+
+  private sendSubscription() {
+    logInfo(this.logScope, 'setting options', this.options)
+    this.send({ op: 'setOptions', ...this.options })
+    if (this.accounts.length) {
+      logInfo(this.logScope, 'setting watch accounts', { count: this.accounts.length })
+      this.send({ op: 'setAccounts', accounts: this.accounts })
+    }
+    if (this.programs.length) {
+      logInfo(this.logScope, 'setting watch programs', { count: this.programs.length })
+      this.send({ op: 'setPrograms', programs: this.programs })
+    }
+    if (!this.accounts.length && !this.programs.length) {
+      logWarn(this.logScope, 'no watchlists configured (accounts/programs empty)')
+    }
+    this.send({ op: 'getState' })
+  }
+
+  private connect() {
+    const session = this.session
+    if (!session) return
+    const url = withToken(session.wsUrl, session.token)
+    logInfo(this.logScope, 'connecting websocket', { wsUrl: url, streamId: session.streamId })
+    const ws = new WebSocket(url)
+    const connectionId = randomUUID()
+    this.ws = ws
+    let stopHeartbeat: () => void = () => undefined
+
+    ws.on('open', () => {
+      logInfo(this.logScope, 'ws open')
+      stopHeartbeat = startHeartbeat(ws, this.reconnectOptions.heartbeatIntervalMs)
+      this.sendSubscription()
+      this.emit('open')
+    })
+
+    ws.on('message', (buf) => {
+      const raw = buf.toString('utf8')
+      this.stats.bytesReceived += Buffer.byteLength(raw)
+      void this.handleMessage(raw, connectionId)
+    })
+
+    ws.on('close', (code, reason) => {
+      stopHeartbeat()
+      logInfo(this.logScope, 'ws closed', { code, reason: reason.toString() })
+      this.emit('close', code, reason.toString())
+      if (code === CLOSE_CODE_INVALID_TOKEN && this.session) {
+        // e.g. a saved token the server no longer knows; buy a new slice on reconnect instead of retrying it
+        logWarn(this.logScope, 'token rejected by server')
+        this.session.expiresAtMs = 0
+      }
+      if (this.stopping || this.ws !== ws) return
+      if (this.reconnectOptions.enabled) {
+        this.scheduleReconnect()
+      } else {
+        void this.finish({ reason: 'closed', message: `socket closed with code ${code}` })
+      }
+    })
+
+    ws.on('error', (err) => {
+      logWarn(this.logScope, 'ws error', { message: err.message })
+    })
+  }
+
+  private scheduleReconnect() {
+    this.reconnectAttempts += 1
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.reconnectOptions
+    if (maxAttempts > 0 && this.reconnectAttempts > maxAttempts) {
+      logError(this.logScope, 'reconnect attempts exhausted', { maxAttempts })
+      void this.finish({ reason: 'reconnect_exhausted', message: `gave up after ${maxAttempts} attempts` })
+      return
+    }
+    const delayMs = computeBackoffDelay(this.reconnectAttempts, baseDelayMs, maxDelayMs)
+    logInfo(this.logScope, 'scheduling reconnect', { attempt: this.reconnectAttempts, delayMs })
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined
+      this.reconnectNow()
+    }, delayMs)
+  }
+
+  private reconnectNow() {
+    this.ensureValidToken()
+      .then((ready) => {
+        if (this.stopping || !ready) return
+        this.stats.reconnects += 1
+        this.connect()
+      })
+      .catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err)
+        logWarn(this.logScope, 'reconnect failed', { message })
+        if (!this.stopping) this.scheduleReconnect()
+      })
+  }
+
+  /** Buys a new slice if the token has run out; false means the reconnect waits for renewals to resume. */
+  private async ensureValidToken(): Promise<boolean> {
+    if (!this.session || !this.fetchWithPayment) return true
+    const msUntilExpiry = this.session.expiresAtMs - Date.now()
+    if (msUntilExpiry > TOKEN_REUSE_MARGIN_MS) {
+      logInfo(this.logScope, 'reusing session token', { msUntilExpiry })
+      return true
+    }
+    // A new slice is a payment like any renewal, so the same pause and budget apply
+    const waitExpired = this.pausedWaitExpired
+    this.pausedWaitExpired = false
+    if (this.renewalsPaused && !waitExpired) {
+      this.waitWhilePaused()
+      return false
+    }
+    const blocked = this.renewalBlocked({ ignorePause: waitExpired })
+    if (blocked) throw new Error(blocked)
+    logInfo(this.logScope, 'session token expired, requesting new schema')
+    await this.purchaseSession()
+    if (this.session) this.renewals.schedule(this.session.expiresAtMs)
+    return true
+  }
+
+  private waitWhilePaused() {
+    const { pausedWaitMs } = this.reconnectOptions
+    logWarn(this.logScope, 'session token expired while renewals are paused, waiting for them to resume', { maxWaitMs: pausedWaitMs || null })
+    this.reconnectWaiting = true
+    if (pausedWaitMs <= 0) return
+    this.pausedWaitTimer = setTimeout(() => {
+      if (this.stopping) return
+      logWarn(this.logScope, 'renewals still paused, buying a slice to check on the upstream', { waitedMs: pausedWaitMs })
+      this.endPausedWait()
+      this.pausedWaitExpired = true
+      this.reconnectNow()
+    }, pausedWaitMs)
+  }
+
+  private endPausedWait() {
+    this.reconnectWaiting = false
+    if (this.pausedWaitTimer) clearTimeout(this.pausedWaitTimer)
+    this.pausedWaitTimer = undefined
+  }
+
+  private async purchaseSession() {
+    if (!this.fetchWithPayment) return
+    const purchase = await requestWs402Schema(this.fetchWithPayment, this.httpBase, this.schemaPath)
+    this.session = purchase.session
+    this.saveSession()
+    this.recordPayment('schema', {
+      sliceSeconds: purchase.sliceSeconds,
+      expiresAt: new Date(purchase.session.expiresAtMs).toISOString(),
+      settlement: purchase.settlement
+    })
+  }
+
+  private recordPayment(
+    kind: PaymentKind,
+    details: { sliceSeconds: number | undefined; expiresAt: string; settlement?: SettleResponse }
+  ) {
+    const requirements = this.signedRequirements as Record<string, unknown> | undefined
+    this.signedRequirements = undefined
+    if (!requirements) return
+    const amountAtomic = requirementAmount(requirements)
+    this.budget.settle(amountAtomic, { renewal: kind !== 'schema' })
+    this.ledger?.append({
+      at: new Date().toISOString(),
+      streamId: this.session?.streamId ?? '',
+      kind,
+      network: String(requirements.network ?? ''),
+      asset: String(requirements.asset ?? ''),
+      payTo: String(requirements.payTo ?? ''),
+      amountAtomic: amountAtomic.toString(),
+      amountUsdc: formatUsdc(amountAtomic),
+      sliceSeconds: details.sliceSeconds ?? null,
+      expiresAt: details.expiresAt,
+      transaction: details.settlement?.transaction || null,
+      payer: details.settlement?.payer ?? null
+    })
+  }
+
+  private saveSession() {
+    if (this.session) this.sessionStore?.save(this.httpBase, this.schemaPath, parseSchemaVersion(this.schemaPath), this.session)
+  }
+
+  private updateExpiry(expiresAt: string) {
+    const parsed = Date.parse(expiresAt)
+    if (!this.session || !Number.isFinite(parsed)) return
+    this.session.expiresAtMs = parsed
+    this.saveSession()
+    this.renewals.schedule(parsed)
+  }
+
+  private async finish(info: StopInfo) {
+    if (this.stopping) return
+    this.stopping = true
+    this.renewals.stop()
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    if (this.sessionTimer) clearTimeout(this.sessionTimer)
+    if (this.pausedWaitTimer) clearTimeout(this.pausedWaitTimer)
+
+    if (info.reason === 'budget') {
+      logWarn(this.logScope, 'spend budget reached, stopping', { reason: info.message, ...this.budget.snapshot() })
+    }
+
+    const ws = this.ws
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      const closed = new Promise<void>((resolve) => {
+        ws.once('close', () => resolve())
+        setTimeout(resolve, 5_000).unref()
+      })
+      ws.close(1000, info.reason === 'budget' ? 'budget exhausted' : 'client stopping')
+      await closed
+    } else if (ws && ws.readyState === WebSocket.CONNECTING) {
+      ws.terminate()
+    }
+    this.saveSession()
+
+    this.emit('stopped', info)
+  }
+
+  // ===========================================================================
+  // Message Dispatch
+  // ===========================================================================
+
+  private async handleMessage(raw: string, connectionId: string) {
+    const decoded = safeJsonParse(raw)
+    if (decoded !== undefined) {
+      this.emit('message', {
+        receivedAt: new Date().toISOString(),
+        streamId: this.session?.streamId ?? '',
+        connectionId,
+        message: decoded
+      })
+    }
+
+    if (dispatchStreamEvent(this, decoded, this.dispatchOptions)) return
+
+    if (!isWsX402Event(decoded)) {
+      // Several payload types are provisional, so the first miss per type is worth a warning
+      const type = isRecord(decoded) ? String(decoded.type ?? decoded.op) : typeof decoded
+      if (this.unrecognizedTypes.has(type)) {
+        logDebug(this.logScope, 'ws event unrecognized', { payload: decoded })
+      } else {
+        this.unrecognizedTypes.add(type)
+        logWarn(this.logScope, 'ws event unrecognized, further ones of this type are logged at debug level', { type, payload: decoded })
+      }
+      this.emit('unrecognized', decoded)
+      return
+    }
+
+    logInfo(this.logScope, 'ws event', { op: decoded.op })
+
+    switch (decoded.op) {
+      case 'hello':
+        this.reconnectAttempts = 0
+        this.sliceSeconds = decoded.sliceSeconds
+        this.updateExpiry(decoded.expiresAt)
+        this.emit('hello', decoded)
+        return
+      case 'renewed':
+        this.updateExpiry(decoded.expiresAt)
+        this.emit('renewed', decoded)
+        return
+      case 'error':
+        this.emit('serverError', decoded)
+        return
+      case 'renewal_reminder':
+        this.emit('renewalReminder', decoded)
+        await this.renewals.trigger('reminder', Date.parse(decoded.expiresAt))
+        return
+      case 'payment_required':
+        this.emit('paymentRequired', decoded)
+        await this.renewals.trigger('payment_required')
+        return
+    }
+  }
+
+  // ===========================================================================
+  // Renewal
+  // ===========================================================================
+
+  private renewalBlocked({ ignorePause = false } = {}): string | undefined {
+    if (this.renewalsPaused && !ignorePause) return 'renewals paused'
+    const session = this.session
+    if (this.stopping || !session) return 'client stopping'
+    return this.budget.check(session.sliceCostAtomic)
+  }
+
+  /** One paid renewal; resolves once the new expiry is known. */
+  private async renewWith(method: RenewMethod) {
+    const session = this.session
+    if (!session || !this.x402 || !this.fetchWithPayment || !this.httpClient) throw new Error('client not started')
+
+    if (method === 'http') {
+      const renewed = await httpRenew(this.fetchWithPayment, this.renewUrl, session.token)
+      session.token = renewed.token
+      this.updateExpiry(renewed.expiresAt)
+      this.recordPayment('http', { sliceSeconds: renewed.sliceSeconds, expiresAt: renewed.expiresAt, settlement: renewed.settlement })
+      // The new token is already paid for; if the socket is down, the reconnect uses it
+      logInfo(this.logScope, 'sending renew token')
+      this.send({ op: 'renew_token', token: session.token })
+      return
+    }
+
+    // Inband payments ride the socket, so don't pay for one that cannot be delivered
+    if (this.ws?.readyState !== WebSocket.OPEN) throw new Error('socket not open for inband renewal')
+    const paymentRequired = await inbandRenewChallenge(this.renewUrl, session.token, this.httpClient)
+    logInfo(this.logScope, 'creating inband payment payload')
+    const paymentPayload = await this.x402.createPaymentPayload(paymentRequired)
+    const [selectedRequirements] = paymentRequired.accepts
+    if (!selectedRequirements) {
+      throw new Error('payment-required missing accepts')
+    }
+
+    const acknowledged = this.waitForInbandAck()
+    this.send({
+      op: 'renew_inband',
+      paymentRequirements: selectedRequirements,
+      paymentPayload
+    })
+    const renewed = await acknowledged
+    this.recordPayment('inband', { sliceSeconds: this.sliceSeconds, expiresAt: renewed.expiresAt })
+  }
+
+  private waitForInbandAck(): Promise<WsRenewedEvent> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer)
+        this.off('renewed', onRenewed)
+        this.off('serverError', onError)
+        this.off('close', onClose)
+      }
+      const onRenewed = (event: WsRenewedEvent) => {
+        if (event.method !== 'inband') return
+        cleanup()
+        resolve(event)
+      }
+      // Errors carry no code; renewal rejections are the ones that mention it
+      const onError = (event: WsErrorEvent) => {
+        if (!/renew/i.test(event.message)) return
+        cleanup()
+        reject(new Error(event.message))
+      }
+      const onClose = () => {
+        cleanup()
+        reject(new Error('socket closed before inband renewal was acknowledged'))
+      }
+      const timer = setTimeout(() => {
+        cleanup()
+        reject(new Error('timed out waiting for inband renewal'))
+      }, INBAND_ACK_TIMEOUT_MS)
+      this.on('renewed', onRenewed)
+      this.on('serverError', onError)
+      this.on('close', onClose)
+    })
+  }
+}
@@ -0,0 +1,115 @@
+import { logDebug } from './log'
+import type { WsTransactionEvent } from './types'
+
+export type CommitmentTrackerOptions = {
+  /** A processed transaction is reported dropped once the confirmed head is this many slots past it. */
+  dropMarginSlots: number
+  /** Upper bound on remembered signatures; the oldest are forgotten first. */
+  maxTracked: number
+}
+
+export const DEFAULT_COMMITMENT_TRACKER_OPTIONS: CommitmentTrackerOptions = {
+  dropMarginSlots: 150,
+  maxTracked: 100_000
+}
+
+export type DroppedTransaction = {
+  signature: string
+  slot: number
+  confirmedHeadSlot: number
+  firstSeenAt: string
+}
+
+/** What the tracker made of a transaction: first sighting, processed-to-confirmed, or a repeat. */
+export type CommitmentObservation = 'new' | 'promoted' | 'duplicate'
+
+type Entry = {
+  slot: number
+  confirmed: boolean
+  /** Whether the first sighting got past the filter; later events for it follow suit. */
+  emitted: boolean
+  firstSeenAt: string
+}
+
+/**
+ * Correlates processed and confirmed sightings of the same signature. Each
+ * signature is remembered until the confirmed head moves `dropMarginSlots`
+ * past it, at which point a still-unconfirmed one is reported dropped, so
+ * memory is bounded by that slot window as well as by `maxTracked`.
+ */
+export function createCommitmentTracker(options: Partial<CommitmentTrackerOptions> = {}) {
+  const { dropMarginSlots, maxTracked } = { ...DEFAULT_COMMITMENT_TRACKER_OPTIONS, ...options }
+  // Insertion order doubles as age order for eviction
+  const entries = new Map<string, Entry>()
+  let confirmedHeadSlot = 0
+  let sweptAtSlot = 0
+  const counts = { promoted: 0, dropped: 0, duplicates: 0, evicted: 0 }
+
+  function remember(signature: string, entry: Entry) {
+    entries.set(signature, entry)
+    while (entries.size > maxTracked) {
+      const oldest = entries.keys().next().value as string
+      entries.delete(oldest)
+      counts.evicted += 1
+    }
+  }
+
+  return {
+    /** Records a transaction sighting. */
+    observe(event: WsTransactionEvent): CommitmentObservation {
+      const existing = entries.get(event.signature)
+      const confirmed = event.commitment === 'confirmed'
+      if (!existing) {
+        remember(event.signature, { slot: event.slot, confirmed, emitted: false, firstSeenAt: new Date().toISOString() })
+        return 'new'
+      }
+      if (confirmed && !existing.confirmed) {
+        existing.confirmed = true
+        counts.promoted += 1
+        return 'promoted'
+      }
+      counts.duplicates += 1
+      return 'duplicate'
+    },
+
+    /** Notes that the first sighting was passed on to listeners, so its promotion or drop is too. */
+    markEmitted(signature: string) {
+      const entry = entries.get(signature)
+      if (entry) entry.emitted = true
+    },
+
+    wasEmitted(signature: string): boolean {
+      return entries.get(signature)?.emitted ?? false
+    },
+
+    /**
+     * Moves the confirmed head forward and returns processed transactions that
+     * fell out of the window unconfirmed and had been emitted. Confirmed
+     * entries in the same range are forgotten.
+     */
+    advanceConfirmedHead(slot: number): DroppedTransaction[] {
+      if (slot <= confirmedHeadSlot) return []
+      confirmedHeadSlot = slot
+      const cutoff = slot - dropMarginSlots
+      if (cutoff <= sweptAtSlot) return []
+      sweptAtSlot = cutoff
+
+      const dropped: DroppedTransaction[] = []
+      for (const [signature, entry] of entries) {
+        if (entry.slot >= cutoff) continue
+        entries.delete(signature)
+        if (entry.confirmed) continue
+        counts.dropped += 1
+        if (entry.emitted) dropped.push({ signature, slot: entry.slot, confirmedHeadSlot: slot, firstSeenAt: entry.firstSeenAt })
+      }
+      if (dropped.length) logDebug('commitment', 'transactions dropped', { count: dropped.length, confirmedHeadSlot: slot })
+      return dropped
+    },
+
+    stats() {
+      return { tracked: entries.size, confirmedHeadSlot, ...counts }
+    }
+  }
+}
+
+export type CommitmentTracker = ReturnType<typeof createCommitmentTracker>
@@ -0,0 +1,48 @@
+import WebSocket from 'ws'
+
+import { logWarn } from './log'
+
+export function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles per attempt up to maxMs,
+ * then a random 50-100% of it is used so many clients don't reconnect in lockstep.
+ */
+export function computeBackoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1))
+  return Math.round(exponential * (0.5 + Math.random() * 0.5))
+}
+
+/**
+ * Pings the socket every intervalMs and terminates it if neither a pong nor any
+ * message arrived since the previous ping. Terminating emits 'close', which
+ * drives the normal reconnect path for half-open connections.
+ */
+export function startHeartbeat(socket: WebSocket, intervalMs: number): () => void {
+  if (intervalMs <= 0) return () => undefined
+
+  let alive = true
+  const markAlive = () => {
+    alive = true
+  }
+  socket.on('pong', markAlive)
+  socket.on('message', markAlive)
+
+  const timer = setInterval(() => {
+    if (!alive) {
+      logWarn('client', 'heartbeat timeout, terminating socket', { intervalMs })
+      socket.terminate()
+      return
+    }
+    alive = false
+    socket.ping()
+  }, intervalMs)
+
+  return () => {
+    clearInterval(timer)
+    socket.off('pong', markAlive)
+    socket.off('message', markAlive)
+  }
+}
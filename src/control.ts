@@ -0,0 +1,437 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { chmodSync, readFileSync, rmSync, unwatchFile, watchFile, type Stats } from 'node:fs'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { isAddress } from '@solana/kit'
+
+import type { AtomicStreamClient, StreamOptions } from './client'
+import { logInfo, logWarn } from './log'
+import { isRecord, isString, safeJsonParse } from './parse'
+import { parseStreamOptions } from './streams'
+import { summarizeStatus } from './summarize'
+import type { UnknownRecord, WsStatusEvent } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A client the control interface can reach, under the name callers select it by. */
+export type ControlStream = { name: string; client: AtomicStreamClient }
+
+/** `set` replaces the list; otherwise `remove` is applied, then `add`. */
+export type WatchlistChange = { set?: string[]; add?: string[]; remove?: string[] }
+
+export type SubscriptionUpdate = {
+  accounts?: WatchlistChange
+  programs?: WatchlistChange
+  options?: Partial<StreamOptions>
+}
+
+export type SubscriptionResult = {
+  stream: string
+  accounts: string[]
+  programs: string[]
+  options: StreamOptions
+  connected: boolean
+  /**
+   * The first status after the change, with the server's `watchedAccounts`.
+   * Null while disconnected (the change is sent on reconnect) or if none
+   * arrived in time.
+   */
+  status: UnknownRecord | null
+}
+
+export type ControlServerOptions = {
+  /** Localhost TCP port; 0 picks a free one. Ignored when `socketPath` is set. */
+  port?: number
+  host?: string
+  /** Listens on a Unix socket instead, created readable by the owner only. */
+  socketPath?: string
+  /** Bearer token callers must send; required to listen on anything but loopback. */
+  token?: string
+  streams: ControlStream[]
+  /** How long a request waits for the status that reflects its change. */
+  statusTimeoutMs?: number
+}
+
+export type ControlServer = {
+  url: string
+  close(): Promise<void>
+}
+
+const DEFAULT_STATUS_TIMEOUT_MS = 5_000
+
+// Requests are small JSON bodies; anything bigger is a mistake
+const MAX_BODY_BYTES = 1024 * 1024
+
+// Host headers that name this machine; a page on a rebound DNS name sends its own name instead
+const LOOPBACK_HOST_HEADERS = ['localhost', '127.0.0.1', '[::1]']
+
+// How often the watchlist file is checked for changes
+const WATCH_INTERVAL_MS = 1_000
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function parseAddressList(value: unknown, where: string): string[] {
+  if (!Array.isArray(value)) throw new Error(`${where} must be an array of addresses`)
+  const invalid = value.filter((address) => !isString(address) || !isAddress(address))
+  if (invalid.length) throw new Error(`${where} has invalid addresses: ${invalid.map(String).join(', ')}`)
+  return [...new Set(value as string[])]
+}
+
+function parseWatchlistChange(value: unknown, where: string): WatchlistChange {
+  if (Array.isArray(value)) return { set: parseAddressList(value, where) }
+  if (!isRecord(value)) throw new Error(`${where} must be an array or an object with set, add or remove`)
+  const unknown = Object.keys(value).filter((key) => key !== 'set' && key !== 'add' && key !== 'remove')
+  if (unknown.length) throw new Error(`${where} has unknown fields: ${unknown.join(', ')}`)
+  const change: WatchlistChange = {}
+  for (const key of ['set', 'add', 'remove'] as const) {
+    if (value[key] !== undefined) change[key] = parseAddressList(value[key], `${where}.${key}`)
+  }
+  if (change.set && (change.add || change.remove)) throw new Error(`${where} cannot combine set with add or remove`)
+  return change
+}
+
+/**
+ * Validates a watchlist change. `accounts` and `programs` take either a full
+ * list or `{ add, remove }`; every entry must be a Solana address.
+ */
+export function parseSubscriptionUpdate(value: unknown): SubscriptionUpdate {
+  if (!isRecord(value)) throw new Error('update must be a JSON object')
+  const unknown = Object.keys(value).filter((key) => key !== 'accounts' && key !== 'programs' && key !== 'options')
+  if (unknown.length) throw new Error(`unknown fields: ${unknown.join(', ')}`)
+  return {
+    accounts: value.accounts === undefined ? undefined : parseWatchlistChange(value.accounts, 'accounts'),
+    programs: value.programs === undefined ? undefined : parseWatchlistChange(value.programs, 'programs'),
+    options: value.options === undefined ? undefined : parseStreamOptions(value.options, 'update')
+  }
+}
+
+function applyChange(current: string[], change: WatchlistChange): string[] {
+  if (change.set) return change.set
+  const removed = new Set(change.remove ?? [])
+  const next = current.filter((address) => !removed.has(address))
+  for (const address of change.add ?? []) {
+    if (!next.includes(address)) next.push(address)
+  }
+  return next
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, index) => item === b[index])
+}
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+function nextStatus(client: AtomicStreamClient, timeoutMs: number): Promise<WsStatusEvent | undefined> {
+  return new Promise((resolve) => {
+    const onStatus = (event: WsStatusEvent) => {
+      clearTimeout(timer)
+      resolve(event)
+    }
+    const timer = setTimeout(() => {
+      client.off('status', onStatus)
+      resolve(undefined)
+    }, timeoutMs)
+    client.once('status', onStatus)
+  })
+}
+
+/**
+ * Applies a change to the client's watchlists and options. The client keeps
+ * them and replays them after every reconnect; while connected, only the
+ * parts that actually changed are sent, followed by `getState` so the
+ * server's resulting counts can be returned.
+ */
+export async function updateSubscription(
+  stream: ControlStream,
+  update: SubscriptionUpdate,
+  statusTimeoutMs = DEFAULT_STATUS_TIMEOUT_MS
+): Promise<SubscriptionResult> {
+  const { client } = stream
+  const current = client.getSubscription()
+
+  const accounts = update.accounts ? applyChange(current.accounts, update.accounts) : current.accounts
+  const programs = update.programs ? applyChange(current.programs, update.programs) : current.programs
+  const changed: string[] = []
+  if (!sameList(accounts, current.accounts)) {
+    client.setAccounts(accounts)
+    changed.push('accounts')
+  }
+  if (!sameList(programs, current.programs)) {
+    client.setPrograms(programs)
+    changed.push('programs')
+  }
+  const options = update.options ?? {}
+  if (Object.entries(options).some(([key, value]) => current.options[key as keyof StreamOptions] !== value)) {
+    client.setOptions(options)
+    changed.push('options')
+  }
+  if (changed.length) {
+    logInfo('control', 'subscription updated', { stream: stream.name, changed, accounts: accounts.length, programs: programs.length })
+  }
+
+  return describeSubscription(stream, statusTimeoutMs)
+}
+
+/** Asks for a fresh status and returns it with the current subscription. */
+export async function describeSubscription(stream: ControlStream, statusTimeoutMs = DEFAULT_STATUS_TIMEOUT_MS): Promise<SubscriptionResult> {
+  const { client } = stream
+  let status: WsStatusEvent | undefined
+  if (client.connected) {
+    const pending = nextStatus(client, statusTimeoutMs)
+    client.getState()
+    status = await pending
+  }
+  return { stream: stream.name, ...client.getSubscription(), connected: client.connected, status: status ? summarizeStatus(status) : null }
+}
+
+// =============================================================================
+// Watchlist File
+// =============================================================================
+
+/**
+ * Parses a watchlist file. Top-level `accounts`, `programs` and `options`
+ * apply to every stream; entries under `streams` replace them field by field
+ * for the stream they name. Lists are full replacements.
+ */
+export function parseWatchlistFile(value: unknown, names: string[]): Map<string, SubscriptionUpdate> {
+  if (!isRecord(value)) throw new Error('watchlist file must be a JSON object')
+  const { streams, ...shared } = value
+  const base = parseSubscriptionUpdate(shared)
+  if (streams !== undefined && !isRecord(streams)) throw new Error('watchlist streams must be an object keyed by stream name')
+  const updates = new Map<string, SubscriptionUpdate>()
+  for (const name of names) updates.set(name, base)
+  for (const [name, entry] of Object.entries(streams ?? {})) {
+    if (!names.includes(name)) throw new Error(`watchlist names unknown stream ${name}`)
+    const own = parseSubscriptionUpdate(entry)
+    updates.set(name, {
+      accounts: own.accounts ?? base.accounts,
+      programs: own.programs ?? base.programs,
+      options: own.options ?? base.options
+    })
+  }
+  return updates
+}
+
+/**
+ * Applies the watchlist file now and again whenever it changes. A file that
+ * fails to parse or validate is logged and ignored, leaving the current
+ * watchlists in place. The file is polled, so editors that save by renaming
+ * are picked up too.
+ */
+export async function watchWatchlistFile(file: string, streams: ControlStream[]) {
+  const names = streams.map((stream) => stream.name)
+
+  async function apply() {
+    let updates: Map<string, SubscriptionUpdate>
+    try {
+      const parsed = safeJsonParse(readFileSync(file, 'utf8'))
+      if (parsed === undefined) throw new Error('not valid JSON')
+      updates = parseWatchlistFile(parsed, names)
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      logWarn('control', 'ignoring watchlist file', { file, message })
+      return
+    }
+    for (const stream of streams) {
+      const update = updates.get(stream.name)
+      if (!update) continue
+      const result = await updateSubscription(stream, update)
+      if (result.status) logInfo('control', 'watchlist applied', { stream: stream.name, ...result.status })
+    }
+  }
+
+  const onChange = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return
+    if (!current.mtimeMs) {
+      logWarn('control', 'watchlist file removed, keeping current watchlists', { file })
+      return
+    }
+    void apply()
+  }
+
+  await apply()
+  watchFile(file, { interval: WATCH_INTERVAL_MS, persistent: false }, onChange)
+  logInfo('control', 'watching watchlist file', { file })
+
+  return {
+    close() {
+      unwatchFile(file, onChange)
+    }
+  }
+}
+
+export type WatchlistFileWatcher = Awaited<ReturnType<typeof watchWatchlistFile>>
+
+// =============================================================================
+// Server
+// =============================================================================
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' })
+  res.end(`${JSON.stringify(body)}\n`)
+}
+
+/** Resolves once `start` has the server listening; a bind error such as EADDRINUSE rejects instead of hanging. */
+function listen(server: http.Server, start: (onListening: () => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    start(() => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+}
+
+/** Whether a listen address only accepts connections from this machine. */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host)
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+/**
+ * Refuses requests a web page could make without a token: a browser sends a
+ * rebound DNS name in `Host`, and can post a body without a CORS preflight
+ * only if it is not `application/json` (checked in `readJson`).
+ */
+function checkHost(req: http.IncomingMessage) {
+  let hostname: string | undefined
+  try {
+    hostname = new URL(`http://${req.headers.host ?? ''}`).hostname
+  } catch {
+    hostname = undefined
+  }
+  if (!hostname || !LOOPBACK_HOST_HEADERS.includes(hostname)) throw new RequestError(403, 'Host must be localhost')
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const contentType = req.headers['content-type']?.split(';')[0]?.trim().toLowerCase()
+  if (contentType !== 'application/json') throw new RequestError(415, 'content-type must be application/json')
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new RequestError(413, 'request body too large')
+    chunks.push(chunk as Buffer)
+  }
+  const body = safeJsonParse(Buffer.concat(chunks).toString('utf8'))
+  if (body === undefined) throw new RequestError(400, 'request body must be JSON')
+  return body
+}
+
+/**
+ * Local control interface for changing watchlists and options on the live
+ * socket without reconnecting or paying again:
+ *
+ * - `GET /watchlist` returns the current subscription of every stream.
+ * - `POST /watchlist` applies a `SubscriptionUpdate` and returns the result,
+ *   including the server's `watchedAccounts` from the next status.
+ * - `POST /state` issues `getState` and returns the status.
+ *
+ * With several streams, POSTs select one with `?stream=<name>`. Without a
+ * `token` anyone on this machine may call it, so it then only listens on
+ * loopback or a Unix socket and accepts only a localhost `Host`.
+ */
+export async function startControlServer(options: ControlServerOptions): Promise<ControlServer> {
+  const { streams } = options
+  const statusTimeoutMs = options.statusTimeoutMs ?? DEFAULT_STATUS_TIMEOUT_MS
+  const host = options.host ?? '127.0.0.1'
+  if (!options.socketPath && !options.token && !isLoopbackHost(host)) {
+    throw new Error(`control API on non-loopback host ${host} needs a token`)
+  }
+  const expectedToken = options.token ? digest(`Bearer ${options.token}`) : undefined
+
+  function selectStream(url: URL): ControlStream {
+    const name = url.searchParams.get('stream')
+    if (!name) {
+      if (streams.length === 1 && streams[0]) return streams[0]
+      throw new RequestError(400, `select a stream with ?stream=, one of: ${streams.map((stream) => stream.name).join(', ')}`)
+    }
+    const stream = streams.find((candidate) => candidate.name === name)
+    if (!stream) throw new RequestError(404, `unknown stream ${name}`)
+    return stream
+  }
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (expectedToken) {
+      if (!timingSafeEqual(digest(req.headers.authorization ?? ''), expectedToken)) throw new RequestError(401, 'missing or wrong token')
+    } else {
+      checkHost(req)
+    }
+    const url = new URL(req.url ?? '/', 'http://control')
+    if (req.method === 'GET' && url.pathname === '/watchlist') {
+      const selected = url.searchParams.has('stream') ? [selectStream(url)] : streams
+      sendJson(res, 200, {
+        streams: selected.map(({ name, client }) => ({ stream: name, ...client.getSubscription(), connected: client.connected }))
+      })
+      return
+    }
+    if (req.method === 'POST' && url.pathname === '/watchlist') {
+      const stream = selectStream(url)
+      let update: SubscriptionUpdate
+      try {
+        update = parseSubscriptionUpdate(await readJson(req))
+      } catch (err: unknown) {
+        if (err instanceof RequestError) throw err
+        throw new RequestError(400, err instanceof Error ? err.message : String(err))
+      }
+      sendJson(res, 200, await updateSubscription(stream, update, statusTimeoutMs))
+      return
+    }
+    if (req.method === 'POST' && url.pathname === '/state') {
+      sendJson(res, 200, await describeSubscription(selectStream(url), statusTimeoutMs))
+      return
+    }
+    throw new RequestError(404, 'not found')
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((err: unknown) => {
+      const status = err instanceof RequestError ? err.status : 500
+      const message = err instanceof Error ? err.message : String(err)
+      if (status === 500) logWarn('control', 'request failed', { url: req.url, message })
+      if (!res.headersSent) sendJson(res, status, { error: message })
+    })
+  })
+
+  let url: string
+  if (options.socketPath) {
+    // A socket left behind by a crashed run would make listen fail
+    rmSync(options.socketPath, { force: true })
+    await listen(server, (onListening) => server.listen(options.socketPath, onListening))
+    chmodSync(options.socketPath, 0o600)
+    url = `unix:${options.socketPath}`
+  } else {
+    await listen(server, (onListening) => server.listen(options.port ?? 0, host, onListening))
+    const { address, port } = server.address() as AddressInfo
+    url = `http://${address}:${port}`
+  }
+  // Errors after startup are only logged
+  server.on('error', (err) => logWarn('control', 'server error', { message: err.message }))
+  logInfo('control', 'listening', { url })
+
+  return {
+    url,
+    async close() {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+}
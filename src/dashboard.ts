@@ -0,0 +1,449 @@
+import type { AtomicStreamClient } from './client'
+import type { AtomicStreamSource } from './events'
+import type { HealthMonitor } from './health'
+import { setLogDestination, type LogLevel } from './log'
+import { OUTPUT_EVENTS, formatPrettyValue, summarizeDataEvent, type OutputEventName } from './output'
+import type { WsLeaderboardEvent, WsStatusEvent } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One stream to show; panels list each stream under its name when there are several. */
+export type DashboardStream = {
+  name: string
+  source: AtomicStreamSource
+  /** Live client for spend, renewal counts and status requests; omitted for replays. */
+  client?: AtomicStreamClient
+  health?: HealthMonitor
+}
+
+export type DashboardOptions = {
+  streams: DashboardStream[]
+  /** A terminal to draw on; defaults to stdout. */
+  out?: NodeJS.WriteStream
+  refreshMs?: number
+  /** How often live clients are asked for a fresh `status`; 0 disables. */
+  statusPollMs?: number
+}
+
+export type Dashboard = {
+  /** Restores the terminal and sends log lines to the console again. Safe to call twice. */
+  close(): void
+}
+
+// A run of text in one ANSI SGR color; lines are built from these so they can be cut to width before coloring
+type Segment = [text: string, color?: number]
+type Line = Segment[]
+
+type Renewal = { atMs: number; method: string; expiresAt: string }
+
+type TickerRow = { pair: string; dex: string; price: number; previous: number | undefined; atMs: number }
+
+type FeedItem = { atMs: number; stream: string; name: OutputEventName; text: string }
+
+const DEFAULT_REFRESH_MS = 500
+const DEFAULT_STATUS_POLL_MS = 10_000
+
+// Events per second are averaged over this many whole seconds
+const RATE_WINDOW_SECONDS = 5
+
+const FEED_LIMIT = 200
+const LOG_LINES = 4
+const TABLE_ROWS = 8
+const RENEWAL_HISTORY = 3
+
+// Warnings and errors logged while the screen was up are printed again when it closes
+const REPLAYED_LOG_LIMIT = 50
+
+// Two columns of panels from this terminal width on
+const WIDE_COLUMNS = 110
+
+// These have panels of their own, so the feed doesn't repeat them
+const FEED_EXCLUDED = new Set<OutputEventName>(['ticker', 'slot', 'leaderboard', 'transactionPromoted', 'candle'])
+
+const ESC = '\u001b['
+const BOLD = 1
+const DIM = 2
+const RED = 31
+const GREEN = 32
+const YELLOW = 33
+const MAGENTA = 35
+const CYAN = 36
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/** Cuts or pads a line to exactly `width` columns. */
+function fit(line: Line, width: number): Line {
+  const fitted: Line = []
+  let used = 0
+  for (const [text, color] of line) {
+    const chars = [...text].slice(0, width - used)
+    if (!chars.length) break
+    fitted.push([chars.join(''), color])
+    used += chars.length
+  }
+  if (used < width) fitted.push([' '.repeat(width - used)])
+  return fitted
+}
+
+function paint(line: Line): string {
+  return line.map(([text, color]) => (color ? `${ESC}${color}m${text}${ESC}0m` : text)).join('')
+}
+
+function panel(title: string, body: Line[]): Line[] {
+  const empty: Line = [['  waiting for data', DIM]]
+  return [[['── ', DIM], [title, BOLD], [' ' + '─'.repeat(200), DIM]], ...(body.length ? body : [empty])]
+}
+
+function clock(ms: number): string {
+  return new Date(ms).toISOString().slice(11, 19)
+}
+
+function duration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = String(seconds % 60).padStart(2, '0')
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+// =============================================================================
+// Tracking
+// =============================================================================
+
+// Listens to one stream and keeps what its panels are drawn from
+function trackStream(stream: DashboardStream, feed: FeedItem[]) {
+  const { source } = stream
+  const tracked = {
+    ...stream,
+    connected: false,
+    stopped: false,
+    expiresAtMs: undefined as number | undefined,
+    sliceSeconds: undefined as number | undefined,
+    renewals: [] as Renewal[],
+    status: undefined as WsStatusEvent | undefined,
+    statusAtMs: 0,
+    slot: undefined as { slot: number; tps: number | undefined } | undefined,
+    totals: new Map<OutputEventName, number>(),
+    /** Per whole second since the epoch, the events that arrived in it. */
+    seconds: new Map<number, Map<OutputEventName, number>>(),
+    tickers: new Map<string, TickerRow>(),
+    leaderboard: undefined as { event: WsLeaderboardEvent; atMs: number; previousRanks: Map<string, number> } | undefined
+  }
+
+  source.on('open', () => {
+    tracked.connected = true
+  })
+  source.on('close', () => {
+    tracked.connected = false
+  })
+  source.once('stopped', () => {
+    tracked.stopped = true
+    tracked.connected = false
+  })
+  source.on('hello', (event) => {
+    tracked.expiresAtMs = Date.parse(event.expiresAt)
+    tracked.sliceSeconds = event.sliceSeconds
+  })
+  source.on('renewed', (event) => {
+    tracked.expiresAtMs = Date.parse(event.expiresAt)
+    tracked.renewals.push({ atMs: Date.now(), method: event.method, expiresAt: event.expiresAt })
+    if (tracked.renewals.length > RENEWAL_HISTORY) tracked.renewals.shift()
+  })
+  source.on('status', (event) => {
+    tracked.status = event
+    tracked.statusAtMs = Date.now()
+  })
+  source.on('slot', (event) => {
+    tracked.slot = { slot: event.slot, tps: event.tps }
+  })
+  source.on('ticker', (event) => {
+    const key = `${event.baseMint}|${event.quoteMint}|${event.dex}`
+    const previous = tracked.tickers.get(key)
+    tracked.tickers.set(key, {
+      pair: `${formatPrettyValue(event.baseMint)}/${formatPrettyValue(event.quoteMint)}`,
+      dex: event.dex,
+      price: event.price,
+      previous: previous?.price,
+      atMs: Date.now()
+    })
+  })
+  source.on('leaderboard', (event) => {
+    const previousRanks = new Map(tracked.leaderboard?.event.items.map((item, index) => [item.mint, index + 1]))
+    tracked.leaderboard = { event, atMs: Date.now(), previousRanks }
+  })
+
+  for (const name of OUTPUT_EVENTS) {
+    source.on(name, (event: unknown) => {
+      const atMs = Date.now()
+      tracked.totals.set(name, (tracked.totals.get(name) ?? 0) + 1)
+      const second = Math.floor(atMs / 1000)
+      const counts = tracked.seconds.get(second) ?? new Map<OutputEventName, number>()
+      counts.set(name, (counts.get(name) ?? 0) + 1)
+      tracked.seconds.set(second, counts)
+      for (const key of tracked.seconds.keys()) if (key < second - RATE_WINDOW_SECONDS) tracked.seconds.delete(key)
+      if (FEED_EXCLUDED.has(name)) return
+
+      const summary = summarizeDataEvent(name, event as never)
+      const text = Object.entries(summary)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${formatPrettyValue(value)}`)
+        .join('  ')
+      feed.push({ atMs, stream: stream.name, name, text })
+      if (feed.length > FEED_LIMIT) feed.shift()
+    })
+  }
+  return tracked
+}
+
+type TrackedStream = ReturnType<typeof trackStream>
+
+// =============================================================================
+// Panels
+// =============================================================================
+
+function connectionLines(stream: TrackedStream, nowMs: number): Line[] {
+  const lines: Line[] = []
+  const state: Segment = stream.stopped ? ['stopped', RED] : stream.connected ? ['connected', GREEN] : ['connecting', YELLOW]
+  const reconnects = stream.client?.getStats().reconnects
+  lines.push([['ws        '], state, [reconnects ? `  reconnects ${reconnects}` : '', DIM]])
+
+  const { status } = stream
+  if (status) {
+    lines.push([
+      ['upstream  grpc '],
+      status.grpcConnected ? ['ok', GREEN] : ['down', RED],
+      ['  node '],
+      status.nodeHealthy ? ['ok', GREEN] : ['unhealthy', RED],
+      [`  status ${duration(nowMs - stream.statusAtMs)} ago`, DIM]
+    ])
+    lines.push([[`heads     processed ${status.processedHeadSlot ?? '-'}  confirmed ${status.confirmedHeadSlot ?? '-'}`]])
+    lines.push([[`watching  ${status.watchedAccounts} accounts  ${status.watchedMints} mints`]])
+  } else {
+    lines.push([['upstream  '], ['no status yet', DIM]])
+  }
+  if (stream.slot) lines.push([[`slot      ${stream.slot.slot}${stream.slot.tps !== undefined ? `  tps ${stream.slot.tps}` : ''}`]])
+  if (stream.health) {
+    const { state: health, reasons } = stream.health.snapshot()
+    const color = health === 'healthy' ? GREEN : health === 'degraded' ? YELLOW : RED
+    lines.push([['health    '], [health, color], [reasons.length ? `  ${reasons.join('; ')}` : '', DIM]])
+  }
+  return lines
+}
+
+function sessionLines(stream: TrackedStream, nowMs: number): Line[] {
+  if (!stream.client) return [[['replay, nothing to pay for', DIM]]]
+  const lines: Line[] = []
+  if (stream.expiresAtMs !== undefined && Number.isFinite(stream.expiresAtMs)) {
+    const left = stream.expiresAtMs - nowMs
+    const color = left <= 0 ? RED : left < 30_000 ? YELLOW : GREEN
+    lines.push([
+      ['token     '],
+      [left > 0 ? `expires in ${duration(left)}` : 'expired', color],
+      [stream.sliceSeconds ? `  slice ${stream.sliceSeconds}s` : '', DIM]
+    ])
+  } else {
+    lines.push([['token     '], ['not issued yet', DIM]])
+  }
+
+  const spend = stream.client.getSpend()
+  lines.push([[`spend     ${spend.spentUsdc} USDC  payments ${spend.payments}  `], [`session ${duration(spend.elapsedSeconds * 1000)}`, DIM]])
+  const { renewals } = stream.client.getStats()
+  const failed = renewals.http.failed + renewals.inband.failed
+  lines.push([
+    [`renewals  http ${renewals.http.succeeded}  inband ${renewals.inband.succeeded}  `],
+    [`failed ${failed}`, failed ? RED : DIM],
+    [`  skipped ${renewals.http.skipped + renewals.inband.skipped}`, DIM]
+  ])
+  for (const renewal of [...stream.renewals].reverse()) {
+    lines.push([[`          ${clock(renewal.atMs)}  ${renewal.method.padEnd(6)}  until ${clock(Date.parse(renewal.expiresAt))}`, DIM]])
+  }
+  return lines
+}
+
+function rateLines(streams: TrackedStream[], nowMs: number): Line[] {
+  const current = Math.floor(nowMs / 1000)
+  const rates = new Map<OutputEventName, { rate: number; total: number }>()
+  for (const stream of streams) {
+    for (const [name, total] of stream.totals) {
+      let recent = 0
+      for (const [second, counts] of stream.seconds) {
+        if (second >= current - RATE_WINDOW_SECONDS && second < current) recent += counts.get(name) ?? 0
+      }
+      const entry = rates.get(name) ?? { rate: 0, total: 0 }
+      rates.set(name, { rate: entry.rate + recent / RATE_WINDOW_SECONDS, total: entry.total + total })
+    }
+  }
+  const sorted = [...rates].sort(([, a], [, b]) => b.rate - a.rate || b.total - a.total)
+  const top = Math.max(...sorted.map(([, { rate }]) => rate), 0)
+  return sorted.map(([name, { rate, total }]) => [
+    [`${name.padEnd(18)} ${rate.toFixed(1).padStart(7)}/s  `],
+    ['█'.repeat(top ? Math.round((rate / top) * 12) : 0).padEnd(12), CYAN],
+    [`  ${total}`, DIM]
+  ])
+}
+
+function tickerLines(streams: TrackedStream[]): Line[] {
+  const rows = streams.flatMap((stream) => [...stream.tickers.values()])
+  return rows
+    .sort((a, b) => b.atMs - a.atMs)
+    .slice(0, TABLE_ROWS)
+    .map((row) => {
+      const arrow: Segment =
+        row.previous === undefined || row.previous === row.price ? [' '] : row.price > row.previous ? ['▲', GREEN] : ['▼', RED]
+      return [[`${row.pair}  ${row.dex.padEnd(10)} ${String(row.price).padStart(14)} `], arrow]
+    })
+}
+
+function leaderboardPanel(streams: TrackedStream[]): Line[] {
+  const latest = streams
+    .map((stream) => stream.leaderboard)
+    .filter((board) => board !== undefined)
+    .sort((a, b) => b.atMs - a.atMs)[0]
+  if (!latest) return panel('Leaderboard', [])
+  const rows = latest.event.items.slice(0, TABLE_ROWS).map((item, index): Line => {
+    const rank = index + 1
+    const before = latest.previousRanks.get(item.mint)
+    const move: Segment =
+      latest.previousRanks.size === 0 || before === rank
+        ? ['']
+        : before === undefined
+          ? ['new', YELLOW]
+          : before > rank
+            ? [`▲${before - rank}`, GREEN]
+            : [`▼${rank - before}`, RED]
+    const volume = `$${Math.round(item.volumeUsd).toLocaleString('en-US')}`
+    return [[`${String(rank).padStart(3)}  ${formatPrettyValue(item.mint)}  ${volume.padStart(14)}  `], move]
+  })
+  return panel(`Leaderboard ${latest.event.windowSeconds}s`, rows)
+}
+
+// =============================================================================
+// Dashboard
+// =============================================================================
+
+/**
+ * Takes over the terminal with a full-screen view of the running streams:
+ * connection and upstream status, token expiry and renewals, spend, events
+ * per second, the latest tickers and leaderboard, a feed of summarized
+ * events and the most recent log lines. Log output is captured into the
+ * screen while it is up.
+ *
+ * Closes by itself once every stream has stopped, before listeners added
+ * after it see `stopped`, so their final log lines print on the restored
+ * terminal. Only call this when `out` is a TTY.
+ */
+export function startDashboard(options: DashboardOptions): Dashboard {
+  const out = options.out ?? process.stdout
+  const feed: FeedItem[] = []
+  const streams = options.streams.map((stream) => trackStream(stream, feed))
+  const tagged = streams.length > 1
+  const startedAt = Date.now()
+  const logs: { line: string; level: LogLevel }[] = []
+  const replayed: string[] = []
+  let closed = false
+
+  setLogDestination((line, level) => {
+    logs.push({ line, level })
+    if (logs.length > LOG_LINES) logs.shift()
+    if (level === 'warn' || level === 'error') {
+      replayed.push(line)
+      if (replayed.length > REPLAYED_LOG_LIMIT) replayed.shift()
+    }
+  })
+
+  function render(): Line[] {
+    const nowMs = Date.now()
+    const width = out.columns || 80
+    const height = out.rows || 24
+
+    const perStream = (lines: (stream: TrackedStream, nowMs: number) => Line[]) =>
+      streams.flatMap((stream) => (tagged ? [[[stream.name, MAGENTA]] as Line, ...lines(stream, nowMs)] : lines(stream, nowMs)))
+    const left = [
+      ...panel('Connection', perStream(connectionLines)),
+      ...panel('Session', perStream(sessionLines)),
+      ...panel('Events/s', rateLines(streams, nowMs))
+    ]
+    const right = [...panel('Tickers', tickerLines(streams)), ...leaderboardPanel(streams)]
+
+    let top: Line[]
+    if (width >= WIDE_COLUMNS) {
+      const leftWidth = Math.floor((width - 2) / 2)
+      top = Array.from({ length: Math.max(left.length, right.length) }, (_, index) => [
+        ...fit(left[index] ?? [], leftWidth),
+        ['  '],
+        ...fit(right[index] ?? [], width - leftWidth - 2)
+      ])
+    } else {
+      top = [...left, ...right]
+    }
+
+    const header: Line = [
+      [' AtomicStream ', BOLD],
+      [` ${streams.map(({ name }) => name).join(', ')} `, MAGENTA],
+      [` up ${duration(nowMs - startedAt)}`, DIM]
+    ]
+    const logPanel = panel(
+      'Log',
+      logs.map(({ line, level }): Line => [[line.replace(/^\[\d{4}-\d\d-\d\dT([\d:.]+)Z\]/, '$1'), level === 'error' ? RED : level === 'warn' ? YELLOW : DIM]])
+    )
+    // The feed gets whatever height is left, newest line at the bottom
+    const feedRows = Math.max(1, height - 1 - top.length - logPanel.length - 1)
+    const feedLines = feed.slice(-feedRows).map((item): Line => [
+      [`${new Date(item.atMs).toISOString().slice(11, 23)}  `, DIM],
+      ...(tagged ? [[`${item.stream}  `, MAGENTA] as Segment] : []),
+      [item.name.padEnd(18), item.name === 'alert' || item.name === 'rugAlert' || item.name === 'transactionDropped' ? RED : CYAN],
+      [item.text]
+    ])
+
+    return [header, ...top, ...panel('Feed', feedLines), ...logPanel].slice(0, height)
+  }
+
+  function draw() {
+    if (closed) return
+    const width = out.columns || 80
+    const lines = render().map((line) => paint(fit(line, width)))
+    out.write(`${ESC}H${lines.join('\n')}${ESC}J`)
+  }
+
+  out.write(`${ESC}?1049h${ESC}?25l`)
+  out.on('resize', draw)
+  const timer = setInterval(draw, options.refreshMs ?? DEFAULT_REFRESH_MS)
+  timer.unref()
+  const statusPollMs = options.statusPollMs ?? DEFAULT_STATUS_POLL_MS
+  const poll =
+    statusPollMs > 0
+      ? setInterval(() => {
+          for (const { client } of streams) if (client?.connected) client.getState()
+        }, statusPollMs)
+      : undefined
+  poll?.unref()
+  draw()
+
+  function close() {
+    if (closed) return
+    closed = true
+    clearInterval(timer)
+    clearInterval(poll)
+    out.off('resize', draw)
+    process.off('exit', close)
+    out.write(`${ESC}?25h${ESC}?1049l`)
+    setLogDestination('stdout')
+    for (const line of replayed) process.stderr.write(`${line}\n`)
+  }
+  // Covers exits that skip the stopped events, such as a fatal error during startup
+  process.on('exit', close)
+
+  let running = streams.length
+  for (const { source } of streams) {
+    source.once('stopped', () => {
+      running -= 1
+      if (running === 0) close()
+    })
+  }
+
+  return { close }
+}
@@ -0,0 +1,96 @@
+import bs58 from 'bs58'
+
+/**
+ * Little-endian cursor over account bytes, following the Borsh/Pack encodings
+ * Solana programs use. Reads past the end throw a RangeError, which the
+ * registry treats as "layout does not match".
+ */
+export class ByteReader {
+  offset: number
+
+  constructor(
+    readonly data: Buffer,
+    offset = 0
+  ) {
+    this.offset = offset
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset
+  }
+
+  private take(length: number): Buffer {
+    if (length < 0 || this.offset + length > this.data.length) {
+      throw new RangeError(`read of ${length} bytes at offset ${this.offset} exceeds ${this.data.length}`)
+    }
+    const slice = this.data.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return slice
+  }
+
+  u8(): number {
+    return this.take(1).readUInt8(0)
+  }
+
+  u16(): number {
+    return this.take(2).readUInt16LE(0)
+  }
+
+  i16(): number {
+    return this.take(2).readInt16LE(0)
+  }
+
+  u32(): number {
+    return this.take(4).readUInt32LE(0)
+  }
+
+  /** u64 as a decimal string, since amounts routinely exceed 2^53. */
+  u64(): string {
+    return this.take(8).readBigUInt64LE(0).toString()
+  }
+
+  i64(): string {
+    return this.take(8).readBigInt64LE(0).toString()
+  }
+
+  f64(): number {
+    return this.take(8).readDoubleLE(0)
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0
+  }
+
+  bytes(length: number): Buffer {
+    return this.take(length)
+  }
+
+  pubkey(): string {
+    return bs58.encode(this.take(32))
+  }
+
+  /** Token-2022 `OptionalNonZeroPubkey`: all zero bytes mean none. */
+  optionalNonZeroPubkey(): string | null {
+    const raw = this.take(32)
+    return raw.every((byte) => byte === 0) ? null : bs58.encode(raw)
+  }
+
+  /** SPL `COption<Pubkey>`: a u32 tag followed by the key, always 36 bytes. */
+  coptionPubkey(): string | null {
+    const tag = this.u32()
+    const key = this.pubkey()
+    return tag === 1 ? key : null
+  }
+
+  /** SPL `COption<u64>`: a u32 tag followed by the value, always 12 bytes. */
+  coptionU64(): string | null {
+    const tag = this.u32()
+    const value = this.u64()
+    return tag === 1 ? value : null
+  }
+
+  /** Borsh string: u32 byte length followed by UTF-8. */
+  string(): string {
+    return this.take(this.u32()).toString('utf8')
+  }
+}
@@ -0,0 +1,125 @@
+import { TOKEN_2022_PROGRAM_ADDRESS, TOKEN_PROGRAM_ADDRESS } from '@x402/svm'
+
+import { logDebug } from '../log'
+import type { DecodedAccount, DecodedCustomAccount, DecodedSystemAccount, UnknownRecord, WsAccountEvent } from '../types'
+import { ByteReader } from './reader'
+import { decodeSplTokenAccount, decodeToken2022Account } from './token'
+
+export const SYSTEM_PROGRAM_ADDRESS = '11111111111111111111111111111111'
+
+const LAMPORTS_PER_SOL = 1_000_000_000
+
+/** Returns undefined when the bytes do not match the layout, letting the next decoder try. */
+export type AccountDecoder = (data: Buffer, event: WsAccountEvent) => DecodedAccount | undefined
+
+export type LayoutFieldType = 'u8' | 'u16' | 'u32' | 'u64' | 'i16' | 'i64' | 'f64' | 'bool' | 'pubkey' | 'string'
+
+/** Fixed-order field layout for a custom program account, read little-endian from the start of the data. */
+export type AccountLayout = {
+  name: string
+  /** Hex prefix the data must start with (e.g. an 8-byte Anchor discriminator); skipped before reading fields. */
+  discriminator?: string
+  fields: { name: string; type: LayoutFieldType }[]
+}
+
+function readField(reader: ByteReader, type: LayoutFieldType): unknown {
+  switch (type) {
+    case 'u8':
+      return reader.u8()
+    case 'u16':
+      return reader.u16()
+    case 'u32':
+      return reader.u32()
+    case 'u64':
+      return reader.u64()
+    case 'i16':
+      return reader.i16()
+    case 'i64':
+      return reader.i64()
+    case 'f64':
+      return reader.f64()
+    case 'bool':
+      return reader.bool()
+    case 'pubkey':
+      return reader.pubkey()
+    case 'string':
+      return reader.string()
+  }
+}
+
+/** Turns a declarative layout into a decoder producing a `custom` account. */
+export function layoutDecoder(layout: AccountLayout): AccountDecoder {
+  const discriminator = layout.discriminator ? Buffer.from(layout.discriminator, 'hex') : undefined
+  return (data, event): DecodedCustomAccount | undefined => {
+    if (discriminator && !data.subarray(0, discriminator.length).equals(discriminator)) return undefined
+    const reader = new ByteReader(data, discriminator?.length ?? 0)
+    const fields: UnknownRecord = {}
+    for (const field of layout.fields) {
+      fields[field.name] = readField(reader, field.type)
+    }
+    return { kind: 'custom', program: event.owner, layout: layout.name, fields }
+  }
+}
+
+function decodeSystemAccount(data: Buffer, event: WsAccountEvent): DecodedSystemAccount | undefined {
+  // Only plain wallets; nonce accounts and other system-owned data are left alone
+  if (data.length !== 0) return undefined
+  return { kind: 'system', lamports: event.lamports, sol: Number(event.lamports) / LAMPORTS_PER_SOL }
+}
+
+function decodeData(event: WsAccountEvent): Buffer {
+  return Buffer.from(event.data, event.dataEncoding === 'hex' ? 'hex' : 'base64')
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/**
+ * Decoders keyed by owner program. Several decoders may share an owner (one
+ * per account type); the most recently registered is tried first, so a custom
+ * decoder can override a built-in one.
+ */
+export function createAccountDecoderRegistry() {
+  const decoders = new Map<string, AccountDecoder[]>()
+
+  function register(owner: string, decoder: AccountDecoder) {
+    decoders.set(owner, [decoder, ...(decoders.get(owner) ?? [])])
+  }
+
+  return {
+    register,
+
+    registerLayout(owner: string, layout: AccountLayout) {
+      register(owner, layoutDecoder(layout))
+    },
+
+    /** Decodes the event's data, or returns undefined if no decoder for its owner matches. */
+    decode(event: WsAccountEvent): DecodedAccount | undefined {
+      const candidates = decoders.get(event.owner)
+      if (!candidates) return undefined
+      const data = decodeData(event)
+      for (const decoder of candidates) {
+        try {
+          const decoded = decoder(data, event)
+          if (decoded) return decoded
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : String(err)
+          logDebug('decoders', 'account decoder failed', { pubkey: event.pubkey, owner: event.owner, message })
+        }
+      }
+      return undefined
+    }
+  }
+}
+
+export type AccountDecoderRegistry = ReturnType<typeof createAccountDecoderRegistry>
+
+/** Registry with the built-in SPL Token, Token-2022 and system account decoders. */
+export function createDefaultAccountDecoderRegistry(): AccountDecoderRegistry {
+  const registry = createAccountDecoderRegistry()
+  registry.register(TOKEN_PROGRAM_ADDRESS, decodeSplTokenAccount)
+  registry.register(TOKEN_2022_PROGRAM_ADDRESS, decodeToken2022Account)
+  registry.register(SYSTEM_PROGRAM_ADDRESS, decodeSystemAccount)
+  return registry
+}
@@ -0,0 +1,190 @@
+import type { DecodedMint, DecodedTokenAccount, TokenExtension, TokenProgramName, UnknownRecord } from '../types'
+import { ByteReader } from './reader'
+
+// Base layouts shared by SPL Token and Token-2022
+const MINT_SIZE = 82
+const ACCOUNT_SIZE = 165
+
+// Token-2022 pads mints to the account size, then stores an account type byte
+// and a run of type(u16) / length(u16) / value TLV entries
+const ACCOUNT_TYPE_OFFSET = ACCOUNT_SIZE
+const TLV_OFFSET = ACCOUNT_SIZE + 1
+const ACCOUNT_TYPE_MINT = 1
+const ACCOUNT_TYPE_ACCOUNT = 2
+
+const ACCOUNT_STATES = ['uninitialized', 'initialized', 'frozen'] as const
+
+function decodeTransferFee(reader: ByteReader): UnknownRecord {
+  return { epoch: reader.u64(), maximumFee: reader.u64(), transferFeeBasisPoints: reader.u16() }
+}
+
+type ExtensionLayout = { name: string; decode?: (reader: ByteReader) => UnknownRecord }
+
+const EXTENSIONS: Record<number, ExtensionLayout> = {
+  1: {
+    name: 'transferFeeConfig',
+    decode: (r) => ({
+      transferFeeConfigAuthority: r.optionalNonZeroPubkey(),
+      withdrawWithheldAuthority: r.optionalNonZeroPubkey(),
+      withheldAmount: r.u64(),
+      olderTransferFee: decodeTransferFee(r),
+      newerTransferFee: decodeTransferFee(r)
+    })
+  },
+  2: { name: 'transferFeeAmount', decode: (r) => ({ withheldAmount: r.u64() }) },
+  3: { name: 'mintCloseAuthority', decode: (r) => ({ closeAuthority: r.optionalNonZeroPubkey() }) },
+  4: { name: 'confidentialTransferMint' },
+  5: { name: 'confidentialTransferAccount' },
+  6: { name: 'defaultAccountState', decode: (r) => ({ state: ACCOUNT_STATES[r.u8()] ?? 'unknown' }) },
+  7: { name: 'immutableOwner', decode: () => ({}) },
+  8: { name: 'memoTransfer', decode: (r) => ({ requireIncomingTransferMemos: r.bool() }) },
+  9: { name: 'nonTransferable', decode: () => ({}) },
+  10: {
+    name: 'interestBearingConfig',
+    decode: (r) => ({
+      rateAuthority: r.optionalNonZeroPubkey(),
+      initializationTimestamp: r.i64(),
+      preUpdateAverageRate: r.i16(),
+      lastUpdateTimestamp: r.i64(),
+      currentRate: r.i16()
+    })
+  },
+  11: { name: 'cpiGuard', decode: (r) => ({ lockCpi: r.bool() }) },
+  12: { name: 'permanentDelegate', decode: (r) => ({ delegate: r.optionalNonZeroPubkey() }) },
+  13: { name: 'nonTransferableAccount', decode: () => ({}) },
+  14: {
+    name: 'transferHook',
+    decode: (r) => ({ authority: r.optionalNonZeroPubkey(), programId: r.optionalNonZeroPubkey() })
+  },
+  15: { name: 'transferHookAccount', decode: (r) => ({ transferring: r.bool() }) },
+  16: { name: 'confidentialTransferFeeConfig' },
+  17: { name: 'confidentialTransferFeeAmount' },
+  18: {
+    name: 'metadataPointer',
+    decode: (r) => ({ authority: r.optionalNonZeroPubkey(), metadataAddress: r.optionalNonZeroPubkey() })
+  },
+  19: {
+    name: 'tokenMetadata',
+    decode: (r) => {
+      const updateAuthority = r.optionalNonZeroPubkey()
+      const mint = r.pubkey()
+      const name = r.string()
+      const symbol = r.string()
+      const uri = r.string()
+      const additionalMetadata: [string, string][] = []
+      const count = r.u32()
+      for (let i = 0; i < count; i += 1) {
+        additionalMetadata.push([r.string(), r.string()])
+      }
+      return { updateAuthority, mint, name, symbol, uri, additionalMetadata }
+    }
+  },
+  20: {
+    name: 'groupPointer',
+    decode: (r) => ({ authority: r.optionalNonZeroPubkey(), groupAddress: r.optionalNonZeroPubkey() })
+  },
+  21: {
+    name: 'tokenGroup',
+    decode: (r) => ({ updateAuthority: r.optionalNonZeroPubkey(), mint: r.pubkey(), size: r.u64(), maxSize: r.u64() })
+  },
+  22: {
+    name: 'groupMemberPointer',
+    decode: (r) => ({ authority: r.optionalNonZeroPubkey(), memberAddress: r.optionalNonZeroPubkey() })
+  },
+  23: { name: 'tokenGroupMember', decode: (r) => ({ mint: r.pubkey(), group: r.pubkey(), memberNumber: r.u64() }) },
+  24: { name: 'confidentialMintBurn' },
+  25: {
+    name: 'scaledUiAmount',
+    decode: (r) => ({
+      authority: r.optionalNonZeroPubkey(),
+      multiplier: r.f64(),
+      newMultiplierEffectiveTimestamp: r.i64(),
+      newMultiplier: r.f64()
+    })
+  },
+  26: { name: 'pausable', decode: (r) => ({ authority: r.optionalNonZeroPubkey(), paused: r.bool() }) },
+  27: { name: 'pausableAccount', decode: () => ({}) }
+}
+
+/**
+ * Walks the Token-2022 TLV area. Extensions without a known layout are listed
+ * by type and name only; a malformed value is reported the same way rather
+ * than failing the whole account.
+ */
+function decodeExtensions(data: Buffer): TokenExtension[] {
+  const reader = new ByteReader(data, TLV_OFFSET)
+  const extensions: TokenExtension[] = []
+  while (reader.remaining >= 4) {
+    const type = reader.u16()
+    const length = reader.u16()
+    // Type 0 marks unused space at the end of the account
+    if (type === 0) break
+    const value = reader.bytes(length)
+    const layout = EXTENSIONS[type]
+    const extension: TokenExtension = { type, name: layout?.name ?? 'unknown' }
+    if (layout?.decode) {
+      try {
+        extension.fields = layout.decode(new ByteReader(value))
+      } catch {
+        // Leave fields off; the type still tells the reader the extension is present
+      }
+    }
+    extensions.push(extension)
+  }
+  return extensions
+}
+
+function decodeMintBase(data: Buffer, program: TokenProgramName, extensions: TokenExtension[]): DecodedMint {
+  const reader = new ByteReader(data)
+  return {
+    kind: 'mint',
+    program,
+    mintAuthority: reader.coptionPubkey(),
+    supply: reader.u64(),
+    decimals: reader.u8(),
+    isInitialized: reader.bool(),
+    freezeAuthority: reader.coptionPubkey(),
+    extensions
+  }
+}
+
+function decodeAccountBase(data: Buffer, program: TokenProgramName, extensions: TokenExtension[]): DecodedTokenAccount {
+  const reader = new ByteReader(data)
+  return {
+    kind: 'token-account',
+    program,
+    mint: reader.pubkey(),
+    owner: reader.pubkey(),
+    amount: reader.u64(),
+    delegate: reader.coptionPubkey(),
+    state: ACCOUNT_STATES[reader.u8()] ?? 'uninitialized',
+    isNative: reader.coptionU64(),
+    delegatedAmount: reader.u64(),
+    closeAuthority: reader.coptionPubkey(),
+    extensions
+  }
+}
+
+/** Decodes SPL Token (Tokenkeg) mints and token accounts by their fixed sizes. */
+export function decodeSplTokenAccount(data: Buffer): DecodedMint | DecodedTokenAccount | undefined {
+  if (data.length === MINT_SIZE) return decodeMintBase(data, 'spl-token', [])
+  if (data.length === ACCOUNT_SIZE) return decodeAccountBase(data, 'spl-token', [])
+  return undefined
+}
+
+/** Decodes Token-2022 mints and token accounts, including their extension TLVs. */
+export function decodeToken2022Account(data: Buffer): DecodedMint | DecodedTokenAccount | undefined {
+  if (data.length === MINT_SIZE) return decodeMintBase(data, 'spl-token-2022', [])
+  if (data.length === ACCOUNT_SIZE) return decodeAccountBase(data, 'spl-token-2022', [])
+  if (data.length <= ACCOUNT_SIZE) return undefined
+
+  const extensions = decodeExtensions(data)
+  switch (data.readUInt8(ACCOUNT_TYPE_OFFSET)) {
+    case ACCOUNT_TYPE_MINT:
+      return decodeMintBase(data, 'spl-token-2022', extensions)
+    case ACCOUNT_TYPE_ACCOUNT:
+      return decodeAccountBase(data, 'spl-token-2022', extensions)
+    default:
+      return undefined
+  }
+}
@@ -0,0 +1,325 @@
+import type { EventEmitter } from 'node:events'
+
+import type { Alert } from './alerts'
+import type { Candle } from './candles'
+import type { CommitmentTracker, DroppedTransaction } from './commitment'
+import type { AccountDecoderRegistry } from './decoders/registry'
+import type { EventFilter } from './filter'
+import {
+  isWsAccountEvent,
+  isWsLeaderboardEvent,
+  isWsLiquidityEvent,
+  isWsMintEvent,
+  isWsRugAlertEvent,
+  isWsSlotEvent,
+  isWsStatusEvent,
+  isWsSwapEvent,
+  isWsTickerEvent,
+  isWsTokenExtensionEvent,
+  isWsTransactionEvent,
+  isWsWhaleAlertEvent
+} from './guards'
+import type { LeaderboardChange } from './leaderboard'
+import { logWarn } from './log'
+import type {
+  InboundMessage,
+  WsAccountEvent,
+  WsErrorEvent,
+  WsHelloEvent,
+  WsLeaderboardEvent,
+  WsLiquidityEvent,
+  WsMintEvent,
+  WsPaymentRequiredEvent,
+  WsRenewalReminderEvent,
+  WsRenewedEvent,
+  WsRugAlertEvent,
+  WsSlotEvent,
+  WsStatusEvent,
+  WsSwapEvent,
+  WsTickerEvent,
+  WsTokenExtensionEvent,
+  WsTransactionEvent,
+  WsWhaleAlertEvent
+} from './types'
+
+// =============================================================================
+// Event Map
+// =============================================================================
+
+/** `error` means the source failed, e.g. a capture file that cannot be read; `message` says why. */
+export type StopReason = 'requested' | 'budget' | 'reconnect_exhausted' | 'closed' | 'ended' | 'error'
+
+export type StopInfo = { reason: StopReason; message?: string }
+
+export type AtomicStreamEventMap = {
+  open: []
+  close: [code: number, reason: string]
+  /** Every decoded inbound message, before it is dispatched to the typed events. */
+  message: [InboundMessage]
+  hello: [WsHelloEvent]
+  transaction: [WsTransactionEvent]
+  /** A transaction first emitted as processed has now been seen confirmed (commitment tracking only). */
+  transactionPromoted: [WsTransactionEvent]
+  /** A processed transaction was never confirmed within the drop margin (commitment tracking only). */
+  transactionDropped: [DroppedTransaction]
+  account: [WsAccountEvent]
+  slot: [WsSlotEvent]
+  ticker: [WsTickerEvent]
+  /** An OHLC candle built from ticker events has closed (candle aggregation only). */
+  candle: [Candle]
+  leaderboard: [WsLeaderboardEvent]
+  /** A mint entered, left or moved on the leaderboard since the last snapshot (leaderboard tracking only). */
+  leaderboardChange: [LeaderboardChange]
+  mint: [WsMintEvent]
+  whaleAlert: [WsWhaleAlertEvent]
+  rugAlert: [WsRugAlertEvent]
+  swap: [WsSwapEvent]
+  liquidity: [WsLiquidityEvent]
+  tokenExtension: [WsTokenExtensionEvent]
+  /** A windowed alert rule fired (alert rules only). */
+  alert: [Alert]
+  status: [WsStatusEvent]
+  renewalReminder: [WsRenewalReminderEvent]
+  paymentRequired: [WsPaymentRequiredEvent]
+  renewed: [WsRenewedEvent]
+  serverError: [WsErrorEvent]
+  /** A message that matched no known event or x402 op, with its raw payload. */
+  unrecognized: [unknown]
+  stopped: [StopInfo]
+}
+
+/** Anything that emits the stream events: the live client or a replay. */
+export type AtomicStreamSource = EventEmitter<AtomicStreamEventMap> & {
+  /**
+   * When the events being emitted were received, epoch milliseconds: the wall
+   * clock for the live client, the recorded receive time for a replay.
+   * Windowed consumers such as candles and alerts go by this clock.
+   */
+  now(): number
+}
+
+/** Events yielded by the async iterator and accepted by other per-event consumers such as webhooks. */
+export const ITERABLE_EVENTS = [
+  'hello',
+  'transaction',
+  'transactionPromoted',
+  'transactionDropped',
+  'account',
+  'slot',
+  'ticker',
+  'candle',
+  'leaderboard',
+  'leaderboardChange',
+  'mint',
+  'whaleAlert',
+  'rugAlert',
+  'swap',
+  'liquidity',
+  'tokenExtension',
+  'alert',
+  'status',
+  'renewalReminder',
+  'paymentRequired',
+  'renewed',
+  'serverError'
+] as const
+
+export type AtomicStreamEventName = (typeof ITERABLE_EVENTS)[number]
+
+/** Item yielded by `for await (const item of client)`, discriminated by `name`. */
+export type AtomicStreamEvent = {
+  [K in AtomicStreamEventName]: { name: K; event: AtomicStreamEventMap[K][0] }
+}[AtomicStreamEventName]
+
+/** An iterator item from one of several merged sources, tagged with the source's name. */
+export type TaggedStreamEvent = AtomicStreamEvent & { stream: string }
+
+// Oldest events are dropped once an async iterator falls this far behind
+const ITERATOR_BUFFER_LIMIT = 10_000
+
+// =============================================================================
+// Dispatch
+// =============================================================================
+
+export type DispatchOptions = {
+  /** Attaches the typed account view to account events. */
+  accountDecoders?: AccountDecoderRegistry
+  /** Drops data events that fail its rules before they are emitted. */
+  filter?: EventFilter
+  /** Deduplicates transactions by signature and reports promotions and drops. */
+  commitments?: CommitmentTracker
+}
+
+function advanceConfirmedHead(source: AtomicStreamSource, tracker: CommitmentTracker | undefined, slot: number | undefined) {
+  if (!tracker || slot === undefined) return
+  for (const dropped of tracker.advanceConfirmedHead(slot)) {
+    source.emit('transactionDropped', dropped)
+  }
+}
+
+function dispatchTransaction(
+  source: AtomicStreamSource,
+  event: WsTransactionEvent,
+  keep: (name: string, event: unknown) => boolean,
+  tracker: CommitmentTracker | undefined
+) {
+  if (!tracker) {
+    if (keep('transaction', event)) source.emit('transaction', event)
+    return
+  }
+  const observation = tracker.observe(event)
+  if (observation === 'new' && keep('transaction', event)) {
+    tracker.markEmitted(event.signature)
+    source.emit('transaction', event)
+  } else if (observation === 'promoted' && tracker.wasEmitted(event.signature)) {
+    source.emit('transactionPromoted', event)
+  }
+  if (event.commitment === 'confirmed') advanceConfirmedHead(source, tracker, event.slot)
+}
+
+/**
+ * Emits a decoded data event under its typed name unless the filter drops it.
+ * Returns false for anything that is not a data event, which leaves x402
+ * control ops and unrecognised shapes to the caller.
+ */
+export function dispatchStreamEvent(source: AtomicStreamSource, decoded: unknown, options: DispatchOptions = {}): boolean {
+  const keep = (name: string, event: unknown) => !options.filter || options.filter.accepts(name, event)
+
+  if (isWsStatusEvent(decoded)) {
+    source.emit('status', decoded)
+    advanceConfirmedHead(source, options.commitments, decoded.confirmedHeadSlot)
+    return true
+  }
+
+  if (isWsTransactionEvent(decoded)) {
+    dispatchTransaction(source, decoded, keep, options.commitments)
+    return true
+  }
+
+  if (isWsAccountEvent(decoded)) {
+    const account = options.accountDecoders?.decode(decoded)
+    if (account) decoded.decoded = account
+    if (keep('account', decoded)) source.emit('account', decoded)
+    return true
+  }
+
+  if (isWsSlotEvent(decoded)) {
+    if (keep('slot', decoded)) source.emit('slot', decoded)
+    if (decoded.status === 'confirmed') advanceConfirmedHead(source, options.commitments, decoded.slot)
+    return true
+  }
+
+  if (isWsTickerEvent(decoded)) {
+    if (keep('ticker', decoded)) source.emit('ticker', decoded)
+    return true
+  }
+
+  if (isWsLeaderboardEvent(decoded)) {
+    if (keep('leaderboard', decoded)) source.emit('leaderboard', decoded)
+    return true
+  }
+
+  if (isWsMintEvent(decoded)) {
+    if (keep('mint', decoded)) source.emit('mint', decoded)
+    return true
+  }
+
+  if (isWsWhaleAlertEvent(decoded)) {
+    if (keep('whaleAlert', decoded)) source.emit('whaleAlert', decoded)
+    return true
+  }
+
+  if (isWsRugAlertEvent(decoded)) {
+    if (keep('rugAlert', decoded)) source.emit('rugAlert', decoded)
+    return true
+  }
+
+  if (isWsSwapEvent(decoded)) {
+    if (keep('swap', decoded)) source.emit('swap', decoded)
+    return true
+  }
+
+  if (isWsLiquidityEvent(decoded)) {
+    if (keep('liquidity', decoded)) source.emit('liquidity', decoded)
+    return true
+  }
+
+  if (isWsTokenExtensionEvent(decoded)) {
+    if (keep('tokenExtension', decoded)) source.emit('tokenExtension', decoded)
+    return true
+  }
+
+  return false
+}
+
+// Buffers events from one or more sources for an async iterator, until every source has stopped
+async function* bufferEvents<T>(
+  sources: Array<[stream: string, source: AtomicStreamSource]>,
+  wrap: (stream: string, item: AtomicStreamEvent) => T
+): AsyncGenerator<T> {
+  const buffer: T[] = []
+  let wake: (() => void) | undefined
+  let running = sources.length
+  let dropped = 0
+
+  const push = (item: T) => {
+    buffer.push(item)
+    if (buffer.length > ITERATOR_BUFFER_LIMIT) {
+      buffer.shift()
+      dropped += 1
+      if (dropped === 1 || dropped % 1000 === 0) {
+        logWarn('client', 'async iterator falling behind, dropping events', { dropped })
+      }
+    }
+    wake?.()
+  }
+  const onStopped = () => {
+    running -= 1
+    wake?.()
+  }
+
+  const listeners = sources.flatMap(([stream, source]) =>
+    ITERABLE_EVENTS.map((name) => {
+      const listener = (event: AtomicStreamEvent['event']) => push(wrap(stream, { name, event } as AtomicStreamEvent))
+      source.on(name, listener)
+      return [source, name, listener] as const
+    })
+  )
+  for (const [, source] of sources) source.once('stopped', onStopped)
+
+  try {
+    while (true) {
+      const next = buffer.shift()
+      if (next) {
+        yield next
+        continue
+      }
+      if (running <= 0) return
+      await new Promise<void>((resolve) => {
+        wake = resolve
+      })
+      wake = undefined
+    }
+  } finally {
+    for (const [source, name, listener] of listeners) {
+      source.off(name, listener)
+    }
+    for (const [, source] of sources) source.off('stopped', onStopped)
+  }
+}
+
+/**
+ * Yields every stream and x402 event until the source stops. Each iterator
+ * buffers independently, dropping its oldest events if it falls too far behind.
+ */
+export function iterateEvents(source: AtomicStreamSource): AsyncGenerator<AtomicStreamEvent> {
+  return bufferEvents([['', source]], (_stream, item) => item)
+}
+
+/**
+ * Merges several sources into one iterator, tagging each item with the name
+ * it was registered under. Ends once every source has stopped.
+ */
+export function iterateStreamEvents(sources: Record<string, AtomicStreamSource>): AsyncGenerator<TaggedStreamEvent> {
+  return bufferEvents(Object.entries(sources), (stream, item) => ({ ...item, stream }))
+}
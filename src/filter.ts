@@ -0,0 +1,302 @@
+import { isNumber, isRecord } from './parse'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const FILTERABLE_EVENTS = [
+  'transaction',
+  'account',
+  'slot',
+  'ticker',
+  'leaderboard',
+  'mint',
+  'whaleAlert',
+  'rugAlert',
+  'swap',
+  'liquidity',
+  'tokenExtension'
+] as const
+
+export type FilterableEventName = (typeof FILTERABLE_EVENTS)[number]
+
+const OPERATORS = ['==', '!=', '>', '>=', '<', '<=', 'in', 'between'] as const
+
+type Operator = (typeof OPERATORS)[number]
+
+type Scalar = string | number | boolean | null
+
+/** One `path op value` condition; a path through an array matches if any element does. */
+export type FilterCondition = { path: string[]; op: Operator; operands: Scalar[] }
+
+/** One `event: conditions [when conditions]` line; events it rejects are dropped and counted against it. */
+export type FilterRule = {
+  /** The rule as written, used when reporting drops. */
+  text: string
+  event: FilterableEventName
+  conditions: FilterCondition[]
+  /** The rule only applies to events matching these; others pass untouched. */
+  when: FilterCondition[]
+}
+
+export type FilterStats = { rule: string; dropped: number }[]
+
+export function isFilterableEvent(name: string): name is FilterableEventName {
+  return (FILTERABLE_EVENTS as readonly string[]).includes(name)
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+// Quoted tokens are always string values: never keywords, numbers, booleans or null
+type Token = { text: string; quoted: boolean }
+
+// Commas are tokens of their own, so `in a,"b,c",d` splits only outside quotes
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /"([^"]*)"|'([^']*)'|[^\s,"']+|[,"']/g
+  for (const match of text.matchAll(pattern)) {
+    const quoted = match[1] ?? match[2]
+    if (quoted !== undefined) tokens.push({ text: quoted, quoted: true })
+    else if (match[0] === '"' || match[0] === "'") throw new Error(`unterminated quote in filter "${text.trim()}"`)
+    else tokens.push({ text: match[0], quoted: false })
+  }
+  return tokens
+}
+
+function isKeyword(token: Token, keyword: string): boolean {
+  return !token.quoted && token.text === keyword
+}
+
+function parseScalar(token: Token): Scalar {
+  const { text } = token
+  if (token.quoted) return text
+  if (text === 'null') return null
+  if (text === 'true') return true
+  if (text === 'false') return false
+  if (/^-?\d+(\.\d+)?(e-?\d+)?$/i.test(text)) return Number(text)
+  return text
+}
+
+function parseClause(tokens: Token[], rule: string): FilterCondition {
+  const [path, op, ...rest] = tokens
+  if (!path || !op || op.quoted || !(OPERATORS as readonly string[]).includes(op.text)) {
+    throw new Error(`invalid filter condition "${tokens.map(({ text }) => text).join(' ')}" in rule "${rule}"`)
+  }
+  const operands = rest.filter((token) => !isKeyword(token, ',')).map(parseScalar)
+  const expected = op.text === 'between' ? 2 : op.text === 'in' ? -1 : 1
+  if ((expected === -1 && operands.length === 0) || (expected > 0 && operands.length !== expected)) {
+    throw new Error(`operator ${op.text} has the wrong number of values in rule "${rule}"`)
+  }
+  return { path: path.text.replace(/\[\]/g, '').split('.'), op: op.text as Operator, operands }
+}
+
+function parseConditions(tokens: Token[], rule: string): FilterCondition[] {
+  const clauses: FilterCondition[] = []
+  let current: Token[] = []
+  for (const token of tokens) {
+    if (isKeyword(token, 'and')) {
+      clauses.push(parseClause(current, rule))
+      current = []
+    } else {
+      current.push(token)
+    }
+  }
+  clauses.push(parseClause(current, rule))
+  return clauses
+}
+
+function parseRule(text: string): FilterRule {
+  const separator = text.indexOf(':')
+  const event = text.slice(0, separator).trim()
+  if (separator < 0 || !isFilterableEvent(event)) {
+    throw new Error(`filter rule "${text}" must start with one of: ${FILTERABLE_EVENTS.join(', ')}`)
+  }
+  const tokens = tokenize(text.slice(separator + 1))
+  const whenIndex = tokens.findIndex((token) => isKeyword(token, 'when'))
+  const conditionTokens = whenIndex < 0 ? tokens : tokens.slice(0, whenIndex)
+  const whenTokens = whenIndex < 0 ? [] : tokens.slice(whenIndex + 1)
+  return {
+    text,
+    event,
+    conditions: parseConditions(conditionTokens, text),
+    when: whenTokens.length ? parseConditions(whenTokens, text) : []
+  }
+}
+
+/**
+ * Parses rules separated by newlines or `;`. Blank lines and `#` comments are
+ * skipped. Throws on the first malformed rule so typos fail at startup. Quote
+ * a value to keep it a string, e.g. `mint == "123"` or `label == "and"`.
+ *
+ *   transaction: isVote == false
+ *   transaction: tokenTransfers[].mint in EPjF...,So11...
+ *   ticker: price between 0.5 2 when baseMint == So11...
+ */
+export function parseFilterRules(source: string): FilterRule[] {
+  return splitRules(source).map(parseRule)
+}
+
+/**
+ * Splits rules on newlines and `;` and drops `#` comments, except inside
+ * quotes. A quote ends at the line, so an unterminated one is left for
+ * `tokenize` to report.
+ */
+function splitRules(source: string): string[] {
+  const rules: string[] = []
+  let current = ''
+  for (const [part] of source.matchAll(/"[^"\n]*"|'[^'\n]*'|#[^\n]*|[;\n]|[^"'#;\n]+|["']/g)) {
+    if (part === ';' || part === '\n') {
+      rules.push(current)
+      current = ''
+    } else if (!part.startsWith('#')) {
+      current += part
+    }
+  }
+  rules.push(current)
+  return rules.map((rule) => rule.trim()).filter(Boolean)
+}
+
+/** Parses conditions as written after a rule's colon, e.g. `amount >= 5 and mint == EPjF...`. */
+export function parseFilterConditions(text: string): FilterCondition[] {
+  return parseConditions(tokenize(text), text)
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function transactionMints(event: unknown): string[] {
+  if (!isRecord(event)) return []
+  const mints = new Set<string>()
+  const collect = (items: unknown) => {
+    if (!Array.isArray(items)) return
+    for (const item of items) {
+      if (isRecord(item) && typeof item.mint === 'string') mints.add(item.mint)
+    }
+  }
+  collect(event.tokenTransfers)
+  collect(event.tokenBalanceChanges)
+  if (Array.isArray(event.accountData)) {
+    for (const data of event.accountData) {
+      if (isRecord(data)) collect(data.tokenBalanceChanges)
+    }
+  }
+  return [...mints]
+}
+
+// Derived fields that read the same on enhanced and raw transactions
+const VIRTUAL_FIELDS: Partial<Record<FilterableEventName, Record<string, (event: unknown) => unknown>>> = {
+  transaction: {
+    failed: (event) => isRecord(event) && event.err !== null && event.err !== undefined,
+    mints: transactionMints
+  }
+}
+
+/**
+ * Resolves a dotted path, fanning out over arrays so `a.b` visits every `b` in
+ * an array `a`. Derived fields only resolve when the event name is given.
+ */
+function resolvePath(event: unknown, name: FilterableEventName | undefined, path: string[]): unknown[] {
+  const [head, ...rest] = path
+  const virtual = name !== undefined && head !== undefined ? VIRTUAL_FIELDS[name]?.[head] : undefined
+  let values: unknown[] = virtual ? [virtual(event)] : [event]
+  for (const segment of virtual ? rest : path) {
+    values = values.flatMap((value) => (Array.isArray(value) ? value : [value]))
+    values = values.map((value) => (isRecord(value) ? value[segment] : undefined))
+  }
+  values = values.flatMap((value) => (Array.isArray(value) ? value : [value]))
+  return values.length ? values : [undefined]
+}
+
+/** Every value at a path such as `tokenTransfers[].mint`; missing values are left out. */
+export function resolveFilterPath(value: unknown, path: string, name?: FilterableEventName): unknown[] {
+  return resolvePath(value, name, path.replace(/\[\]/g, '').split('.')).filter((item) => item !== undefined)
+}
+
+/** Numbers and numeric strings, such as `lamports`, as conditions compare them. */
+export function toNumber(value: unknown): number | undefined {
+  if (isNumber(value)) return value
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+  return undefined
+}
+
+function equals(value: unknown, operand: Scalar): boolean {
+  if (operand === null) return value === null || value === undefined
+  if (typeof operand === 'number') return toNumber(value) === operand
+  if (typeof operand === 'boolean') return value === operand
+  return String(value) === operand
+}
+
+function compare(value: unknown, op: Operator, operands: Scalar[]): boolean {
+  const [first, second] = operands
+  switch (op) {
+    case '==':
+      return equals(value, first ?? null)
+    case '!=':
+      return !equals(value, first ?? null)
+    case 'in':
+      return operands.some((operand) => equals(value, operand))
+    default: {
+      const n = toNumber(value)
+      if (n === undefined) return false
+      const a = toNumber(first)
+      if (a === undefined) return false
+      if (op === '>') return n > a
+      if (op === '>=') return n >= a
+      if (op === '<') return n < a
+      if (op === '<=') return n <= a
+      const b = toNumber(second)
+      return b !== undefined && n >= a && n <= b
+    }
+  }
+}
+
+/** True when every condition holds; pass the event name to resolve its derived fields. */
+export function matchesFilterConditions(event: unknown, conditions: FilterCondition[], name?: FilterableEventName): boolean {
+  return matches(event, name, conditions)
+}
+
+function matches(event: unknown, name: FilterableEventName | undefined, clauses: FilterCondition[]): boolean {
+  return clauses.every((clause) =>
+    resolvePath(event, name, clause.path).some((value) => compare(value, clause.op, clause.operands))
+  )
+}
+
+/**
+ * Evaluates parsed rules against events before they are emitted. An event is
+ * kept only if every rule for its type (whose `when` matches) accepts it; the
+ * first rule that rejects it gets the drop. Array paths match when any
+ * element does.
+ */
+export function createEventFilter(rules: FilterRule[]) {
+  const dropped = new Map<FilterRule, number>(rules.map((rule) => [rule, 0]))
+
+  return {
+    get size() {
+      return rules.length
+    },
+
+    accepts(name: string, event: unknown): boolean {
+      for (const rule of rules) {
+        if (rule.event !== name) continue
+        if (rule.when.length && !matches(event, rule.event, rule.when)) continue
+        if (!matches(event, rule.event, rule.conditions)) {
+          dropped.set(rule, (dropped.get(rule) ?? 0) + 1)
+          return false
+        }
+      }
+      return true
+    },
+
+    stats(): FilterStats {
+      return rules.map((rule) => ({ rule: rule.text, dropped: dropped.get(rule) ?? 0 }))
+    }
+  }
+}
+
+export type EventFilter = ReturnType<typeof createEventFilter>
@@ -0,0 +1,132 @@
+import { isNumber, isRecord, isString } from './parse'
+import type {
+  EnhancedTransactionEvent,
+  RenewResponse,
+  Ws402StreamSchema,
+  WsAccountEvent,
+  WsLeaderboardEvent,
+  WsLiquidityEvent,
+  WsMintEvent,
+  WsRugAlertEvent,
+  WsSlotEvent,
+  WsStatusEvent,
+  WsSwapEvent,
+  WsTickerEvent,
+  WsTokenExtensionEvent,
+  WsTransactionEvent,
+  WsWhaleAlertEvent,
+  WsX402Event
+} from './types'
+
+export function isWsStatusEvent(value: unknown): value is WsStatusEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'status' && typeof value.now === 'string'
+}
+
+export function isWsTransactionEvent(value: unknown): value is WsTransactionEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'transaction' && typeof value.signature === 'string'
+}
+
+export function isWsAccountEvent(value: unknown): value is WsAccountEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'account' && typeof value.pubkey === 'string'
+}
+
+export function isWsSlotEvent(value: unknown): value is WsSlotEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'slot' && typeof value.slot === 'number'
+}
+
+export function isWsTickerEvent(value: unknown): value is WsTickerEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'ticker' && typeof value.baseMint === 'string'
+}
+
+export function isWsLeaderboardEvent(value: unknown): value is WsLeaderboardEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'leaderboard' && Array.isArray(value.items)
+}
+
+export function isWsMintEvent(value: unknown): value is WsMintEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'mint' && isString(value.mint) && isNumber(value.decimals)
+}
+
+export function isWsWhaleAlertEvent(value: unknown): value is WsWhaleAlertEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'whale' && isString(value.signature) && isNumber(value.amountUsd)
+}
+
+export function isWsRugAlertEvent(value: unknown): value is WsRugAlertEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'rug' && isString(value.mint) && isString(value.signal)
+}
+
+export function isWsSwapEvent(value: unknown): value is WsSwapEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'swap' && isString(value.pool) && (value.side === 'buy' || value.side === 'sell')
+}
+
+export function isWsLiquidityEvent(value: unknown): value is WsLiquidityEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'liquidity' && isString(value.pool) && (value.action === 'add' || value.action === 'remove')
+}
+
+export function isWsTokenExtensionEvent(value: unknown): value is WsTokenExtensionEvent {
+  if (!isRecord(value)) return false
+  return value.type === 'extension' && isString(value.mint) && isString(value.extension)
+}
+
+export function isEnhancedTransactionEvent(value: WsTransactionEvent): value is EnhancedTransactionEvent {
+  return 'nativeTransfers' in value
+}
+
+export function isWsX402Event(value: unknown): value is WsX402Event {
+  if (!isRecord(value)) return false
+  if (typeof value.op !== 'string') return false
+  return ['hello', 'renewal_reminder', 'payment_required', 'renewed', 'error'].includes(value.op)
+}
+
+export function isRenewResponse(value: unknown): value is RenewResponse {
+  if (!isRecord(value)) return false
+  return typeof value.token === 'string' && typeof value.expiresAt === 'string' && typeof value.sliceSeconds === 'number'
+}
+
+export function isWs402StreamSchema(value: unknown): value is Ws402StreamSchema {
+  if (!isRecord(value)) return false
+  if (value.protocol !== 'ws402') return false
+  if (value.version !== '1') return false
+  if (!isString(value.websocketEndpoint)) return false
+  if (!isRecord(value.pricing) || !isRecord(value.paymentDetails)) return false
+
+  const pricing = value.pricing as Record<string, unknown>
+  if (
+    !isNumber(pricing.pricePerSecond) ||
+    !isString(pricing.currency) ||
+    !isNumber(pricing.estimatedDuration)
+  ) {
+    return false
+  }
+
+  const details = value.paymentDetails as Record<string, unknown>
+  if (
+    details.scheme !== 'exact' ||
+    !isString(details.network) ||
+    !isString(details.asset) ||
+    !isString(details.payTo) ||
+    !isString(details.maxAmountRequired) ||
+    !isNumber(details.maxTimeoutSeconds)
+  ) {
+    return false
+  }
+
+  if (!isRecord(value.stream)) return false
+  const stream = value.stream as Record<string, unknown>
+  return isString(stream.id) && isString(stream.title) && isString(stream.description)
+}
+
+export function isPaymentRequired(value: unknown): value is { accepts: unknown[] } {
+  if (!isRecord(value)) return false
+  return Array.isArray(value.accepts) && value.accepts.length > 0
+}
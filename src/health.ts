@@ -0,0 +1,219 @@
+import type { AtomicStreamSource } from './events'
+import { logInfo, logWarn } from './log'
+import { isNumber, isRecord } from './parse'
+import type { InboundMessage, WsStatusEvent } from './types'
+
+export type HealthState = 'healthy' | 'degraded' | 'stalled'
+
+export type HealthThresholds = {
+  /** Degraded once events arrive this many slots behind the processed head; 0 disables. */
+  maxSlotLag: number
+  /** Degraded after this long without any message; 0 disables. */
+  degradedGapMs: number
+  /** Stalled after this long without any message; 0 disables. */
+  stalledGapMs: number
+  /** Degraded when the last status is older than this; 0 disables. */
+  statusStaleMs: number
+  /** `onUpstreamDown` fires once grpcConnected has been false this long. */
+  upstreamDownMs: number
+  /** How often the state is re-evaluated. */
+  checkIntervalMs: number
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  maxSlotLag: 50,
+  degradedGapMs: 30_000,
+  stalledGapMs: 120_000,
+  statusStaleMs: 0,
+  upstreamDownMs: 30_000,
+  checkIntervalMs: 5_000
+}
+
+export type HealthSnapshot = {
+  state: HealthState
+  /** Why the state is not healthy; empty when it is. */
+  reasons: string[]
+  /** Processed head minus the slot of the most recent data event. */
+  slotLag: number | null
+  msSinceLastMessage: number | null
+  msSinceLastStatus: number | null
+  messagesPerSecond: number
+  grpcConnected: boolean | null
+  nodeHealthy: boolean | null
+  processedHeadSlot: number | null
+  confirmedHeadSlot: number | null
+}
+
+export type HealthTransition = { from: HealthState; to: HealthState; snapshot: HealthSnapshot }
+
+export type HealthMonitorOptions = Partial<HealthThresholds> & {
+  /** Log scope, so monitors of several streams can be told apart; defaults to `health`. */
+  logScope?: string
+  onTransition?: (transition: HealthTransition) => void
+  /** Upstream reported grpcConnected false for longer than `upstreamDownMs`. */
+  onUpstreamDown?: (snapshot: HealthSnapshot) => void
+  /** Upstream is connected again after `onUpstreamDown` fired. */
+  onUpstreamRecovered?: (snapshot: HealthSnapshot) => void
+}
+
+// Message rate is averaged over this many check intervals
+const RATE_WINDOW_TICKS = 12
+
+function messageSlot(message: unknown): number | undefined {
+  return isRecord(message) && isNumber(message.slot) ? message.slot : undefined
+}
+
+/**
+ * Watches a stream source for lag, silence and upstream trouble and moves
+ * between healthy, degraded and stalled. Transitions are logged and passed to
+ * `onTransition`; the monitor itself never touches the connection, so
+ * reacting to `onUpstreamDown` (reconnecting, pausing renewals) is up to the
+ * caller. Stops with the source.
+ */
+export function createHealthMonitor(source: AtomicStreamSource, options: HealthMonitorOptions = {}) {
+  const thresholds = { ...DEFAULT_HEALTH_THRESHOLDS, ...options }
+  const scope = options.logScope ?? 'health'
+  const startedAt = Date.now()
+
+  let state: HealthState = 'healthy'
+  let lastMessageAt: number | undefined
+  let lastStatusAt: number | undefined
+  let lastStatus: WsStatusEvent | undefined
+  let processedHeadSlot: number | undefined
+  let slotLag: number | undefined
+  let upstreamDownSince: number | undefined
+  let upstreamDownReported = false
+  let tickMessages = 0
+  const tickCounts: number[] = []
+
+  function snapshot(): HealthSnapshot {
+    const now = Date.now()
+    const windowMs = tickCounts.length * thresholds.checkIntervalMs
+    const windowMessages = tickCounts.reduce((sum, count) => sum + count, 0)
+    return {
+      state,
+      reasons: [],
+      slotLag: slotLag ?? null,
+      msSinceLastMessage: lastMessageAt === undefined ? null : now - lastMessageAt,
+      msSinceLastStatus: lastStatusAt === undefined ? null : now - lastStatusAt,
+      messagesPerSecond: windowMs > 0 ? windowMessages / (windowMs / 1000) : 0,
+      grpcConnected: lastStatus?.grpcConnected ?? null,
+      nodeHealthy: lastStatus?.nodeHealthy ?? null,
+      processedHeadSlot: processedHeadSlot ?? null,
+      confirmedHeadSlot: lastStatus?.confirmedHeadSlot ?? null
+    }
+  }
+
+  function classify(current: HealthSnapshot): { state: HealthState; reasons: string[] } {
+    const stalled: string[] = []
+    const degraded: string[] = []
+    // Before the first message, measure silence from startup
+    const silentMs = current.msSinceLastMessage ?? Date.now() - startedAt
+
+    if (thresholds.stalledGapMs > 0 && silentMs >= thresholds.stalledGapMs) stalled.push(`no messages for ${silentMs}ms`)
+    else if (thresholds.degradedGapMs > 0 && silentMs >= thresholds.degradedGapMs) degraded.push(`no messages for ${silentMs}ms`)
+
+    if (current.grpcConnected === false) stalled.push('upstream grpc disconnected')
+    if (current.nodeHealthy === false) degraded.push('upstream node unhealthy')
+    if (thresholds.maxSlotLag > 0 && current.slotLag !== null && current.slotLag > thresholds.maxSlotLag) {
+      degraded.push(`events ${current.slotLag} slots behind head`)
+    }
+    if (
+      thresholds.statusStaleMs > 0 &&
+      current.msSinceLastStatus !== null &&
+      current.msSinceLastStatus >= thresholds.statusStaleMs
+    ) {
+      degraded.push(`no status for ${current.msSinceLastStatus}ms`)
+    }
+
+    if (stalled.length) return { state: 'stalled', reasons: [...stalled, ...degraded] }
+    if (degraded.length) return { state: 'degraded', reasons: degraded }
+    return { state: 'healthy', reasons: [] }
+  }
+
+  function checkUpstream(current: HealthSnapshot) {
+    if (current.grpcConnected !== false) {
+      if (upstreamDownReported) {
+        logInfo(scope, 'upstream recovered')
+        options.onUpstreamRecovered?.(current)
+      }
+      upstreamDownSince = undefined
+      upstreamDownReported = false
+      return
+    }
+    upstreamDownSince ??= Date.now()
+    if (!upstreamDownReported && Date.now() - upstreamDownSince >= thresholds.upstreamDownMs) {
+      upstreamDownReported = true
+      logWarn(scope, 'upstream down', { downForMs: Date.now() - upstreamDownSince })
+      options.onUpstreamDown?.(current)
+    }
+  }
+
+  function evaluate() {
+    const current = snapshot()
+    const next = classify(current)
+    current.state = next.state
+    current.reasons = next.reasons
+    checkUpstream(current)
+    if (next.state === state) return
+    const transition: HealthTransition = { from: state, to: next.state, snapshot: current }
+    state = next.state
+    if (next.state === 'healthy') logInfo(scope, 'stream healthy again', { from: transition.from })
+    else logWarn(scope, `stream ${next.state}`, { from: transition.from, reasons: next.reasons, slotLag: current.slotLag })
+    options.onTransition?.(transition)
+  }
+
+  const onMessage = (record: InboundMessage) => {
+    lastMessageAt = Date.now()
+    tickMessages += 1
+    const slot = messageSlot(record.message)
+    if (slot === undefined) return
+    // infrastructure-pulse slot events advance the head; everything else is measured against it
+    if (isRecord(record.message) && record.message.type === 'slot') {
+      processedHeadSlot = Math.max(processedHeadSlot ?? 0, slot)
+    } else if (processedHeadSlot !== undefined) {
+      slotLag = Math.max(0, processedHeadSlot - slot)
+    }
+  }
+  const onStatus = (event: WsStatusEvent) => {
+    lastStatusAt = Date.now()
+    lastStatus = event
+    if (event.processedHeadSlot !== undefined) {
+      processedHeadSlot = Math.max(processedHeadSlot ?? 0, event.processedHeadSlot)
+    }
+    evaluate()
+  }
+
+  const timer = setInterval(() => {
+    tickCounts.push(tickMessages)
+    tickMessages = 0
+    if (tickCounts.length > RATE_WINDOW_TICKS) tickCounts.shift()
+    evaluate()
+  }, thresholds.checkIntervalMs)
+  timer.unref()
+
+  function stop() {
+    clearInterval(timer)
+    source.off('message', onMessage)
+    source.off('status', onStatus)
+  }
+
+  source.on('message', onMessage)
+  source.on('status', onStatus)
+  source.once('stopped', stop)
+
+  return {
+    get state(): HealthState {
+      return state
+    },
+
+    snapshot(): HealthSnapshot {
+      const current = snapshot()
+      return { ...current, reasons: classify(current).reasons }
+    },
+
+    stop
+  }
+}
+
+export type HealthMonitor = ReturnType<typeof createHealthMonitor>
@@ -1,12 +1,67 @@
 import 'dotenv/config'
-import WebSocket from 'ws'
 
-import { x402Client, x402HTTPClient, wrapFetchWithPayment } from '@x402/fetch'
-import { ExactSvmScheme, SOLANA_DEVNET_CAIP2, SOLANA_MAINNET_CAIP2, SOLANA_TESTNET_CAIP2 } from '@x402/svm'
-import { ExactSvmSchemeV1 } from '@x402/svm/v1'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
 import { createKeyPairSignerFromBytes } from '@solana/kit'
+import type { ClientSvmSigner } from '@x402/svm'
 import bs58 from 'bs58'
 
+import { createAlertEngine, parseAlertRules, type AlertEngine, type AlertRule } from './alerts'
+import { createCandleAggregator, parseCandleIntervals } from './candles'
+import { createSpendBudget } from './budget'
+import { AtomicStreamClient } from './client'
+import { createCommitmentTracker, type CommitmentTracker } from './commitment'
+import { startControlServer, watchWatchlistFile, type ControlStream } from './control'
+import { startDashboard } from './dashboard'
+import type { StopInfo } from './events'
+import { createEventFilter, parseFilterRules, type EventFilter } from './filter'
+import { isEnhancedTransactionEvent } from './guards'
+import { createHealthMonitor } from './health'
+import { decryptKeystore, readKeystore, readPassphrase } from './keystore'
+import { createLeaderboardTracker, type LeaderboardTracker } from './leaderboard'
+import { createPaymentLedger } from './ledger'
+import { logError, logInfo, logWarn, setLogDestination } from './log'
+import { startMetricsServer } from './metrics'
+import {
+  parseBoolean,
+  parseDecimal,
+  parseEventFormat,
+  parseInteger,
+  parseList,
+  parseOptionalInteger,
+  parseOutputFormat,
+  parseRenewMethod,
+  parseTimestamp,
+  parseTxLogMode,
+  parseUpstreamDownAction
+} from './parse'
+import { createOutputWriter, parseCsvColumns, parseOutputEvents } from './output'
+import { createRecorder } from './recorder'
+import { createRemoteSigner } from './remote-signer'
+import { ReplaySource } from './replay'
+import { createSessionStore } from './session'
+import { parseStreamSubscriptions, streamNameFromPath, type StreamSubscription } from './streams'
+import {
+  summarizeAccount,
+  summarizeAlert,
+  summarizeCandle,
+  summarizeEnhancedTransaction,
+  summarizeLeaderboard,
+  summarizeLeaderboardChange,
+  summarizeLiquidity,
+  summarizeMint,
+  summarizeRawTransaction,
+  summarizeRugAlert,
+  summarizeSlot,
+  summarizeStatus,
+  summarizeSwap,
+  summarizeTicker,
+  summarizeTokenExtension,
+  summarizeWhaleAlert
+} from './summarize'
+import { createWebhookSink, parseWebhookTargets } from './webhook'
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -14,8 +69,31 @@ import bs58 from 'bs58'
 const HTTP_BASE = process.env.PUBLIC_HTTP_BASE_URL ?? 'https://x402.atomicstream.net'
 const X402_SCHEMA_PATH = process.env.X402_SCHEMA_PATH ?? '/v1/schema/stream/mempool-sniff'
 const SVM_PRIVATE_KEY = process.env.SVM_PRIVATE_KEY
+// Encrypted keystore instead of SVM_PRIVATE_KEY; the passphrase is prompted for unless a descriptor is given
+const SVM_KEYSTORE_FILE = process.env.SVM_KEYSTORE_FILE || undefined
+const SVM_KEYSTORE_PASSPHRASE_FD = parseOptionalInteger(process.env.SVM_KEYSTORE_PASSPHRASE_FD)
+// Separate signer process holding the key instead (see README "External Signer")
+const SIGNER_URL = process.env.SIGNER_URL || undefined
+const SIGNER_TOKEN = process.env.SIGNER_TOKEN || undefined
+const SVM_RPC_URL = process.env.SVM_RPC_URL || undefined
 const RENEW_METHOD = parseRenewMethod(process.env.RENEW_METHOD)
 
+// Several streams in one process (replaces X402_SCHEMA_PATH when set; see README "Multiple Streams")
+const STREAMS_FILE = process.env.STREAMS_FILE || undefined
+
+// Renewal scheduling (renew ahead of expiry, retry, fall back to the other method)
+const RENEW_LEAD_SECONDS = parseInteger(process.env.RENEW_LEAD_SECONDS, 45)
+const RENEW_RETRY_BASE_DELAY_MS = parseInteger(process.env.RENEW_RETRY_BASE_DELAY_MS, 1000)
+const RENEW_RETRY_MAX_DELAY_MS = parseInteger(process.env.RENEW_RETRY_MAX_DELAY_MS, 15_000)
+const RENEW_GRACE_SECONDS = parseInteger(process.env.RENEW_GRACE_SECONDS, 5)
+const RENEW_FALLBACK_AFTER_FAILURES = parseInteger(process.env.RENEW_FALLBACK_AFTER_FAILURES, 2)
+
+// Session persistence (set SESSION_FILE to empty to disable)
+const SESSION_FILE = process.env.SESSION_FILE ?? '.atomicstream-session.json'
+
+// Payment ledger for reconciliation (set LEDGER_FILE to empty to disable)
+const LEDGER_FILE = process.env.LEDGER_FILE ?? '.atomicstream-payments.jsonl'
+
 // Stream options
 const WATCH_ACCOUNTS = parseList(process.env.WATCH_ACCOUNTS)
 const WATCH_PROGRAMS = parseList(process.env.WATCH_PROGRAMS)
@@ -27,558 +105,388 @@ const FILTER_TOKEN_BALANCES = parseBoolean(process.env.FILTER_TOKEN_BALANCES, fa
 const EVENT_FORMAT = parseEventFormat(process.env.EVENT_FORMAT) ?? 'enhanced'
 const TX_LOG_MODE = parseTxLogMode(process.env.LOG_TRANSACTIONS)
 
+// Structured output on stdout (jsonl, pretty, csv); log lines then go to stderr
+const OUTPUT_FORMAT = parseOutputFormat(process.env.OUTPUT_FORMAT)
+const OUTPUT_EVENTS = parseList(process.env.OUTPUT_EVENTS)
+const CSV_COLUMNS = process.env.CSV_COLUMNS ?? ''
+
+// Full-screen terminal dashboard; plain logging when stdout is not a terminal
+const DASHBOARD = parseBoolean(process.env.DASHBOARD, false)
+const DASHBOARD_REFRESH_MS = parseInteger(process.env.DASHBOARD_REFRESH_MS, 500)
+
+// Live watchlist control (see README "Live Watchlist Control"; 0 / empty disables)
+const CONTROL_PORT = parseInteger(process.env.CONTROL_PORT, 0)
+const CONTROL_HOST = process.env.CONTROL_HOST || '127.0.0.1'
+const CONTROL_SOCKET = process.env.CONTROL_SOCKET || undefined
+const CONTROL_TOKEN = process.env.CONTROL_TOKEN || undefined
+const WATCHLIST_FILE = process.env.WATCHLIST_FILE || undefined
+
+// Client-side filters (see README "Filtering Events")
+const FILTER_RULES = process.env.FILTER_RULES ?? ''
+const FILTER_FILE = process.env.FILTER_FILE || undefined
+const FILTER_REPORT_INTERVAL_SECONDS = parseInteger(process.env.FILTER_REPORT_INTERVAL_SECONDS, 60)
+
+// Commitment tracking (dedupe by signature, report promotions and drops)
+const TRACK_COMMITMENTS = parseBoolean(process.env.TRACK_COMMITMENTS, false)
+const COMMITMENT_DROP_MARGIN_SLOTS = parseInteger(process.env.COMMITMENT_DROP_MARGIN_SLOTS, 150)
+const COMMITMENT_MAX_TRACKED = parseInteger(process.env.COMMITMENT_MAX_TRACKED, 100_000)
+
+// OHLC candles from ticker events (empty intervals disable)
+const CANDLE_INTERVALS = parseList(process.env.CANDLE_INTERVALS)
+const CANDLE_PER_DEX = parseBoolean(process.env.CANDLE_PER_DEX, true)
+const CANDLE_ROLLING_WINDOW = parseInteger(process.env.CANDLE_ROLLING_WINDOW, 20)
+
+// Leaderboard tracking (diff snapshots into entered/exited/rank changes)
+const TRACK_LEADERBOARD = parseBoolean(process.env.TRACK_LEADERBOARD, false)
+const LEADERBOARD_HISTORY = parseInteger(process.env.LEADERBOARD_HISTORY, 60)
+const LEADERBOARD_SUMMARY_TOP = parseInteger(process.env.LEADERBOARD_SUMMARY_TOP, 10)
+
+// Windowed alert rules (JSON list; see README "Alert Rules")
+const ALERT_RULES_FILE = process.env.ALERT_RULES_FILE || undefined
+
+// Health monitoring (seconds; 0 disables a threshold)
+const HEALTH_MONITOR = parseBoolean(process.env.HEALTH_MONITOR, false)
+const HEALTH_MAX_SLOT_LAG = parseInteger(process.env.HEALTH_MAX_SLOT_LAG, 50)
+const HEALTH_DEGRADED_GAP_SECONDS = parseInteger(process.env.HEALTH_DEGRADED_GAP_SECONDS, 30)
+const HEALTH_STALLED_GAP_SECONDS = parseInteger(process.env.HEALTH_STALLED_GAP_SECONDS, 120)
+const HEALTH_STATUS_STALE_SECONDS = parseInteger(process.env.HEALTH_STATUS_STALE_SECONDS, 0)
+const HEALTH_STATUS_POLL_SECONDS = parseInteger(process.env.HEALTH_STATUS_POLL_SECONDS, 30)
+const HEALTH_UPSTREAM_DOWN_SECONDS = parseInteger(process.env.HEALTH_UPSTREAM_DOWN_SECONDS, 30)
+const HEALTH_UPSTREAM_DOWN_ACTION = parseUpstreamDownAction(process.env.HEALTH_UPSTREAM_DOWN_ACTION)
+
+// Prometheus metrics and /healthz (0 disables)
+const METRICS_PORT = parseInteger(process.env.METRICS_PORT, 0)
+const METRICS_HOST = process.env.METRICS_HOST || '127.0.0.1'
+
+// Webhook forwarding (enabled when WEBHOOK_URLS or WEBHOOK_FILE is set)
+const WEBHOOK_URLS = parseList(process.env.WEBHOOK_URLS)
+const WEBHOOK_FILE = process.env.WEBHOOK_FILE || undefined
+const WEBHOOK_EVENTS = parseList(process.env.WEBHOOK_EVENTS ?? '*')
+const WEBHOOK_STREAMS = parseList(process.env.WEBHOOK_STREAMS)
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || undefined
+const WEBHOOK_BATCH_SIZE = parseInteger(process.env.WEBHOOK_BATCH_SIZE, 50)
+const WEBHOOK_BATCH_INTERVAL_MS = parseInteger(process.env.WEBHOOK_BATCH_INTERVAL_MS, 1000)
+const WEBHOOK_QUEUE_DIR = process.env.WEBHOOK_QUEUE_DIR || undefined
+const WEBHOOK_MAX_QUEUED_BATCHES = parseInteger(process.env.WEBHOOK_MAX_QUEUED_BATCHES, 1000)
+const WEBHOOK_MAX_ATTEMPTS = parseInteger(process.env.WEBHOOK_MAX_ATTEMPTS, 10)
+const WEBHOOK_RETRY_BASE_DELAY_MS = parseInteger(process.env.WEBHOOK_RETRY_BASE_DELAY_MS, 1000)
+const WEBHOOK_RETRY_MAX_DELAY_MS = parseInteger(process.env.WEBHOOK_RETRY_MAX_DELAY_MS, 300_000)
+
+// Connection resilience
+const RECONNECT_ENABLED = parseBoolean(process.env.RECONNECT, true)
+const RECONNECT_MAX_ATTEMPTS = parseInteger(process.env.RECONNECT_MAX_ATTEMPTS, 0)
+const RECONNECT_BASE_DELAY_MS = parseInteger(process.env.RECONNECT_BASE_DELAY_MS, 1000)
+const RECONNECT_MAX_DELAY_MS = parseInteger(process.env.RECONNECT_MAX_DELAY_MS, 30_000)
+const HEARTBEAT_INTERVAL_MS = parseInteger(process.env.HEARTBEAT_INTERVAL_MS, 15_000)
+const RECONNECT_PAUSED_WAIT_MS = parseInteger(process.env.RECONNECT_PAUSED_WAIT_MS, 300_000)
+
+// Spend guardrails (0 = no limit)
+const MAX_TOTAL_USDC = parseDecimal(process.env.MAX_TOTAL_USDC, 0)
+const MAX_RENEWALS = parseInteger(process.env.MAX_RENEWALS, 0)
+const MAX_SESSION_SECONDS = parseInteger(process.env.MAX_SESSION_SECONDS, 0)
+const MAX_PRICE_PER_SLICE_USDC = parseDecimal(process.env.MAX_PRICE_PER_SLICE_USDC, 0)
+
+// Capture (recording is enabled when RECORD_DIR is set)
+const RECORD_DIR = process.env.RECORD_DIR || undefined
+const RECORD_MAX_BYTES = parseInteger(process.env.RECORD_MAX_BYTES, 100 * 1024 * 1024)
+const RECORD_MAX_AGE_SECONDS = parseInteger(process.env.RECORD_MAX_AGE_SECONDS, 3600)
+const RECORD_GZIP = parseBoolean(process.env.RECORD_GZIP, false)
+
+// Offline replay (replaces the live stream when REPLAY_FILES is set)
+const REPLAY_FILES = parseList(process.env.REPLAY_FILES)
+const REPLAY_SPEED = parseDecimal(process.env.REPLAY_SPEED, 1)
+const REPLAY_FROM_SLOT = parseOptionalInteger(process.env.REPLAY_FROM_SLOT)
+const REPLAY_TO_SLOT = parseOptionalInteger(process.env.REPLAY_TO_SLOT)
+const REPLAY_FROM_TIME = parseTimestamp(process.env.REPLAY_FROM_TIME)
+const REPLAY_TO_TIME = parseTimestamp(process.env.REPLAY_TO_TIME)
+
+// Stream id from the schema path, used to name captures and tag forwarded events
+const STREAM_NAME = streamNameFromPath(X402_SCHEMA_PATH)
+
+// Distinct exit code so supervisors can tell a budget stop from a crash
+const EXIT_CODE_BUDGET_EXHAUSTED = 3
+
 // =============================================================================
-// Types
+// Signer Setup
 // =============================================================================
 
-type RenewMethod = 'http' | 'inband'
-type X402SchemaVersion = 'v1' | 'v2'
-type EventFormat = 'raw' | 'enhanced'
-type TxLogMode = 'summary' | 'full'
-type CommitmentLabel = 'processed' | 'confirmed'
-type UnknownRecord = Record<string, unknown>
-
-type RenewResponse = { token: string; expiresAt: string; sliceSeconds: number }
-
-type Ws402StreamInfo = {
-  id: string
-  title: string
-  description: string
-}
-
-type Ws402StreamSchema = {
-  protocol: 'ws402'
-  version: '1'
-  websocketEndpoint: string
-  pricing: {
-    pricePerSecond: number
-    currency: string
-    estimatedDuration: number
+async function createSigner(): Promise<ClientSvmSigner> {
+  if (SIGNER_URL) {
+    if (SVM_PRIVATE_KEY || SVM_KEYSTORE_FILE) throw new Error('SIGNER_URL replaces SVM_PRIVATE_KEY and SVM_KEYSTORE_FILE; unset them')
+    const signer = await createRemoteSigner({ url: SIGNER_URL, token: SIGNER_TOKEN })
+    logInfo('client', 'using remote signer', { url: SIGNER_URL, address: signer.address })
+    return signer
   }
-  paymentDetails: {
-    scheme: 'exact'
-    network: string
-    asset: string
-    payTo: string
-    maxAmountRequired: string
-    maxTimeoutSeconds: number
+  if (SVM_KEYSTORE_FILE) {
+    if (SVM_PRIVATE_KEY) throw new Error('Set either SVM_PRIVATE_KEY or SVM_KEYSTORE_FILE, not both')
+    const keystore = readKeystore(SVM_KEYSTORE_FILE)
+    const passphrase = await readPassphrase({ fd: SVM_KEYSTORE_PASSPHRASE_FD, prompt: `Passphrase for ${keystore.address}: ` })
+    return createKeyPairSignerFromBytes(await decryptKeystore(keystore, passphrase))
   }
-  stream: Ws402StreamInfo
-}
-
-type NativeTransfer = {
-  fromUserAccount: string
-  toUserAccount: string
-  amount: number
-}
-
-type TokenTransfer = {
-  fromTokenAccount: string
-  toTokenAccount: string
-  fromUserAccount: string
-  toUserAccount: string
-  tokenAmount: number
-  mint: string
-  tokenStandard: string
-}
-
-type RawTokenAmount = {
-  tokenAmount: string
-  decimals: number
-}
-
-type TokenBalanceChange = {
-  userAccount: string
-  tokenAccount: string
-  rawTokenAmount: RawTokenAmount
-  mint: string
-}
-
-type AccountData = {
-  account: string
-  nativeBalanceChange: number
-  tokenBalanceChanges: TokenBalanceChange[]
-}
-
-type YellowstoneTokenBalanceChange = {
-  account: string
-  mint: string
-  owner?: string
-  decimals: number
-  preAmount: string
-  preAmountUi: string
-  postAmount: string
-  postAmountUi: string
-  delta: string
-  deltaUi: string
-}
-
-type EnhancedTransactionEvent = {
-  type: 'transaction'
-  commitment: CommitmentLabel
-  slot: number
-  signature: string
-  timestamp: number | null
-  isVote: boolean
-  index: number
-  err: object | null
-  fee: number
-  feePayer: string
-  accounts?: string[]
-  nativeTransfers: NativeTransfer[]
-  tokenTransfers: TokenTransfer[]
-  accountData: AccountData[]
-  computeUnitsConsumed: number
-  logs?: string[]
-}
-
-type RawTransactionEvent = {
-  type: 'transaction'
-  commitment: CommitmentLabel
-  slot: number
-  signature: string
-  isVote: boolean
-  index: number
-  err: object | null
-  accounts?: string[]
-  tokenBalanceChanges?: YellowstoneTokenBalanceChange[]
-  logs?: string[]
-  computeUnitsConsumed: number
-}
-
-type WsStatusEvent = {
-  type: 'status'
-  clientId?: string
-  now: string
-  grpcConnected: boolean
-  nodeHealthy: boolean
-  processedHeadSlot?: number
-  confirmedHeadSlot?: number
-  watchedAccounts: number
-  watchedMints: number
-}
-
-type WsTransactionEvent = EnhancedTransactionEvent | RawTransactionEvent
-
-type WsAccountEvent = {
-  type: 'account'
-  stream: string
-  pubkey: string
-  owner: string
-  lamports: string
-  executable: boolean
-  rentEpoch: string
-  data: string
-  dataEncoding: 'base64' | 'hex'
-  writeVersion: string
-  slot: number
-  txnSignature?: string
-}
-
-type WsSlotEvent = {
-  type: 'slot'
-  stream: 'infrastructure-pulse'
-  slot: number
-  parent?: number
-  status: string
-  tps?: number
-  samplePeriodSeconds?: number
-  sampleTransactions?: number
-  sampleSlots?: number
-  sampleSlot?: number
-}
-
-type WsTickerEvent = {
-  type: 'ticker'
-  baseMint: string
-  quoteMint: string
-  price: number
-  dex: string
-  slot: number
-  signature: string
-}
-
-type WsLeaderboardEvent = {
-  type: 'leaderboard'
-  windowSeconds: number
-  intervalSeconds: number
-  asOf: string
-  items: Array<{ mint: string; volumeUsd: number }>
+  if (!SVM_PRIVATE_KEY) {
+    throw new Error('Missing SVM_PRIVATE_KEY (or SVM_KEYSTORE_FILE or SIGNER_URL) environment variable')
+  }
+  return createKeyPairSignerFromBytes(bs58.decode(SVM_PRIVATE_KEY))
 }
 
-type RenewHints = {
-  http: { endpoint: string; method: 'POST'; priceHint: string }
-  inband: { challengeEndpoint: string; method: 'POST'; priceHint: string }
+function exitCodeFor(info: StopInfo): number {
+  if (info.reason === 'budget') return EXIT_CODE_BUDGET_EXHAUSTED
+  if (info.reason === 'reconnect_exhausted' || info.reason === 'error') return 1
+  return 0
 }
 
-type WsX402Event =
-  | { op: 'hello'; clientId: string; expiresAt: string; sliceSeconds: number }
-  | { op: 'renewal_reminder'; expiresAt: string; msUntilExpiry: number; renew: RenewHints }
-  | { op: 'payment_required'; reason: 'expired'; renew: RenewHints }
-  | { op: 'renewed'; expiresAt: string; method: 'http' | 'inband' }
-  | { op: 'error'; message: string }
-
 // =============================================================================
-// Logging
+// Client Setup
 // =============================================================================
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error'
-
-const levelOrder: Record<LogLevel, number> = {
-  debug: 10,
-  info: 20,
-  warn: 30,
-  error: 40
+function createFilter() {
+  const fileRules = FILTER_FILE ? readFileSync(FILTER_FILE, 'utf8') : ''
+  const rules = parseFilterRules(`${FILTER_RULES}\n${fileRules}`)
+  if (rules.length) logInfo('client', 'client-side filters', { rules: rules.map((rule) => rule.text) })
+  return createEventFilter(rules)
 }
 
-const configuredLevel = (process.env.LOG_LEVEL ?? 'info').toLowerCase() as LogLevel
-const minLevel = levelOrder[configuredLevel] ?? levelOrder.info
-
-function shouldLog(level: LogLevel): boolean {
-  return levelOrder[level] >= minLevel
+function loadAlertRules(): AlertRule[] {
+  if (!ALERT_RULES_FILE) return []
+  const rules = parseAlertRules(JSON.parse(readFileSync(ALERT_RULES_FILE, 'utf8')))
+  logInfo('client', 'alert rules', { rules: rules.map(({ name, kind }) => `${name} (${kind})`) })
+  return rules
 }
 
-function formatMeta(meta?: Record<string, unknown>): string {
-  if (!meta) return ''
-  try {
-    return JSON.stringify(meta)
-  } catch {
-    return '"[unserializable]"'
-  }
-}
-
-function log(level: LogLevel, scope: string, message: string, meta?: Record<string, unknown>) {
-  if (!shouldLog(level)) return
-  const ts = new Date().toISOString()
-  const metaText = formatMeta(meta)
-  const line = `[${ts}] [${scope}] [${level}] ${message}${metaText ? ` ${metaText}` : ''}`
-
-  if (level === 'error') {
-    console.error(line)
-  } else if (level === 'warn') {
-    console.warn(line)
-  } else {
-    console.log(line)
-  }
+function loadSubscriptions(): StreamSubscription[] {
+  if (!STREAMS_FILE) return [{ name: STREAM_NAME, schemaPath: X402_SCHEMA_PATH }]
+  const subscriptions = parseStreamSubscriptions(JSON.parse(readFileSync(STREAMS_FILE, 'utf8')))
+  if (!subscriptions.length) throw new Error(`no streams in ${STREAMS_FILE}`)
+  return subscriptions
 }
 
-function logInfo(scope: string, message: string, meta?: Record<string, unknown>) {
-  log('info', scope, message, meta)
+// With several streams, each one keeps its session next to the others, e.g. `.atomicstream-session.token-ticker.json`
+function sessionFileFor(name: string, shared: boolean): string {
+  if (!shared) return SESSION_FILE
+  const { dir, name: base, ext } = path.parse(SESSION_FILE)
+  return path.join(dir, `${base}.${name}${ext}`)
 }
 
-function logWarn(scope: string, message: string, meta?: Record<string, unknown>) {
-  log('warn', scope, message, meta)
+type StreamHandle = {
+  name: string
+  client: AtomicStreamClient | ReplaySource
+  commitments: CommitmentTracker | undefined
 }
 
-function logError(scope: string, message: string, meta?: Record<string, unknown>) {
-  log('error', scope, message, meta)
+function createCommitments() {
+  return TRACK_COMMITMENTS
+    ? createCommitmentTracker({ dropMarginSlots: COMMITMENT_DROP_MARGIN_SLOTS, maxTracked: COMMITMENT_MAX_TRACKED })
+    : undefined
 }
 
-// =============================================================================
-// Parsing Utilities
-// =============================================================================
-
-function safeJsonParse(raw: string): unknown {
-  try {
-    return JSON.parse(raw)
-  } catch {
-    return undefined
+async function createStreams(filter: EventFilter): Promise<StreamHandle[]> {
+  if (REPLAY_FILES.length) {
+    const commitments = createCommitments()
+    const replay = new ReplaySource({
+      files: REPLAY_FILES,
+      speed: REPLAY_SPEED,
+      fromSlot: REPLAY_FROM_SLOT,
+      toSlot: REPLAY_TO_SLOT,
+      fromTimeMs: REPLAY_FROM_TIME,
+      toTimeMs: REPLAY_TO_TIME,
+      filter,
+      commitments
+    })
+    return [{ name: STREAM_NAME, client: replay, commitments }]
   }
-}
 
-function isRecord(value: unknown): value is UnknownRecord {
-  return typeof value === 'object' && value !== null && !Array.isArray(value)
+  // One wallet pays for every stream, so MAX_TOTAL_USDC caps them together; each client keeps its own token, renewals and other limits
+  const signer = await createSigner()
+  const walletBudget = createSpendBudget(
+    { maxTotalUsdc: MAX_TOTAL_USDC, maxRenewals: 0, maxSessionSeconds: 0, maxPricePerSliceUsdc: 0 },
+    (reason) => logWarn('client', 'spend limit for all streams reached, each stream stops at its next payment', { reason })
+  )
+  const ledger = LEDGER_FILE ? createPaymentLedger(LEDGER_FILE) : undefined
+  const subscriptions = loadSubscriptions()
+  const shared = subscriptions.length > 1
+  if (shared) logInfo('client', 'stream subscriptions', { streams: subscriptions.map(({ name, schemaPath }) => ({ name, schemaPath })) })
+
+  return subscriptions.map((subscription) => {
+    const commitments = createCommitments()
+    const client = new AtomicStreamClient({
+      name: shared ? subscription.name : undefined,
+      httpBase: HTTP_BASE,
+      schemaPath: subscription.schemaPath,
+      signer,
+      rpcUrl: SVM_RPC_URL,
+      renewMethod: subscription.renewMethod ?? RENEW_METHOD,
+      accounts: subscription.accounts ?? WATCH_ACCOUNTS,
+      programs: subscription.programs ?? WATCH_PROGRAMS,
+      options: {
+        includeAccounts: INCLUDE_ACCOUNTS,
+        includeTokenBalanceChanges: INCLUDE_TOKEN_BALANCE_CHANGES,
+        includeLogs: INCLUDE_LOGS,
+        includeInstructions: INCLUDE_INSTRUCTIONS,
+        eventFormat: EVENT_FORMAT,
+        filterTokenBalances: FILTER_TOKEN_BALANCES,
+        ...subscription.options
+      },
+      reconnect: {
+        enabled: RECONNECT_ENABLED,
+        maxAttempts: RECONNECT_MAX_ATTEMPTS,
+        baseDelayMs: RECONNECT_BASE_DELAY_MS,
+        maxDelayMs: RECONNECT_MAX_DELAY_MS,
+        heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+        pausedWaitMs: RECONNECT_PAUSED_WAIT_MS
+      },
+      renewal: {
+        leadMs: RENEW_LEAD_SECONDS * 1000,
+        retryBaseDelayMs: RENEW_RETRY_BASE_DELAY_MS,
+        retryMaxDelayMs: RENEW_RETRY_MAX_DELAY_MS,
+        graceMs: RENEW_GRACE_SECONDS * 1000,
+        fallbackAfterFailures: RENEW_FALLBACK_AFTER_FAILURES
+      },
+      limits: {
+        maxRenewals: MAX_RENEWALS,
+        maxSessionSeconds: MAX_SESSION_SECONDS,
+        maxPricePerSliceUsdc: MAX_PRICE_PER_SLICE_USDC
+      },
+      sharedBudget: walletBudget,
+      sessionStore: SESSION_FILE ? createSessionStore(sessionFileFor(subscription.name, shared)) : undefined,
+      ledger,
+      filter,
+      commitments
+    })
+    return { name: subscription.name, client, commitments }
+  })
 }
 
-function parseRenewMethod(value: string | undefined): RenewMethod {
-  return value === 'inband' ? 'inband' : 'http'
+function createWebhooks() {
+  const targets = parseWebhookTargets([
+    ...WEBHOOK_URLS.map((url) => ({
+      url,
+      events: WEBHOOK_EVENTS,
+      streams: WEBHOOK_STREAMS,
+      secret: WEBHOOK_SECRET,
+      batchSize: WEBHOOK_BATCH_SIZE,
+      batchIntervalMs: WEBHOOK_BATCH_INTERVAL_MS
+    })),
+    ...(WEBHOOK_FILE ? (JSON.parse(readFileSync(WEBHOOK_FILE, 'utf8')) as unknown[]) : [])
+  ])
+  if (!targets.length) return undefined
+  logInfo('client', 'webhook targets', { targets: targets.map(({ url, events }) => ({ url, events })) })
+  return createWebhookSink({
+    targets,
+    queueDir: WEBHOOK_QUEUE_DIR,
+    maxQueuedBatches: WEBHOOK_MAX_QUEUED_BATCHES,
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    retryBaseDelayMs: WEBHOOK_RETRY_BASE_DELAY_MS,
+    retryMaxDelayMs: WEBHOOK_RETRY_MAX_DELAY_MS
+  })
 }
 
-function parseSchemaVersion(schemaPath: string): X402SchemaVersion {
-  const rawPath = (() => {
-    if (!schemaPath.startsWith('http://') && !schemaPath.startsWith('https://')) {
-      return schemaPath
-    }
-    try {
-      return new URL(schemaPath).pathname
-    } catch {
-      return schemaPath
+function startHealthMonitor(client: AtomicStreamClient | ReplaySource, logScope: string | undefined) {
+  const live = client instanceof AtomicStreamClient ? client : undefined
+  const monitor = createHealthMonitor(client, {
+    logScope,
+    maxSlotLag: HEALTH_MAX_SLOT_LAG,
+    degradedGapMs: HEALTH_DEGRADED_GAP_SECONDS * 1000,
+    stalledGapMs: HEALTH_STALLED_GAP_SECONDS * 1000,
+    statusStaleMs: HEALTH_STATUS_STALE_SECONDS * 1000,
+    upstreamDownMs: HEALTH_UPSTREAM_DOWN_SECONDS * 1000,
+    onUpstreamDown: () => {
+      if (HEALTH_UPSTREAM_DOWN_ACTION === 'reconnect') live?.reconnect()
+      if (HEALTH_UPSTREAM_DOWN_ACTION === 'pause') live?.setRenewalsPaused(true)
+    },
+    onUpstreamRecovered: () => {
+      if (HEALTH_UPSTREAM_DOWN_ACTION === 'pause') live?.setRenewalsPaused(false)
     }
-  })()
-  const match = rawPath.match(/^\/(v1|v2)\//)
-  return match ? (match[1] as X402SchemaVersion) : 'v1'
-}
-
-function parseList(value: string | undefined): string[] {
-  if (!value) return []
-  return value
-    .split(',')
-    .map((item) => item.trim())
-    .filter(Boolean)
-}
-
-function parseBoolean(value: string | undefined, fallback: boolean): boolean {
-  if (value === undefined) return fallback
-  const normalized = value.toLowerCase()
-  if (normalized === 'true') return true
-  if (normalized === 'false') return false
-  return fallback
-}
-
-function parseEventFormat(value: string | undefined): EventFormat | undefined {
-  if (!value) return undefined
-  const normalized = value.toLowerCase()
-  return normalized === 'raw' || normalized === 'enhanced' ? normalized : undefined
-}
+  })
 
-function parseTxLogMode(value: string | undefined): TxLogMode {
-  if (!value) return 'full'
-  const normalized = value.toLowerCase()
-  if (normalized === 'full' || normalized === 'summary') {
-    return normalized
+  // The client only asks for status on connect; poll so upstream changes are noticed
+  if (live && HEALTH_STATUS_POLL_SECONDS > 0) {
+    const poll = setInterval(() => live.getState(), HEALTH_STATUS_POLL_SECONDS * 1000)
+    poll.unref()
+    live.once('stopped', () => clearInterval(poll))
   }
-  return 'full'
-}
-
-// =============================================================================
-// Type Guards
-// =============================================================================
-
-function isWsStatusEvent(value: unknown): value is WsStatusEvent {
-  if (!isRecord(value)) return false
-  return value.type === 'status' && typeof value.now === 'string'
-}
-
-function isWsTransactionEvent(value: unknown): value is WsTransactionEvent {
-  if (!isRecord(value)) return false
-  return value.type === 'transaction' && typeof value.signature === 'string'
-}
-
-function isWsAccountEvent(value: unknown): value is WsAccountEvent {
-  if (!isRecord(value)) return false
-  return value.type === 'account' && typeof value.pubkey === 'string'
-}
-
-function isWsSlotEvent(value: unknown): value is WsSlotEvent {
-  if (!isRecord(value)) return false
-  return value.type === 'slot' && typeof value.slot === 'number'
-}
-
-function isWsTickerEvent(value: unknown): value is WsTickerEvent {
-  if (!isRecord(value)) return false
-  return value.type === 'ticker' && typeof value.baseMint === 'string'
-}
-
-function isWsLeaderboardEvent(value: unknown): value is WsLeaderboardEvent {
-  if (!isRecord(value)) return false
-  return value.type === 'leaderboard' && Array.isArray(value.items)
-}
-
-function isEnhancedTransactionEvent(value: WsTransactionEvent): value is EnhancedTransactionEvent {
-  return 'nativeTransfers' in value
-}
-
-function isWsX402Event(value: unknown): value is WsX402Event {
-  if (!isRecord(value)) return false
-  if (typeof value.op !== 'string') return false
-  return ['hello', 'renewal_reminder', 'payment_required', 'renewed', 'error'].includes(value.op)
-}
-
-function isRenewResponse(value: unknown): value is RenewResponse {
-  if (!isRecord(value)) return false
-  return typeof value.token === 'string' && typeof value.expiresAt === 'string' && typeof value.sliceSeconds === 'number'
-}
-
-function isString(value: unknown): value is string {
-  return typeof value === 'string'
-}
-
-function isNumber(value: unknown): value is number {
-  return typeof value === 'number' && Number.isFinite(value)
+  return monitor
 }
 
-function isWs402StreamSchema(value: unknown): value is Ws402StreamSchema {
-  if (!isRecord(value)) return false
-  if (value.protocol !== 'ws402') return false
-  if (value.version !== '1') return false
-  if (!isString(value.websocketEndpoint)) return false
-  if (!isRecord(value.pricing) || !isRecord(value.paymentDetails)) return false
-
-  const pricing = value.pricing as Record<string, unknown>
-  if (
-    !isNumber(pricing.pricePerSecond) ||
-    !isString(pricing.currency) ||
-    !isNumber(pricing.estimatedDuration)
-  ) {
-    return false
-  }
-
-  const details = value.paymentDetails as Record<string, unknown>
-  if (
-    details.scheme !== 'exact' ||
-    !isString(details.network) ||
-    !isString(details.asset) ||
-    !isString(details.payTo) ||
-    !isString(details.maxAmountRequired) ||
-    !isNumber(details.maxTimeoutSeconds)
-  ) {
-    return false
-  }
-
-  if (!isRecord(value.stream)) return false
-  const stream = value.stream as Record<string, unknown>
-  return isString(stream.id) && isString(stream.title) && isString(stream.description)
-}
+function logStatusEvents(client: AtomicStreamClient | ReplaySource, scope: string) {
+  client.on('status', (event) => {
+    logInfo(scope, 'status', summarizeStatus(event))
+  })
 
-function isPaymentRequired(value: unknown): value is { accepts: unknown[] } {
-  if (!isRecord(value)) return false
-  return Array.isArray(value.accepts) && value.accepts.length > 0
+  client.on('serverError', (event) => {
+    logWarn(scope, 'server error', { message: event.message })
+  })
 }
 
-// =============================================================================
-// Transaction Summarizers
-// =============================================================================
+// With an output format set, these events go to stdout through the output writer instead
+function logDataEvents(client: AtomicStreamClient | ReplaySource, scope: string) {
+  client.on('transaction', (event) => {
+    if (TX_LOG_MODE === 'full') {
+      logInfo(scope, 'transaction', { event })
+      return
+    }
+    const summary = isEnhancedTransactionEvent(event) ? summarizeEnhancedTransaction(event) : summarizeRawTransaction(event)
+    logInfo(scope, 'transaction', summary)
+  })
 
-function summarizeRawTransaction(event: RawTransactionEvent): UnknownRecord {
-  const mints = new Set<string>()
-  for (const change of event.tokenBalanceChanges ?? []) {
-    if (change.mint) mints.add(change.mint)
-  }
-  return {
-    signature: event.signature,
-    slot: event.slot,
-    commitment: event.commitment,
-    tokenBalanceChanges: event.tokenBalanceChanges?.length ?? 0,
-    mints: [...mints].slice(0, 5)
-  }
-}
+  client.on('transactionPromoted', (event) => {
+    logInfo(scope, 'transaction confirmed', { signature: event.signature, slot: event.slot })
+  })
 
-function summarizeEnhancedTransaction(event: EnhancedTransactionEvent): UnknownRecord {
-  const mints = new Set<string>()
-  for (const transfer of event.tokenTransfers) {
-    if (transfer.mint) mints.add(transfer.mint)
-  }
-  for (const change of event.accountData) {
-    for (const tokenChange of change.tokenBalanceChanges) {
-      if (tokenChange.mint) mints.add(tokenChange.mint)
-    }
-  }
-  return {
-    signature: event.signature,
-    slot: event.slot,
-    commitment: event.commitment,
-    tokenTransfers: event.tokenTransfers.length,
-    mints: [...mints].slice(0, 5)
-  }
-}
+  client.on('transactionDropped', (dropped) => {
+    logWarn(scope, 'transaction dropped', dropped)
+  })
 
-// =============================================================================
-// URL Helpers
-// =============================================================================
+  client.on('account', (event) => {
+    logInfo(scope, 'account', summarizeAccount(event))
+  })
 
-function parseTokenFromWsUrl(wsUrl: string): string {
-  try {
-    const parsed = new URL(wsUrl)
-    return parsed.searchParams.get('t') ?? ''
-  } catch {
-    return ''
-  }
-}
+  client.on('slot', (event) => {
+    logInfo(scope, 'slot', summarizeSlot(event))
+  })
 
-function buildRenewUrl(httpBase: string, streamId: string, version: X402SchemaVersion): string {
-  return new URL(`/${version}/renew/stream/${streamId}`, httpBase).toString()
-}
+  client.on('ticker', (event) => {
+    logInfo(scope, 'ticker', summarizeTicker(event))
+  })
 
-// =============================================================================
-// Client Setup
-// =============================================================================
+  client.on('candle', (candle) => {
+    logInfo(scope, 'candle', summarizeCandle(candle))
+  })
 
-async function createClient() {
-  if (!SVM_PRIVATE_KEY) {
-    throw new Error('Missing SVM_PRIVATE_KEY environment variable')
-  }
+  client.on('leaderboard', (event) => {
+    logInfo(scope, 'leaderboard', summarizeLeaderboard(event))
+  })
 
-  const signer = await createKeyPairSignerFromBytes(bs58.decode(SVM_PRIVATE_KEY))
-  const client = new x402Client()
-  const schemeV1 = new ExactSvmSchemeV1(signer)
-  const schemeV2 = new ExactSvmScheme(signer)
-  const v2Networks = [SOLANA_MAINNET_CAIP2, SOLANA_DEVNET_CAIP2, SOLANA_TESTNET_CAIP2] as const
-  const v1Networks = new Set<string>(['solana', 'solana-devnet', 'solana-testnet', ...v2Networks])
-  for (const network of v1Networks) {
-    client.registerV1(network, schemeV1)
-  }
-  for (const network of v2Networks) {
-    client.register(network, schemeV2)
-  }
-  logInfo('client', 'svm signer ready')
-  return client
-}
+  client.on('leaderboardChange', (change) => {
+    logInfo(scope, 'leaderboard change', summarizeLeaderboardChange(change))
+  })
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms))
-}
+  client.on('mint', (event) => {
+    logInfo(scope, 'new mint', summarizeMint(event))
+  })
 
-// =============================================================================
-// x402 Schema & Renewal
-// =============================================================================
+  client.on('whaleAlert', (event) => {
+    logInfo(scope, 'whale alert', summarizeWhaleAlert(event))
+  })
 
-async function requestWs402Schema(
-  fetchWithPayment: typeof fetch,
-  httpBase: string
-): Promise<{ wsUrl: string; token: string; streamId: string }> {
-  const url = new URL(X402_SCHEMA_PATH, httpBase).toString()
-  logInfo('client', 'requesting x402 schema', { url })
-  const resp = await fetchWithPayment(url, { method: 'GET' })
-  if (!resp.ok) throw new Error(`x402 schema failed: ${resp.status}`)
-  const data = await resp.json()
-  if (!isWs402StreamSchema(data)) {
-    throw new Error('x402 schema response shape invalid')
-  }
-  const wsUrl = data.websocketEndpoint
-  const token = parseTokenFromWsUrl(wsUrl)
-  if (!token) {
-    throw new Error('x402 schema missing token')
-  }
-  logInfo('client', 'x402 schema acquired', { wsUrl, streamId: data.stream.id })
-  return { wsUrl, token, streamId: data.stream.id }
-}
+  client.on('rugAlert', (event) => {
+    logInfo(scope, 'rug alert', summarizeRugAlert(event))
+  })
 
-async function httpRenew(
-  fetchWithPayment: typeof fetch,
-  renewUrl: string,
-  oldToken: string
-): Promise<RenewResponse> {
-  logInfo('client', 'requesting http renew', { url: renewUrl })
-  const resp = await fetchWithPayment(renewUrl, {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({ token: oldToken })
+  client.on('swap', (event) => {
+    logInfo(scope, 'swap', summarizeSwap(event))
   })
-  if (!resp.ok) throw new Error(`renew failed: ${resp.status}`)
-  const data = await resp.json()
-  if (!isRenewResponse(data)) {
-    throw new Error('renew response shape invalid')
-  }
-  logInfo('client', 'http renew ok', { expiresAt: data.expiresAt, sliceSeconds: data.sliceSeconds })
-  return data
-}
 
-async function inbandRenewChallenge(renewUrl: string, oldToken: string, httpClient: x402HTTPClient) {
-  const resp = await fetch(renewUrl, {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({ token: oldToken })
+  client.on('liquidity', (event) => {
+    logInfo(scope, 'liquidity', summarizeLiquidity(event))
   })
 
-  if (resp.status !== 402) throw new Error(`expected 402 challenge, got ${resp.status}`)
+  client.on('tokenExtension', (event) => {
+    logInfo(scope, 'token extension', summarizeTokenExtension(event))
+  })
 
-  const decoded = await resp.json().catch(() => undefined)
-  const paymentRequired = httpClient.getPaymentRequiredResponse((name) => resp.headers.get(name), decoded)
-  if (!isPaymentRequired(paymentRequired)) {
-    throw new Error('payment-required response shape invalid')
-  }
-  logInfo('client', 'received inband challenge', { accepts: paymentRequired.accepts.length })
-  return paymentRequired
+  client.on('alert', (alert) => {
+    logWarn(scope, 'alert', summarizeAlert(alert))
+  })
 }
 
 // =============================================================================
@@ -586,157 +494,199 @@ async function inbandRenewChallenge(renewUrl: string, oldToken: string, httpClie
 // =============================================================================
 
 async function main() {
-  logInfo('client', 'starting', { httpBase: HTTP_BASE, renewMethod: RENEW_METHOD, schemaPath: X402_SCHEMA_PATH })
-  const client = await createClient()
-  const fetchWithPayment = wrapFetchWithPayment(fetch, client)
-  const httpClient = new x402HTTPClient(client)
-  const schemaVersion = parseSchemaVersion(X402_SCHEMA_PATH)
-
-  const schema = await requestWs402Schema(fetchWithPayment, HTTP_BASE)
-  let currentToken = schema.token
-  const renewUrl = buildRenewUrl(HTTP_BASE, schema.streamId, schemaVersion)
-
-  logInfo('client', 'connecting websocket', { wsUrl: schema.wsUrl, streamId: schema.streamId })
-  const ws = new WebSocket(schema.wsUrl)
-
-  ws.on('open', () => {
-    logInfo('client', 'ws open')
-    logInfo('client', 'setting options', {
-      includeAccounts: INCLUDE_ACCOUNTS,
-      includeTokenBalanceChanges: INCLUDE_TOKEN_BALANCE_CHANGES,
-      includeLogs: INCLUDE_LOGS,
-      includeInstructions: INCLUDE_INSTRUCTIONS,
-      eventFormat: EVENT_FORMAT,
-      filterTokenBalances: FILTER_TOKEN_BALANCES
+  if (DASHBOARD && OUTPUT_FORMAT !== 'log') throw new Error('DASHBOARD and OUTPUT_FORMAT both draw on stdout; set only one of them')
+  if (OUTPUT_FORMAT !== 'log') setLogDestination('stderr')
+  const outputEvents = parseOutputEvents(OUTPUT_EVENTS)
+  const csvColumns = parseCsvColumns(CSV_COLUMNS)
+  const filter = createFilter()
+  const streams = await createStreams(filter)
+  // Log lines carry the stream name only when there is more than one to tell apart
+  const tagged = streams.length > 1
+  const output = OUTPUT_FORMAT === 'log' ? undefined : createOutputWriter({ format: OUTPUT_FORMAT, events: outputEvents, csvColumns, tagged })
+
+  const reportFilterDrops = () => {
+    if (filter.size) logInfo('client', 'filter drops', { rules: filter.stats() })
+  }
+  if (filter.size && FILTER_REPORT_INTERVAL_SECONDS > 0) {
+    setInterval(reportFilterDrops, FILTER_REPORT_INTERVAL_SECONDS * 1000).unref()
+  }
+
+  const monitored = streams.map((stream) => ({
+    ...stream,
+    health: HEALTH_MONITOR ? startHealthMonitor(stream.client, tagged ? `health:${stream.name}` : undefined) : undefined
+  }))
+
+  const metrics =
+    METRICS_PORT > 0
+      ? await startMetricsServer({
+          port: METRICS_PORT,
+          host: METRICS_HOST,
+          streams: monitored.map(({ name, client, health }) => ({
+            name,
+            source: client,
+            client: client instanceof AtomicStreamClient ? client : undefined,
+            health
+          })),
+          filter
+        })
+      : undefined
+
+  const recorders = streams.map(({ name, client }) => {
+    if (!RECORD_DIR) return undefined
+    const recorder = createRecorder({
+      dir: RECORD_DIR,
+      prefix: name,
+      maxBytes: RECORD_MAX_BYTES,
+      maxAgeMs: RECORD_MAX_AGE_SECONDS * 1000,
+      gzip: RECORD_GZIP
     })
-    ws.send(
-      JSON.stringify({
-        op: 'setOptions',
-        includeAccounts: INCLUDE_ACCOUNTS,
-        includeTokenBalanceChanges: INCLUDE_TOKEN_BALANCE_CHANGES,
-        includeLogs: INCLUDE_LOGS,
-        includeInstructions: INCLUDE_INSTRUCTIONS,
-        eventFormat: EVENT_FORMAT,
-        filterTokenBalances: FILTER_TOKEN_BALANCES
-      })
-    )
-    if (WATCH_ACCOUNTS.length) {
-      logInfo('client', 'setting watch accounts', { count: WATCH_ACCOUNTS.length })
-      ws.send(JSON.stringify({ op: 'setAccounts', accounts: WATCH_ACCOUNTS }))
-    }
-    if (WATCH_PROGRAMS.length) {
-      logInfo('client', 'setting watch programs', { count: WATCH_PROGRAMS.length })
-      ws.send(JSON.stringify({ op: 'setPrograms', programs: WATCH_PROGRAMS }))
-    }
-    if (!WATCH_ACCOUNTS.length && !WATCH_PROGRAMS.length) {
-      logWarn('client', 'no watchlists configured (WATCH_ACCOUNTS/WATCH_PROGRAMS empty)')
-    }
-    ws.send(JSON.stringify({ op: 'getState' }))
+    client.on('message', (message) => recorder.write(message))
+    return recorder
   })
 
-  ws.on('message', async (buf) => {
-    const decoded = safeJsonParse(buf.toString('utf8'))
-    if (isWsStatusEvent(decoded)) {
-      logInfo('client', 'status', {
-        clientId: decoded.clientId,
-        grpcConnected: decoded.grpcConnected,
-        nodeHealthy: decoded.nodeHealthy,
-        watchedAccounts: decoded.watchedAccounts,
-        watchedMints: decoded.watchedMints
-      })
-      return
-    }
-
-    if (isWsTransactionEvent(decoded)) {
-      if (TX_LOG_MODE === 'full') {
-        logInfo('client', 'transaction', { event: decoded })
-        return
-      }
-      const summary = isEnhancedTransactionEvent(decoded)
-        ? summarizeEnhancedTransaction(decoded)
-        : summarizeRawTransaction(decoded)
-      logInfo('client', 'transaction', summary)
-      return
-    }
-
-    if (isWsAccountEvent(decoded)) {
-      logInfo('client', 'account', {
-        pubkey: decoded.pubkey,
-        owner: decoded.owner,
-        slot: decoded.slot,
-        encoding: decoded.dataEncoding
-      })
-      return
+  // Candles are emitted on each stream's source, so logs and webhooks take them like any other event
+  const candleIntervals = parseCandleIntervals(CANDLE_INTERVALS)
+  if (candleIntervals.length) {
+    for (const { client } of streams) {
+      createCandleAggregator({ intervals: candleIntervals, perDex: CANDLE_PER_DEX, rollingWindow: CANDLE_ROLLING_WINDOW }).attach(client)
     }
+  }
 
-    if (isWsSlotEvent(decoded)) {
-      logInfo('client', 'slot', { slot: decoded.slot, parent: decoded.parent, status: decoded.status })
-      return
+  // Rank changes are emitted the same way; the trackers are kept to summarize the session on stop
+  const leaderboards = new Map<string, LeaderboardTracker>()
+  if (TRACK_LEADERBOARD) {
+    for (const { name, client } of streams) {
+      const tracker = createLeaderboardTracker({ historyLength: LEADERBOARD_HISTORY })
+      tracker.attach(client)
+      leaderboards.set(name, tracker)
     }
+  }
 
-    if (isWsTickerEvent(decoded)) {
-      logInfo('client', 'ticker', {
-        baseMint: decoded.baseMint,
-        quoteMint: decoded.quoteMint,
-        price: decoded.price,
-        dex: decoded.dex,
-        slot: decoded.slot
-      })
-      return
+  // Each stream evaluates the rules against its own events
+  const alertRules = loadAlertRules()
+  const alertEngines = new Map<string, AlertEngine>()
+  if (alertRules.length) {
+    for (const { name, client } of streams) {
+      const engine = createAlertEngine(alertRules)
+      engine.attach(client)
+      alertEngines.set(name, engine)
     }
+  }
 
-    if (isWsLeaderboardEvent(decoded)) {
-      logInfo('client', 'leaderboard', { items: decoded.items.length, asOf: decoded.asOf })
-      return
-    }
+  const webhooks = createWebhooks()
+  for (const { name, client } of streams) webhooks?.attach(client, name)
+
+  // Started before the stopped handlers below, so it has restored the terminal by the time they log
+  if (DASHBOARD && !process.stdout.isTTY) logWarn('client', 'stdout is not a terminal, logging instead of the dashboard')
+  const dashboard =
+    DASHBOARD && process.stdout.isTTY
+      ? startDashboard({
+          streams: monitored.map(({ name, client, health }) => ({
+            name,
+            source: client,
+            client: client instanceof AtomicStreamClient ? client : undefined,
+            health
+          })),
+          refreshMs: DASHBOARD_REFRESH_MS
+        })
+      : undefined
+
+  // Replays have no socket to send changes on
+  const controllable = streams.flatMap(({ name, client }): ControlStream[] =>
+    client instanceof AtomicStreamClient ? [{ name, client }] : []
+  )
+  const control =
+    controllable.length && (CONTROL_PORT > 0 || CONTROL_SOCKET)
+      ? await startControlServer({
+          port: CONTROL_PORT,
+          host: CONTROL_HOST,
+          socketPath: CONTROL_SOCKET,
+          token: CONTROL_TOKEN,
+          streams: controllable
+        })
+      : undefined
+  const watchlist = controllable.length && WATCHLIST_FILE ? await watchWatchlistFile(WATCHLIST_FILE, controllable) : undefined
+
+  // Each stream stops on its own (budget, reconnects exhausted); the process exits once all have
+  const stops: StopInfo[] = []
+  let startFailed = false
+  for (const { name, client, commitments } of streams) {
+    const scope = tagged ? `client:${name}` : 'client'
+    const leaderboard = leaderboards.get(name)
+    const alerts = alertEngines.get(name)
+    logStatusEvents(client, scope)
+    // The dashboard feed shows data events itself
+    if (output) output.attach(client, name)
+    else if (!dashboard) logDataEvents(client, scope)
+
+    client.on('stopped', (info) => {
+      const spend = client instanceof AtomicStreamClient ? client.getSpend() : {}
+      logInfo(scope, 'stopped', { ...info, ...spend })
+      if (commitments) logInfo(scope, 'commitment tracking', commitments.stats())
+      if (alerts) logInfo(scope, 'alert rules', { rules: alerts.stats() })
+      if (leaderboard) {
+        const leaders = leaderboard.leaders(LEADERBOARD_SUMMARY_TOP).map(({ mint, windowSeconds, peakRank, timeInTopMs }) => ({
+          mint,
+          windowSeconds,
+          peakRank,
+          secondsInTop: Math.round(timeInTopMs / 1000)
+        }))
+        if (leaders.length) logInfo(scope, `longest in top ${LEADERBOARD_SUMMARY_TOP}`, { leaders })
+      }
+      stops.push(info)
+      if (stops.length < streams.length) return
+
+      reportFilterDrops()
+      watchlist?.close()
+      const closeWebhooks = webhooks?.close().then(() => logInfo('client', 'webhook deliveries', { targets: webhooks.stats() }))
+      const exitCode = Math.max(startFailed ? 1 : 0, ...stops.map(exitCodeFor))
+      void Promise.all([...recorders.map((recorder) => recorder?.close()), metrics?.close(), control?.close(), closeWebhooks]).finally(() =>
+        process.exit(exitCode)
+      )
+    })
+  }
 
-    if (!isWsX402Event(decoded)) {
-      logWarn('client', 'ws event ignored: invalid shape')
-      return
-    }
+  const stopAll = () => Promise.all(streams.map(({ client }) => client.stop()))
 
-    logInfo('client', 'ws event', { op: decoded.op })
-
-    if (decoded.op === 'renewal_reminder' || decoded.op === 'payment_required') {
-      try {
-        if (RENEW_METHOD === 'http') {
-          const renewed = await httpRenew(fetchWithPayment, renewUrl, currentToken)
-          currentToken = renewed.token
-          logInfo('client', 'sending renew token')
-          ws.send(JSON.stringify({ op: 'renew_token', token: currentToken }))
-          return
-        }
-
-        const paymentRequired = await inbandRenewChallenge(renewUrl, currentToken, httpClient)
-        logInfo('client', 'creating inband payment payload')
-        const paymentPayload = await client.createPaymentPayload(paymentRequired)
-        const [selectedRequirements] = paymentRequired.accepts
-        if (!selectedRequirements) {
-          throw new Error('payment-required missing accepts')
-        }
-
-        ws.send(
-          JSON.stringify({
-            op: 'renew_inband',
-            paymentRequirements: selectedRequirements,
-            paymentPayload
-          })
-        )
-      } catch (err: unknown) {
-        const message = err instanceof Error ? err.message : String(err)
-        logWarn('client', 'renew error', { message })
-        await sleep(1000)
-      }
+  // The first signal stops cleanly through the stopped handlers above; a second one exits at once
+  let shuttingDown = false
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logWarn('client', 'second signal, exiting without cleanup', { signal })
+      process.exit(1)
     }
-  })
-
-  ws.on('close', (code, reason) => {
-    logInfo('client', 'ws closed', { code, reason: reason.toString() })
-  })
+    shuttingDown = true
+    logInfo('client', 'shutting down', { signal })
+    void stopAll()
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  // Stop cleanly when whatever reads the output goes away, e.g. `| head`
+  if (output) {
+    process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+      if (err.code !== 'EPIPE') throw err
+      if (shuttingDown) return
+      shuttingDown = true
+      logInfo('client', 'output closed, shutting down')
+      void stopAll()
+    })
+  }
 
-  ws.on('error', (err) => {
-    logWarn('client', 'ws error', { message: err.message })
+  // A stream that cannot buy its first slice takes the others down with it, as a single stream would
+  const started = await Promise.allSettled(streams.map(({ client }) => client.start()))
+  streams.forEach(({ name }, index) => {
+    const result = started[index]
+    if (result?.status !== 'rejected') return
+    const message = result.reason instanceof Error ? result.reason.message : String(result.reason)
+    logError('client', 'fatal error', { ...(tagged ? { stream: name } : {}), message })
+    startFailed = true
   })
+  if (startFailed) {
+    await stopAll()
+    // Normally a stopped handler above has already exited; this covers a stream that never emitted stopped
+    process.exit(1)
+  }
 }
 
 main().catch((err: unknown) => {
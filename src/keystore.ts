@@ -0,0 +1,268 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  scrypt,
+  type ScryptOptions
+} from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+import bs58 from 'bs58'
+
+import { isNumber, isRecord, isString, safeJsonParse } from './parse'
+
+// =============================================================================
+// Keypairs
+// =============================================================================
+
+/** Solana keypairs are the 32-byte ed25519 seed followed by the 32-byte public key. */
+export const KEYPAIR_LENGTH = 64
+
+// DER prefix of a PKCS#8 ed25519 private key; the 32-byte seed follows
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+
+function isByteArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((n) => Number.isInteger(n) && n >= 0 && n <= 255)
+}
+
+// solana-keygen writes a bare array; some wallets export an object around it
+function extractKeyBytes(data: unknown): number[] | undefined {
+  if (isByteArray(data)) return data
+  if (isRecord(data)) {
+    if (isByteArray(data.secretKey)) return data.secretKey
+    if (isByteArray(data.privateKey)) return data.privateKey
+    if (isByteArray(data.keypair)) return data.keypair
+  }
+  return undefined
+}
+
+function publicKeyFromSeed(seed: Uint8Array): Uint8Array {
+  const privateKey = createPrivateKey({ key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]), format: 'der', type: 'pkcs8' })
+  const { x } = createPublicKey(privateKey).export({ format: 'jwk' })
+  return Buffer.from(x ?? '', 'base64url')
+}
+
+/**
+ * Checks that the bytes are a well-formed 64-byte ed25519 keypair whose public
+ * half matches the seed, and returns its base58 address. Throws otherwise.
+ */
+export function validateKeypair(bytes: Uint8Array): string {
+  if (bytes.length !== KEYPAIR_LENGTH) {
+    throw new Error(`expected a ${KEYPAIR_LENGTH}-byte keypair, got ${bytes.length} bytes`)
+  }
+  const derived = publicKeyFromSeed(bytes.subarray(0, 32))
+  if (!Buffer.from(derived).equals(Buffer.from(bytes.subarray(32)))) {
+    throw new Error('public key does not match the private key')
+  }
+  return bs58.encode(derived)
+}
+
+/** A fresh keypair from the local CSPRNG; nothing leaves the machine. */
+export function generateKeypair(): Uint8Array {
+  const { privateKey } = generateKeyPairSync('ed25519')
+  const { d, x } = privateKey.export({ format: 'jwk' })
+  return Uint8Array.from([...Buffer.from(d ?? '', 'base64url'), ...Buffer.from(x ?? '', 'base64url')])
+}
+
+/** The keypair as the `[u8; 64]` JSON array that solana-keygen writes. */
+export function formatKeypairJson(bytes: Uint8Array): string {
+  return `${JSON.stringify([...bytes])}\n`
+}
+
+// =============================================================================
+// Keystore
+// =============================================================================
+
+/** Password-protected keypair: scrypt derives an AES-256-GCM key that encrypts the 64 key bytes. */
+export type Keystore = {
+  version: 1
+  /** Base58 public address, readable without the passphrase and bound to the ciphertext. */
+  address: string
+  kdf: 'scrypt'
+  kdfParams: { N: number; r: number; p: number; salt: string }
+  cipher: 'aes-256-gcm'
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+export type KeystoreOptions = {
+  /** scrypt cost; a power of two. */
+  N: number
+  r: number
+  p: number
+}
+
+// About a second and 128 MiB per derivation on a typical machine
+export const DEFAULT_KEYSTORE_OPTIONS: KeystoreOptions = { N: 2 ** 17, r: 8, p: 1 }
+
+// Refuse files asking for more work than this, so a crafted keystore cannot exhaust memory or hang the start
+const MAX_SCRYPT_N = 2 ** 20
+const MAX_SCRYPT_R = 32
+const MAX_SCRYPT_P = 16
+// scrypt needs 128 * N * r bytes; this is N at its maximum with the default r
+const MAX_SCRYPT_MEMORY = 128 * MAX_SCRYPT_N * 8
+
+function isHex(value: unknown): value is string {
+  return isString(value) && /^([0-9a-f]{2})+$/i.test(value)
+}
+
+export function isKeystore(value: unknown): value is Keystore {
+  return (
+    isRecord(value) &&
+    value.version === 1 &&
+    isString(value.address) &&
+    value.kdf === 'scrypt' &&
+    isRecord(value.kdfParams) &&
+    isNumber(value.kdfParams.N) &&
+    isNumber(value.kdfParams.r) &&
+    isNumber(value.kdfParams.p) &&
+    isHex(value.kdfParams.salt) &&
+    value.cipher === 'aes-256-gcm' &&
+    isHex(value.iv) &&
+    isHex(value.tag) &&
+    isHex(value.ciphertext)
+  )
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: KeystoreOptions): Promise<Buffer> {
+  const { N, r, p } = params
+  if (!Number.isInteger(Math.log2(N)) || N < 2 || N > MAX_SCRYPT_N) throw new Error(`unsupported scrypt N ${N}`)
+  if (!Number.isInteger(r) || r < 1 || r > MAX_SCRYPT_R) throw new Error(`unsupported scrypt r ${r}`)
+  if (!Number.isInteger(p) || p < 1 || p > MAX_SCRYPT_P) throw new Error(`unsupported scrypt p ${p}`)
+  if (128 * N * r > MAX_SCRYPT_MEMORY) throw new Error(`scrypt N ${N} with r ${r} needs more than ${MAX_SCRYPT_MEMORY / 2 ** 20} MiB`)
+  const options: ScryptOptions = { N, r, p, maxmem: 128 * N * r * 2 }
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFKC'), salt, 32, options, (err, key) => (err ? reject(err) : resolve(key)))
+  })
+}
+
+export async function encryptKeystore(
+  bytes: Uint8Array,
+  passphrase: string,
+  options: KeystoreOptions = DEFAULT_KEYSTORE_OPTIONS
+): Promise<Keystore> {
+  const address = validateKeypair(bytes)
+  const salt = randomBytes(32)
+  const iv = randomBytes(12)
+  const key = await deriveKey(passphrase, salt, options)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(Buffer.from(address, 'utf8'))
+  const ciphertext = Buffer.concat([cipher.update(bytes), cipher.final()])
+  return {
+    version: 1,
+    address,
+    kdf: 'scrypt',
+    kdfParams: { ...options, salt: salt.toString('hex') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex')
+  }
+}
+
+/** Returns the 64 key bytes. A wrong passphrase and a tampered file fail the same way. */
+export async function decryptKeystore(keystore: Keystore, passphrase: string): Promise<Uint8Array> {
+  const key = await deriveKey(passphrase, Buffer.from(keystore.kdfParams.salt, 'hex'), keystore.kdfParams)
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'hex'))
+  decipher.setAAD(Buffer.from(keystore.address, 'utf8'))
+  decipher.setAuthTag(Buffer.from(keystore.tag, 'hex'))
+  let bytes: Uint8Array
+  try {
+    bytes = Uint8Array.from(Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()]))
+  } catch {
+    throw new Error('wrong passphrase or corrupted keystore')
+  }
+  if (validateKeypair(bytes) !== keystore.address) throw new Error('keystore address does not match its key')
+  return bytes
+}
+
+// =============================================================================
+// Reading Keys
+// =============================================================================
+
+export type KeyFormat = 'base58' | 'json' | 'keystore'
+
+export type KeyMaterial = { format: 'base58' | 'json'; bytes: Uint8Array } | { format: 'keystore'; keystore: Keystore }
+
+/**
+ * Recognizes a key in any supported form: a keystore, a JSON byte array (or an
+ * object with `secretKey`/`privateKey`/`keypair`), or a base58 string.
+ */
+export function parseKeyMaterial(text: string): KeyMaterial {
+  const trimmed = text.trim()
+  const json = safeJsonParse(trimmed)
+  if (isKeystore(json)) return { format: 'keystore', keystore: json }
+  // Only objects and arrays count as JSON; a base58 key made only of digits also parses as a number
+  if (typeof json === 'object' && json !== null) {
+    const bytes = extractKeyBytes(json)
+    if (!bytes) throw new Error('expected a JSON array of byte values (0-255), an object with secretKey/privateKey/keypair, or a keystore')
+    return { format: 'json', bytes: Uint8Array.from(bytes) }
+  }
+  try {
+    return { format: 'base58', bytes: bs58.decode(trimmed) }
+  } catch {
+    throw new Error('not a base58 key, a JSON keypair or a keystore')
+  }
+}
+
+export function readKeystore(file: string): Keystore {
+  const material = parseKeyMaterial(readFileSync(file, 'utf8'))
+  if (material.format !== 'keystore') throw new Error(`${file} is not a keystore`)
+  return material.keystore
+}
+
+// =============================================================================
+// Passphrases
+// =============================================================================
+
+function promptHidden(prompt: string): Promise<string> {
+  const input = process.stdin
+  return new Promise((resolve, reject) => {
+    let value = ''
+    const finish = () => {
+      input.off('data', onData)
+      input.setRawMode(false)
+      input.pause()
+      process.stderr.write('\n')
+    }
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish()
+          resolve(value)
+          return
+        }
+        if (char === '\u0003' || char === '\u0004') {
+          finish()
+          reject(new Error('passphrase entry cancelled'))
+          return
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char
+      }
+    }
+    process.stderr.write(prompt)
+    input.setEncoding('utf8')
+    input.setRawMode(true)
+    input.resume()
+    input.on('data', onData)
+  })
+}
+
+/**
+ * Reads a passphrase from an already open file descriptor (e.g. `3<secret`)
+ * when one is given, otherwise prompts on the terminal without echoing. One
+ * trailing newline is dropped from descriptor input.
+ */
+export async function readPassphrase(options: { fd?: number; prompt: string }): Promise<string> {
+  if (options.fd !== undefined) {
+    return readFileSync(options.fd, 'utf8').replace(/\r?\n$/, '')
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error('no terminal to prompt for the passphrase; pass it on a file descriptor instead')
+  }
+  return promptHidden(options.prompt)
+}
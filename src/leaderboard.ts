@@ -0,0 +1,261 @@
+import type { AtomicStreamSource } from './events'
+import type { WsLeaderboardEvent } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LeaderboardChangeKind = 'entered' | 'exited' | 'rankUp' | 'rankDown'
+
+/** How one mint moved between two consecutive snapshots. Ranks are 1-based. */
+export type LeaderboardChange = {
+  kind: LeaderboardChangeKind
+  mint: string
+  windowSeconds: number
+  asOf: string
+  /** Null once the mint has exited. */
+  rank: number | null
+  /** Null when the mint has just entered. */
+  previousRank: number | null
+  volumeUsd: number | null
+  previousVolumeUsd: number | null
+  /** Volume now minus volume before, counting an absent side as 0. */
+  volumeDeltaUsd: number
+}
+
+export type LeaderboardHistoryPoint = { asOf: string; rank: number | null; volumeUsd: number | null }
+
+/** What the session has seen of one mint on one leaderboard window. */
+export type MintLeaderboardStats = {
+  mint: string
+  windowSeconds: number
+  rank: number | null
+  peakRank: number
+  peakVolumeUsd: number
+  firstSeenAt: string
+  lastSeenAt: string
+  /** Snapshots the mint was listed in. */
+  appearances: number
+  /** The most recent snapshots, oldest first, including the one it exited in. */
+  history: LeaderboardHistoryPoint[]
+}
+
+export type LeaderboardTrackerOptions = {
+  /** Snapshots of history kept per mint. */
+  historyLength: number
+  /** Mints remembered per window; the ones seen longest ago are forgotten first. */
+  maxMints: number
+}
+
+export const DEFAULT_LEADERBOARD_TRACKER_OPTIONS: LeaderboardTrackerOptions = {
+  historyLength: 60,
+  maxMints: 10_000
+}
+
+type MintState = {
+  mint: string
+  rank: number | null
+  volumeUsd: number | null
+  peakRank: number
+  peakVolumeUsd: number
+  firstSeenMs: number
+  lastSeenMs: number
+  appearances: number
+  history: LeaderboardHistoryPoint[]
+  /** Time held at each rank, in ms. */
+  msAtRank: Map<number, number>
+}
+
+type Board = {
+  windowSeconds: number
+  /** Null until the baseline snapshot. */
+  lastAsOfMs: number | null
+  /** Mints on the last snapshot, in rank order. */
+  listed: string[]
+  mints: Map<string, MintState>
+}
+
+// =============================================================================
+// Tracker
+// =============================================================================
+
+/**
+ * Diffs consecutive leaderboard snapshots into entered, exited, rank-up and
+ * rank-down changes, and keeps per-mint history for the session. Boards with
+ * different `windowSeconds` are tracked separately. The first snapshot of a
+ * board is the baseline and reports no changes. Snapshots that are not newer
+ * than the last one (a repeat after a reconnect) are ignored.
+ *
+ * Time at rank is credited to the rank a mint held from one snapshot to the
+ * next, capped at one `intervalSeconds`, so a gap in the stream doesn't count
+ * as time on the board.
+ */
+export function createLeaderboardTracker(options: Partial<LeaderboardTrackerOptions> = {}) {
+  const settings = { ...DEFAULT_LEADERBOARD_TRACKER_OPTIONS, ...options }
+  const boards = new Map<number, Board>()
+
+  function boardFor(windowSeconds: number): Board {
+    let board = boards.get(windowSeconds)
+    if (!board) {
+      board = { windowSeconds, lastAsOfMs: null, listed: [], mints: new Map() }
+      boards.set(windowSeconds, board)
+    }
+    return board
+  }
+
+  function record(state: MintState, point: LeaderboardHistoryPoint) {
+    state.history.push(point)
+    if (state.history.length > settings.historyLength) state.history.shift()
+  }
+
+  function forgetOldest(board: Board) {
+    if (board.mints.size <= settings.maxMints) return
+    const unlisted = [...board.mints.values()].filter((state) => state.rank === null).sort((a, b) => a.lastSeenMs - b.lastSeenMs)
+    for (const state of unlisted.slice(0, board.mints.size - settings.maxMints)) board.mints.delete(state.mint)
+  }
+
+  function toStats(board: Board, state: MintState): MintLeaderboardStats {
+    return {
+      mint: state.mint,
+      windowSeconds: board.windowSeconds,
+      rank: state.rank,
+      peakRank: state.peakRank,
+      peakVolumeUsd: state.peakVolumeUsd,
+      firstSeenAt: new Date(state.firstSeenMs).toISOString(),
+      lastSeenAt: new Date(state.lastSeenMs).toISOString(),
+      appearances: state.appearances,
+      history: [...state.history]
+    }
+  }
+
+  /** Time, in ms, that a mint has spent at rank `top` or better. */
+  function timeInTop(mint: string, top: number, windowSeconds?: number): number {
+    let total = 0
+    for (const board of boards.values()) {
+      if (windowSeconds !== undefined && board.windowSeconds !== windowSeconds) continue
+      for (const [rank, ms] of board.mints.get(mint)?.msAtRank ?? []) {
+        if (rank <= top) total += ms
+      }
+    }
+    return total
+  }
+
+  /** Applies a snapshot and returns what changed since the previous one, in rank order then exits. */
+  function update(event: WsLeaderboardEvent): LeaderboardChange[] {
+    const board = boardFor(event.windowSeconds)
+    const parsedMs = Date.parse(event.asOf)
+    const asOfMs = Number.isFinite(parsedMs) ? parsedMs : Date.now()
+    const lastAsOfMs = board.lastAsOfMs
+    if (lastAsOfMs !== null && asOfMs <= lastAsOfMs) return []
+
+    const baseline = lastAsOfMs === null
+    const heldMs = lastAsOfMs === null ? 0 : Math.min(asOfMs - lastAsOfMs, event.intervalSeconds * 1000)
+    const changes: LeaderboardChange[] = []
+    const change = (kind: LeaderboardChangeKind, state: MintState, rank: number | null, volumeUsd: number | null) => {
+      if (baseline) return
+      changes.push({
+        kind,
+        mint: state.mint,
+        windowSeconds: board.windowSeconds,
+        asOf: event.asOf,
+        rank,
+        previousRank: state.rank,
+        volumeUsd,
+        previousVolumeUsd: state.volumeUsd,
+        volumeDeltaUsd: (volumeUsd ?? 0) - (state.volumeUsd ?? 0)
+      })
+    }
+
+    for (const mint of board.listed) {
+      const state = board.mints.get(mint)
+      if (state?.rank) state.msAtRank.set(state.rank, (state.msAtRank.get(state.rank) ?? 0) + heldMs)
+    }
+
+    const listed: string[] = []
+    for (const item of event.items) {
+      // A mint listed twice keeps its better rank
+      if (listed.includes(item.mint)) continue
+      listed.push(item.mint)
+      const rank = listed.length
+      let state = board.mints.get(item.mint)
+      if (!state) {
+        state = {
+          mint: item.mint,
+          rank: null,
+          volumeUsd: null,
+          peakRank: rank,
+          peakVolumeUsd: item.volumeUsd,
+          firstSeenMs: asOfMs,
+          lastSeenMs: asOfMs,
+          appearances: 0,
+          history: [],
+          msAtRank: new Map()
+        }
+        board.mints.set(item.mint, state)
+      }
+      if (state.rank === null) change('entered', state, rank, item.volumeUsd)
+      else if (rank < state.rank) change('rankUp', state, rank, item.volumeUsd)
+      else if (rank > state.rank) change('rankDown', state, rank, item.volumeUsd)
+
+      state.rank = rank
+      state.volumeUsd = item.volumeUsd
+      state.peakRank = Math.min(state.peakRank, rank)
+      state.peakVolumeUsd = Math.max(state.peakVolumeUsd, item.volumeUsd)
+      state.lastSeenMs = asOfMs
+      state.appearances += 1
+      record(state, { asOf: event.asOf, rank, volumeUsd: item.volumeUsd })
+    }
+
+    const current = new Set(listed)
+    for (const mint of board.listed) {
+      const state = board.mints.get(mint)
+      if (!state || current.has(mint)) continue
+      change('exited', state, null, null)
+      state.rank = null
+      state.volumeUsd = null
+      record(state, { asOf: event.asOf, rank: null, volumeUsd: null })
+    }
+
+    board.listed = listed
+    board.lastAsOfMs = asOfMs
+    forgetOldest(board)
+    return changes
+  }
+
+  return {
+    update,
+    timeInTop,
+
+    /** Per-window stats for a mint, or an empty list if it was never listed. */
+    mintStats(mint: string): MintLeaderboardStats[] {
+      return [...boards.values()].flatMap((board) => {
+        const state = board.mints.get(mint)
+        return state ? [toStats(board, state)] : []
+      })
+    },
+
+    /** Mints that spent the longest at rank `top` or better, per window, longest first. */
+    leaders(top = 10, limit = 10): (MintLeaderboardStats & { timeInTopMs: number })[] {
+      return [...boards.values()].flatMap((board) =>
+        [...board.mints.values()]
+          .map((state) => ({ ...toStats(board, state), timeInTopMs: timeInTop(state.mint, top, board.windowSeconds) }))
+          .filter((stats) => stats.timeInTopMs > 0)
+          .sort((a, b) => b.timeInTopMs - a.timeInTopMs || a.peakRank - b.peakRank)
+          .slice(0, limit)
+      )
+    },
+
+    /**
+     * Diffs the source's leaderboard events and emits each change on the
+     * source as a `leaderboardChange` event, so logs, iterators and webhooks
+     * receive them like any other event.
+     */
+    attach(source: AtomicStreamSource) {
+      source.on('leaderboard', (event) => {
+        for (const item of update(event)) source.emit('leaderboardChange', item)
+      })
+    }
+  }
+}
+
+export type LeaderboardTracker = ReturnType<typeof createLeaderboardTracker>
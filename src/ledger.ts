@@ -0,0 +1,149 @@
+import { appendFileSync, mkdirSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+
+import { formatUsdc } from './budget'
+import { logWarn } from './log'
+import { isRecord, isString, safeJsonParse } from './parse'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a payment was made: the initial schema purchase or a renewal method. */
+export type PaymentKind = 'schema' | 'http' | 'inband'
+
+/** One line of the ledger file. */
+export type LedgerEntry = {
+  at: string
+  streamId: string
+  kind: PaymentKind
+  network: string
+  asset: string
+  payTo: string
+  /** Atomic units, as a decimal string. */
+  amountAtomic: string
+  amountUsdc: string
+  sliceSeconds: number | null
+  /** Token expiry after this payment, as reported by the server. */
+  expiresAt: string | null
+  /** Settlement transaction from the payment response header; inband renewals don't report one. */
+  transaction: string | null
+  payer: string | null
+}
+
+export type SpendTotals = { payments: number; amountAtomic: bigint; usdc: string }
+
+export type LedgerSummary = {
+  total: SpendTotals
+  first: string | null
+  last: string | null
+  byStream: Record<string, SpendTotals>
+  /** Keyed by UTC date, `YYYY-MM-DD`. */
+  byDay: Record<string, SpendTotals>
+  byKind: Partial<Record<PaymentKind, SpendTotals>>
+}
+
+// =============================================================================
+// Ledger File
+// =============================================================================
+
+/**
+ * Append-only JSONL record of payments that went through. Each entry is
+ * written synchronously as it happens, since payments are rare and the
+ * ledger is what spend is reconciled against. Payments that were signed but
+ * rejected (a failed renewal) are not recorded.
+ */
+export function createPaymentLedger(file: string) {
+  mkdirSync(path.dirname(file), { recursive: true })
+
+  return {
+    file,
+
+    append(entry: LedgerEntry) {
+      try {
+        appendFileSync(file, `${JSON.stringify(entry)}\n`, { mode: 0o600 })
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err)
+        logWarn('ledger', 'failed to record payment', { file, message, entry })
+      }
+    }
+  }
+}
+
+export type PaymentLedger = ReturnType<typeof createPaymentLedger>
+
+function isLedgerEntry(value: unknown): value is LedgerEntry {
+  return (
+    isRecord(value) &&
+    isString(value.at) &&
+    isString(value.streamId) &&
+    (value.kind === 'schema' || value.kind === 'http' || value.kind === 'inband') &&
+    isString(value.amountAtomic) &&
+    /^\d+$/.test(value.amountAtomic)
+  )
+}
+
+/** Reads every well-formed entry; malformed lines (e.g. a torn final write) are skipped. */
+export function readLedger(file: string): LedgerEntry[] {
+  return readFileSync(file, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map(safeJsonParse)
+    .filter(isLedgerEntry)
+}
+
+// =============================================================================
+// Reports
+// =============================================================================
+
+function emptyTotals(): SpendTotals {
+  return { payments: 0, amountAtomic: 0n, usdc: formatUsdc(0n) }
+}
+
+function add(totals: SpendTotals, amountAtomic: bigint) {
+  totals.payments += 1
+  totals.amountAtomic += amountAtomic
+  totals.usdc = formatUsdc(totals.amountAtomic)
+}
+
+/** Totals per stream, per UTC day and per payment kind, optionally limited to `[fromMs, toMs)`. */
+export function summarizeLedger(entries: LedgerEntry[], range: { fromMs?: number; toMs?: number } = {}): LedgerSummary {
+  const summary: LedgerSummary = { total: emptyTotals(), first: null, last: null, byStream: {}, byDay: {}, byKind: {} }
+  for (const entry of entries) {
+    const atMs = Date.parse(entry.at)
+    if (range.fromMs !== undefined && atMs < range.fromMs) continue
+    if (range.toMs !== undefined && atMs >= range.toMs) continue
+    const amount = BigInt(entry.amountAtomic)
+    add(summary.total, amount)
+    add((summary.byStream[entry.streamId] ??= emptyTotals()), amount)
+    add((summary.byDay[entry.at.slice(0, 10)] ??= emptyTotals()), amount)
+    add((summary.byKind[entry.kind] ??= emptyTotals()), amount)
+    if (!summary.first || entry.at < summary.first) summary.first = entry.at
+    if (!summary.last || entry.at > summary.last) summary.last = entry.at
+  }
+  return summary
+}
+
+function formatTable(title: string, rows: Record<string, SpendTotals>): string[] {
+  const keys = Object.keys(rows).sort()
+  if (!keys.length) return []
+  const width = Math.max(title.length, ...keys.map((key) => key.length))
+  const lines = [`${title.padEnd(width)}  ${'payments'.padStart(8)}  ${'usdc'.padStart(14)}`]
+  for (const key of keys) {
+    const totals = rows[key] as SpendTotals
+    lines.push(`${key.padEnd(width)}  ${String(totals.payments).padStart(8)}  ${totals.usdc.padStart(14)}`)
+  }
+  return [...lines, '']
+}
+
+/** Plain-text report of a summary, one table per breakdown. */
+export function formatLedgerReport(summary: LedgerSummary): string {
+  const range = summary.first ? `${summary.first} .. ${summary.last}` : 'no payments'
+  return [
+    `Payments: ${summary.total.payments}, total ${summary.total.usdc} USDC (${range})`,
+    '',
+    ...formatTable('stream', summary.byStream),
+    ...formatTable('day', summary.byDay),
+    ...formatTable('method', summary.byKind as Record<string, SpendTotals>)
+  ].join('\n')
+}
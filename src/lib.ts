@@ -0,0 +1,207 @@
+// Library entry point: import from here to embed the client in another service.
+// `index.ts` is the CLI built on top of these exports.
+
+export {
+  AtomicStreamClient,
+  DEFAULT_RECONNECT_OPTIONS,
+  DEFAULT_STREAM_OPTIONS,
+  type AtomicStreamClientConfig,
+  type ClientStats,
+  type ReconnectOptions,
+  type StreamOptions
+} from './client'
+export {
+  ITERABLE_EVENTS,
+  dispatchStreamEvent,
+  iterateEvents,
+  iterateStreamEvents,
+  type AtomicStreamEvent,
+  type AtomicStreamEventMap,
+  type AtomicStreamEventName,
+  type AtomicStreamSource,
+  type DispatchOptions,
+  type StopInfo,
+  type StopReason,
+  type TaggedStreamEvent
+} from './events'
+export {
+  DEFAULT_ALERT_ENGINE_OPTIONS,
+  createAlertEngine,
+  parseAlertRules,
+  type Alert,
+  type AlertDirection,
+  type AlertEngine,
+  type AlertEngineOptions,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertStats,
+  type AlertStep
+} from './alerts'
+export { createSpendBudget, type SharedSpendBudget, type SpendBudget, type SpendLimits } from './budget'
+export {
+  DEFAULT_CANDLE_OPTIONS,
+  createCandleAggregator,
+  parseCandleIntervals,
+  type Candle,
+  type CandleAggregator,
+  type CandleAggregatorOptions,
+  type CandleInterval
+} from './candles'
+export {
+  DEFAULT_COMMITMENT_TRACKER_OPTIONS,
+  createCommitmentTracker,
+  type CommitmentObservation,
+  type CommitmentTracker,
+  type CommitmentTrackerOptions,
+  type DroppedTransaction
+} from './commitment'
+export {
+  describeSubscription,
+  parseSubscriptionUpdate,
+  parseWatchlistFile,
+  startControlServer,
+  updateSubscription,
+  watchWatchlistFile,
+  type ControlServer,
+  type ControlServerOptions,
+  type ControlStream,
+  type SubscriptionResult,
+  type SubscriptionUpdate,
+  type WatchlistChange,
+  type WatchlistFileWatcher
+} from './control'
+export { startDashboard, type Dashboard, type DashboardOptions, type DashboardStream } from './dashboard'
+export {
+  SYSTEM_PROGRAM_ADDRESS,
+  createAccountDecoderRegistry,
+  createDefaultAccountDecoderRegistry,
+  layoutDecoder,
+  type AccountDecoder,
+  type AccountDecoderRegistry,
+  type AccountLayout,
+  type LayoutFieldType
+} from './decoders/registry'
+export {
+  FILTERABLE_EVENTS,
+  createEventFilter,
+  isFilterableEvent,
+  matchesFilterConditions,
+  parseFilterConditions,
+  parseFilterRules,
+  resolveFilterPath,
+  type EventFilter,
+  type FilterCondition,
+  type FilterRule,
+  type FilterStats,
+  type FilterableEventName
+} from './filter'
+export {
+  DEFAULT_HEALTH_THRESHOLDS,
+  createHealthMonitor,
+  type HealthMonitor,
+  type HealthMonitorOptions,
+  type HealthSnapshot,
+  type HealthState,
+  type HealthThresholds,
+  type HealthTransition
+} from './health'
+export {
+  DEFAULT_KEYSTORE_OPTIONS,
+  KEYPAIR_LENGTH,
+  decryptKeystore,
+  encryptKeystore,
+  formatKeypairJson,
+  generateKeypair,
+  isKeystore,
+  parseKeyMaterial,
+  readKeystore,
+  readPassphrase,
+  validateKeypair,
+  type KeyFormat,
+  type KeyMaterial,
+  type Keystore,
+  type KeystoreOptions
+} from './keystore'
+export {
+  DEFAULT_LEADERBOARD_TRACKER_OPTIONS,
+  createLeaderboardTracker,
+  type LeaderboardChange,
+  type LeaderboardChangeKind,
+  type LeaderboardHistoryPoint,
+  type LeaderboardTracker,
+  type LeaderboardTrackerOptions,
+  type MintLeaderboardStats
+} from './leaderboard'
+export {
+  createPaymentLedger,
+  formatLedgerReport,
+  readLedger,
+  summarizeLedger,
+  type LedgerEntry,
+  type LedgerSummary,
+  type PaymentKind,
+  type PaymentLedger,
+  type SpendTotals
+} from './ledger'
+export { startMetricsServer, type MetricsServer, type MetricsServerOptions, type MetricsStream } from './metrics'
+export {
+  DEFAULT_RENEWAL_POLICY,
+  createRenewalScheduler,
+  type RenewalOutcome,
+  type RenewalPolicy,
+  type RenewalScheduler,
+  type RenewalSchedulerOptions,
+  type RenewalTrigger
+} from './renewal'
+export {
+  createRemoteSigner,
+  type RemoteSignRequest,
+  type RemoteSignResponse,
+  type RemoteSignerOptions
+} from './remote-signer'
+export { ReplaySource, type ReplayOptions } from './replay'
+export { createSessionStore, type SavedSession, type SessionStore } from './session'
+export {
+  DEFAULT_ALLOWED_MINTS,
+  createSigningLimits,
+  inspectPaymentTransaction,
+  startSignerDaemon,
+  type PaymentIntent,
+  type SignerDaemon,
+  type SignerDaemonOptions,
+  type SigningLimits,
+  type SigningPolicy
+} from './signer-daemon'
+export { parseStreamOptions, parseStreamSubscriptions, streamNameFromPath, type StreamSubscription } from './streams'
+export {
+  DEFAULT_CSV_COLUMNS,
+  OUTPUT_EVENTS,
+  createOutputWriter,
+  formatPrettyValue,
+  isOutputEvent,
+  parseCsvColumns,
+  parseOutputEvents,
+  summarizeDataEvent,
+  type CsvColumns,
+  type OutputEventName,
+  type OutputWriter,
+  type OutputWriterOptions
+} from './output'
+export { createRecorder, type CaptureHeader, type Recorder, type RecorderOptions } from './recorder'
+export {
+  DEFAULT_WEBHOOK_OPTIONS,
+  createWebhookSink,
+  parseWebhookTargets,
+  signWebhookBody,
+  verifyWebhookSignature,
+  type WebhookBatch,
+  type WebhookEvent,
+  type WebhookSink,
+  type WebhookSinkOptions,
+  type WebhookTarget,
+  type WebhookTargetStats
+} from './webhook'
+export * from './guards'
+export * from './summarize'
+export type * from './types'
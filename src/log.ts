@@ -0,0 +1,67 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const levelOrder: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+}
+
+const configuredLevel = (process.env.LOG_LEVEL ?? 'info').toLowerCase() as LogLevel
+const minLevel = levelOrder[configuredLevel] ?? levelOrder.info
+
+/** Receives formatted log lines instead of the console, e.g. to show them inside a full-screen view. */
+export type LogSink = (line: string, level: LogLevel) => void
+
+let destination: 'stdout' | 'stderr' | LogSink = 'stdout'
+
+/** With `stderr`, every log line goes to stderr, leaving stdout to structured output. */
+export function setLogDestination(value: 'stdout' | 'stderr' | LogSink) {
+  destination = value
+}
+
+export function shouldLog(level: LogLevel): boolean {
+  return levelOrder[level] >= minLevel
+}
+
+export function formatMeta(meta?: Record<string, unknown>): string {
+  if (!meta) return ''
+  try {
+    return JSON.stringify(meta)
+  } catch {
+    return '"[unserializable]"'
+  }
+}
+
+export function log(level: LogLevel, scope: string, message: string, meta?: Record<string, unknown>) {
+  if (!shouldLog(level)) return
+  const ts = new Date().toISOString()
+  const metaText = formatMeta(meta)
+  const line = `[${ts}] [${scope}] [${level}] ${message}${metaText ? ` ${metaText}` : ''}`
+
+  if (typeof destination === 'function') {
+    destination(line, level)
+  } else if (level === 'error' || destination === 'stderr') {
+    console.error(line)
+  } else if (level === 'warn') {
+    console.warn(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export function logDebug(scope: string, message: string, meta?: Record<string, unknown>) {
+  log('debug', scope, message, meta)
+}
+
+export function logInfo(scope: string, message: string, meta?: Record<string, unknown>) {
+  log('info', scope, message, meta)
+}
+
+export function logWarn(scope: string, message: string, meta?: Record<string, unknown>) {
+  log('warn', scope, message, meta)
+}
+
+export function logError(scope: string, message: string, meta?: Record<string, unknown>) {
+  log('error', scope, message, meta)
+}
@@ -0,0 +1,276 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import type { AtomicStreamClient } from './client'
+import type { AtomicStreamSource } from './events'
+import type { EventFilter } from './filter'
+import type { HealthMonitor, HealthState } from './health'
+import { logInfo, logWarn } from './log'
+import { isRecord, isString } from './parse'
+import type { InboundMessage, WsStatusEvent } from './types'
+
+/** One stream to report on; every sample it contributes carries its name as the `stream` label. */
+export type MetricsStream = {
+  name: string
+  source: AtomicStreamSource
+  /** Live client for byte, reconnect, renewal and spend totals; omitted for replays. */
+  client?: AtomicStreamClient
+  health?: HealthMonitor
+}
+
+export type MetricsServerOptions = {
+  port: number
+  host?: string
+  streams: MetricsStream[]
+  filter?: EventFilter
+}
+
+export type MetricsServer = {
+  url: string
+  close(): Promise<void>
+}
+
+type Labels = Record<string, string>
+type Sample = [labels: Labels, value: number]
+
+const PREFIX = 'atomicstream'
+const HEALTH_STATES: HealthState[] = ['healthy', 'degraded', 'stalled']
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatMetric(name: string, type: 'counter' | 'gauge', help: string, samples: Sample[]): string {
+  const lines = [`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} ${type}`]
+  for (const [labels, value] of samples) {
+    const pairs = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+    lines.push(`${PREFIX}_${name}${pairs.length ? `{${pairs.join(',')}}` : ''} ${value}`)
+  }
+  return lines.join('\n')
+}
+
+// The `type` of data events or the `op` of x402 messages
+function messageKind(message: unknown): string {
+  if (!isRecord(message)) return 'unknown'
+  if (isString(message.type)) return message.type
+  if (isString(message.op)) return message.op
+  return 'unknown'
+}
+
+// Listens to one stream and keeps what its samples are rendered from
+function trackStream(stream: MetricsStream) {
+  const { source } = stream
+  const tracked = {
+    ...stream,
+    eventCounts: new Map<string, number>(),
+    unrecognized: 0,
+    connected: false,
+    stopped: false,
+    expiresAtMs: undefined as number | undefined,
+    status: undefined as WsStatusEvent | undefined
+  }
+
+  source.on('message', (record: InboundMessage) => {
+    const kind = messageKind(record.message)
+    tracked.eventCounts.set(kind, (tracked.eventCounts.get(kind) ?? 0) + 1)
+  })
+  source.on('unrecognized', () => {
+    tracked.unrecognized += 1
+  })
+  source.on('open', () => {
+    tracked.connected = true
+  })
+  source.on('close', () => {
+    tracked.connected = false
+  })
+  source.on('hello', (event) => {
+    tracked.expiresAtMs = Date.parse(event.expiresAt)
+  })
+  source.on('renewed', (event) => {
+    tracked.expiresAtMs = Date.parse(event.expiresAt)
+  })
+  source.on('status', (event) => {
+    tracked.status = event
+  })
+  source.once('stopped', () => {
+    tracked.stopped = true
+    tracked.connected = false
+  })
+  return tracked
+}
+
+/**
+ * Serves Prometheus text-format metrics on `/metrics` and a liveness check on
+ * `/healthz`. Event counters are fed from each source's `message` stream, so
+ * they count what arrived, including events a filter later dropped.
+ *
+ * `/healthz` answers 503 once any stream has stopped, is waiting for paused
+ * renewals with its token run out, or its health monitor (when given) reports
+ * stalled, and 200 otherwise.
+ */
+export async function startMetricsServer(options: MetricsServerOptions): Promise<MetricsServer> {
+  const { filter } = options
+  const streams = options.streams.map(trackStream)
+
+  // One sample per stream from `value`, skipping streams it returns undefined for
+  function perStream(value: (stream: (typeof streams)[number]) => number | undefined): Sample[] {
+    return streams.flatMap((stream): Sample[] => {
+      const sample = value(stream)
+      return sample === undefined ? [] : [[{ stream: stream.name }, sample]]
+    })
+  }
+
+  function render(): string {
+    const sections = [
+      formatMetric(
+        'events_total',
+        'counter',
+        'Inbound messages by event type or x402 op.',
+        streams.flatMap(({ name, eventCounts }) => [...eventCounts].map(([type, count]): Sample => [{ stream: name, type }, count]))
+      ),
+      formatMetric(
+        'unrecognized_messages_total',
+        'counter',
+        'Inbound messages matching no known shape.',
+        perStream((stream) => stream.unrecognized)
+      ),
+      formatMetric('connected', 'gauge', 'Whether the WebSocket is open.', perStream((stream) => (stream.connected ? 1 : 0)))
+    ]
+
+    const expiries = perStream(({ expiresAtMs }) =>
+      expiresAtMs !== undefined && Number.isFinite(expiresAtMs) ? Math.max(0, (expiresAtMs - Date.now()) / 1000) : undefined
+    )
+    if (expiries.length) {
+      sections.push(formatMetric('token_expiry_seconds', 'gauge', 'Seconds until the current slice expires.', expiries))
+    }
+
+    if (streams.some((stream) => stream.status)) {
+      sections.push(
+        formatMetric(
+          'upstream_grpc_connected',
+          'gauge',
+          'Upstream grpcConnected from the last status.',
+          perStream(({ status }) => (status ? (status.grpcConnected ? 1 : 0) : undefined))
+        ),
+        formatMetric(
+          'upstream_node_healthy',
+          'gauge',
+          'Upstream nodeHealthy from the last status.',
+          perStream(({ status }) => (status ? (status.nodeHealthy ? 1 : 0) : undefined))
+        )
+      )
+    }
+
+    const live = streams.flatMap(({ name, client }) => (client ? [{ name, stats: client.getStats(), spend: client.getSpend() }] : []))
+    if (live.length) {
+      const renewals: Sample[] = []
+      for (const { name, stats } of live) {
+        for (const [method, outcomes] of Object.entries(stats.renewals)) {
+          for (const [outcome, count] of Object.entries(outcomes)) {
+            renewals.push([{ stream: name, method, outcome }, count])
+          }
+        }
+      }
+      sections.push(
+        formatMetric(
+          'bytes_received_total',
+          'counter',
+          'WebSocket payload bytes received.',
+          live.map(({ name, stats }) => [{ stream: name }, stats.bytesReceived])
+        ),
+        formatMetric(
+          'reconnects_total',
+          'counter',
+          'WebSocket reconnects.',
+          live.map(({ name, stats }) => [{ stream: name }, stats.reconnects])
+        ),
+        formatMetric('renewals_total', 'counter', 'Slice renewals by method and outcome.', renewals),
+        formatMetric(
+          'payments_total',
+          'counter',
+          'x402 payments signed, including the initial purchase.',
+          live.map(({ name, spend }) => [{ stream: name }, spend.payments])
+        ),
+        formatMetric(
+          'usdc_spent_total',
+          'counter',
+          'USDC paid for stream slices, counting only payments the server accepted.',
+          live.map(({ name, spend }) => [{ stream: name }, Number(spend.settledUsdc)])
+        )
+      )
+    }
+
+    const monitored = streams.flatMap(({ name, health }) => (health ? [{ name, current: health.state }] : []))
+    if (monitored.length) {
+      sections.push(
+        formatMetric(
+          'health_state',
+          'gauge',
+          'Current stream health state (1 for the active state).',
+          monitored.flatMap(({ name, current }) => HEALTH_STATES.map((state): Sample => [{ stream: name, state }, state === current ? 1 : 0]))
+        )
+      )
+    }
+
+    if (filter?.size) {
+      sections.push(
+        formatMetric(
+          'filter_dropped_total',
+          'counter',
+          'Events dropped by each client-side filter rule.',
+          filter.stats().map(({ rule, dropped }) => [{ rule }, dropped])
+        )
+      )
+    }
+
+    return `${sections.join('\n')}\n`
+  }
+
+  function healthz() {
+    const details = streams.map(({ name, stopped, connected, health, client }) => ({
+      name,
+      ok: !stopped && health?.state !== 'stalled' && !client?.waitingForRenewals,
+      stopped,
+      connected,
+      waitingForRenewals: client?.waitingForRenewals ?? false,
+      health: health?.state ?? null
+    }))
+    return { ok: details.every((stream) => stream.ok), streams: details }
+  }
+
+  const server = http.createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0]
+    if (req.method === 'GET' && path === '/metrics') {
+      res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' })
+      res.end(render())
+      return
+    }
+    if (req.method === 'GET' && path === '/healthz') {
+      const { ok, streams: details } = healthz()
+      res.writeHead(ok ? 200 : 503, { 'content-type': 'application/json' })
+      res.end(JSON.stringify({ status: ok ? 'ok' : 'unavailable', streams: details }))
+      return
+    }
+    res.writeHead(404, { 'content-type': 'application/json' })
+    res.end(JSON.stringify({ error: 'not found' }))
+  })
+  // A bind error such as EADDRINUSE fails startup; errors after that are only logged
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port, options.host ?? '127.0.0.1', () => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+  server.on('error', (err) => logWarn('metrics', 'server error', { message: err.message }))
+  const { address, port } = server.address() as AddressInfo
+  const url = `http://${address}:${port}`
+  logInfo('metrics', 'listening', { url })
+
+  return {
+    url,
+    async close() {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+}
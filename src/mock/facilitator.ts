@@ -0,0 +1,63 @@
+import {
+  getBase64EncodedWireTransaction,
+  getPublicKeyFromAddress,
+  getSignatureFromTransaction,
+  partiallySignTransaction,
+  verifySignature,
+  type Address,
+  type KeyPairSigner
+} from '@solana/kit'
+import { x402Facilitator } from '@x402/core/facilitator'
+import type { Network } from '@x402/core/types'
+import { decodeTransactionFromPayload, type FacilitatorSvmSigner } from '@x402/svm'
+import { ExactSvmScheme } from '@x402/svm/exact/facilitator'
+import { ExactSvmSchemeV1 } from '@x402/svm/exact/v1/facilitator'
+
+/**
+ * Facilitator signer that never touches a cluster. It co-signs as fee payer
+ * and, in place of simulation, checks that every other signature on the
+ * transaction is a valid ed25519 signature over the message. Settlement
+ * returns the fee payer signature as the transaction reference.
+ */
+function createOfflineFacilitatorSigner(feePayer: KeyPairSigner): FacilitatorSvmSigner {
+  return {
+    getAddresses: () => [feePayer.address],
+
+    async signTransaction(transaction: string) {
+      const decoded = decodeTransactionFromPayload({ transaction })
+      const signed = await partiallySignTransaction([feePayer.keyPair], decoded)
+      return getBase64EncodedWireTransaction(signed)
+    },
+
+    async simulateTransaction(transaction: string) {
+      const decoded = decodeTransactionFromPayload({ transaction })
+      for (const [address, signature] of Object.entries(decoded.signatures)) {
+        if (!signature) throw new Error(`missing signature for ${address}`)
+        const publicKey = await getPublicKeyFromAddress(address as Address)
+        if (!(await verifySignature(publicKey, signature, decoded.messageBytes))) {
+          throw new Error(`invalid signature for ${address}`)
+        }
+      }
+    },
+
+    async sendTransaction(transaction: string) {
+      return getSignatureFromTransaction(decodeTransactionFromPayload({ transaction }))
+    },
+
+    async confirmTransaction() {
+      // Nothing to wait for offline
+    }
+  }
+}
+
+/**
+ * x402 facilitator for the mock server. Runs the real exact-SVM verification
+ * (instruction layout, mint, recipient ATA, amount) for both protocol versions,
+ * backed by the offline signer above.
+ */
+export function createFakeFacilitator(feePayer: KeyPairSigner, networks: { v1: string; v2: Network }) {
+  const signer = createOfflineFacilitatorSigner(feePayer)
+  return new x402Facilitator()
+    .register(networks.v2, new ExactSvmScheme(signer))
+    .registerV1(networks.v1 as Network, new ExactSvmSchemeV1(signer))
+}
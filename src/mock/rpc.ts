@@ -0,0 +1,69 @@
+import { randomBytes } from 'node:crypto'
+
+import { TOKEN_PROGRAM_ADDRESS } from '@x402/svm'
+import bs58 from 'bs58'
+
+import { isRecord } from '../parse'
+
+// SPL Token mint account layout: COption<Pubkey> mint authority, u64 supply,
+// u8 decimals, bool initialized, COption<Pubkey> freeze authority
+const MINT_ACCOUNT_SIZE = 82
+const MINT_DECIMALS_OFFSET = 44
+const MINT_INITIALIZED_OFFSET = 45
+
+const MOCK_SLOT = 300_000_000
+
+function encodeMintAccount(decimals: number): string {
+  const data = Buffer.alloc(MINT_ACCOUNT_SIZE)
+  data.writeUInt8(decimals, MINT_DECIMALS_OFFSET)
+  data.writeUInt8(1, MINT_INITIALIZED_OFFSET)
+  return data.toString('base64')
+}
+
+function rpcResult(id: unknown, result: unknown) {
+  return { jsonrpc: '2.0', id, result }
+}
+
+function rpcError(id: unknown, code: number, message: string) {
+  return { jsonrpc: '2.0', id, error: { code, message } }
+}
+
+/**
+ * Minimal Solana JSON-RPC stand-in covering the two calls the exact SVM scheme
+ * makes while building a payment: `getAccountInfo` for the asset mint and
+ * `getLatestBlockhash`. Unknown accounts resolve to null, like a real node.
+ */
+export function createMockRpcHandler(mints: Record<string, number>) {
+  return (request: unknown) => {
+    if (!isRecord(request)) return rpcError(null, -32600, 'invalid request')
+    const { id, method, params } = request
+    const args = Array.isArray(params) ? params : []
+    const context = { slot: MOCK_SLOT }
+
+    switch (method) {
+      case 'getAccountInfo': {
+        const address = typeof args[0] === 'string' ? args[0] : ''
+        const decimals = mints[address]
+        if (decimals === undefined) return rpcResult(id, { context, value: null })
+        return rpcResult(id, {
+          context,
+          value: {
+            data: [encodeMintAccount(decimals), 'base64'],
+            executable: false,
+            lamports: 1_461_600,
+            owner: TOKEN_PROGRAM_ADDRESS,
+            rentEpoch: 0,
+            space: MINT_ACCOUNT_SIZE
+          }
+        })
+      }
+      case 'getLatestBlockhash':
+        return rpcResult(id, {
+          context,
+          value: { blockhash: bs58.encode(randomBytes(32)), lastValidBlockHeight: MOCK_SLOT + 150 }
+        })
+      default:
+        return rpcError(id, -32601, `method not supported by mock rpc: ${String(method)}`)
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { randomBytes } from 'node:crypto'
+
+import bs58 from 'bs58'
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112'
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263'
+const RAYDIUM_AMM = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8'
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+const BASE_SLOT = 300_000_000
+
+function fakeSignature(): string {
+  return bs58.encode(randomBytes(64))
+}
+
+function fakeAddress(): string {
+  return bs58.encode(randomBytes(32))
+}
+
+function sampleTransaction(slot: number) {
+  const feePayer = fakeAddress()
+  const recipient = fakeAddress()
+  return {
+    type: 'transaction',
+    commitment: 'processed',
+    slot,
+    signature: fakeSignature(),
+    timestamp: null,
+    isVote: false,
+    index: 0,
+    err: null,
+    fee: 5000,
+    feePayer,
+    accounts: [feePayer, recipient, RAYDIUM_AMM],
+    nativeTransfers: [{ fromUserAccount: feePayer, toUserAccount: recipient, amount: 25_000_000 }],
+    tokenTransfers: [
+      {
+        fromTokenAccount: fakeAddress(),
+        toTokenAccount: fakeAddress(),
+        fromUserAccount: feePayer,
+        toUserAccount: recipient,
+        tokenAmount: 125.5,
+        mint: USDC_MINT,
+        tokenStandard: 'Fungible'
+      }
+    ],
+    accountData: [],
+    computeUnitsConsumed: 42_000
+  }
+}
+
+function sampleTicker(slot: number, price: number) {
+  return { type: 'ticker', baseMint: BONK_MINT, quoteMint: SOL_MINT, price, dex: 'raydium', slot, signature: fakeSignature() }
+}
+
+function sampleSlot(slot: number) {
+  return { type: 'slot', stream: 'infrastructure-pulse', slot, parent: slot - 1, status: 'confirmed', tps: 3200 }
+}
+
+function sampleLeaderboard() {
+  return {
+    type: 'leaderboard',
+    windowSeconds: 60,
+    intervalSeconds: 5,
+    asOf: new Date().toISOString(),
+    items: [
+      { mint: BONK_MINT, volumeUsd: 182_000 },
+      { mint: USDC_MINT, volumeUsd: 95_500 }
+    ]
+  }
+}
+
+function sampleAccount(slot: number) {
+  return {
+    type: 'account',
+    stream: 'account-data',
+    pubkey: fakeAddress(),
+    owner: TOKEN_PROGRAM,
+    lamports: '2039280',
+    executable: false,
+    rentEpoch: '18446744073709551615',
+    data: Buffer.alloc(165).toString('base64'),
+    dataEncoding: 'base64',
+    writeVersion: '1',
+    slot
+  }
+}
+
+function sampleMint(slot: number) {
+  return {
+    type: 'mint',
+    stream: 'new-mints',
+    slot,
+    signature: fakeSignature(),
+    mint: fakeAddress(),
+    tokenProgram: TOKEN_PROGRAM,
+    decimals: 6,
+    mintAuthority: fakeAddress(),
+    freezeAuthority: null,
+    creator: fakeAddress()
+  }
+}
+
+function sampleWhaleAlert(slot: number) {
+  return {
+    type: 'whale',
+    stream: 'whale-alert',
+    slot,
+    signature: fakeSignature(),
+    mint: null,
+    from: fakeAddress(),
+    to: fakeAddress(),
+    amount: 5_000,
+    amountUsd: 750_000
+  }
+}
+
+function sampleRugAlert(slot: number, i: number) {
+  return {
+    type: 'rug',
+    stream: 'rug-detection',
+    slot,
+    signature: fakeSignature(),
+    mint: BONK_MINT,
+    signal: i % 2 ? 'burn' : 'mint_authority_revoked',
+    ...(i % 2 ? { amount: '1000000000' } : { authority: fakeAddress() })
+  }
+}
+
+function sampleSwap(slot: number, i: number) {
+  return {
+    type: 'swap',
+    stream: 'sniper-feed',
+    slot,
+    signature: fakeSignature(),
+    pool: fakeAddress(),
+    dex: 'raydium',
+    trader: fakeAddress(),
+    side: i % 2 ? 'sell' : 'buy',
+    mint: BONK_MINT,
+    amountIn: 1.5,
+    amountOut: 712_000,
+    poolCreatedSlot: BASE_SLOT
+  }
+}
+
+function sampleLiquidity(slot: number, i: number) {
+  return {
+    type: 'liquidity',
+    stream: 'liquidity-changes',
+    slot,
+    signature: fakeSignature(),
+    pool: fakeAddress(),
+    dex: 'raydium',
+    action: i % 2 ? 'remove' : 'add',
+    provider: fakeAddress(),
+    baseMint: BONK_MINT,
+    quoteMint: SOL_MINT,
+    baseAmount: 10_000_000,
+    quoteAmount: 21
+  }
+}
+
+function sampleTokenExtension(slot: number) {
+  return {
+    type: 'extension',
+    stream: 'token2022-extensions',
+    slot,
+    signature: fakeSignature(),
+    mint: fakeAddress(),
+    extension: 'transferFeeConfig',
+    instruction: 'initializeTransferFeeConfig'
+  }
+}
+
+/**
+ * A short sample feed shaped for the requested stream, used when the mock
+ * server is started without an explicit event script.
+ */
+export function createDefaultScript(streamId: string): unknown[] {
+  const slots = [1, 2, 3, 4].map((offset) => BASE_SLOT + offset)
+  switch (streamId) {
+    case 'token-ticker':
+      return slots.map((slot, i) => sampleTicker(slot, 0.0000021 * (1 + i / 100)))
+    case 'infrastructure-pulse':
+      return slots.map(sampleSlot)
+    case 'trending-leaderboard':
+      return [sampleLeaderboard(), sampleLeaderboard()]
+    case 'account-data':
+    case 'wallet-balance':
+    case 'market-depth':
+      return slots.map(sampleAccount)
+    case 'new-mints':
+      return slots.map(sampleMint)
+    case 'whale-alert':
+      return slots.map(sampleWhaleAlert)
+    case 'rug-detection':
+      return slots.map(sampleRugAlert)
+    case 'sniper-feed':
+      return slots.map(sampleSwap)
+    case 'liquidity-changes':
+      return slots.map(sampleLiquidity)
+    case 'token2022-extensions':
+      return slots.map(sampleTokenExtension)
+    default:
+      return slots.map(sampleTransaction)
+  }
+}
@@ -0,0 +1,529 @@
+import { randomBytes, randomUUID } from 'node:crypto'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import WebSocket, { WebSocketServer } from 'ws'
+
+import { generateKeyPairSigner } from '@solana/kit'
+import {
+  decodePaymentSignatureHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader
+} from '@x402/core/http'
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from '@x402/core/types'
+import { SOLANA_DEVNET_CAIP2, USDC_DEVNET_ADDRESS } from '@x402/svm'
+
+import { USDC_DECIMALS } from '../budget'
+import { logInfo, logWarn } from '../log'
+import { isRecord, isString, safeJsonParse } from '../parse'
+import type { RenewHints, UnknownRecord, X402SchemaVersion } from '../types'
+import { createFakeFacilitator } from './facilitator'
+import { createMockRpcHandler } from './rpc'
+import { createDefaultScript } from './script'
+
+const V1_NETWORK = 'solana-devnet'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MockServerOptions = {
+  port?: number
+  host?: string
+  sliceSeconds?: number
+  /** USDC per second; the slice price is this times sliceSeconds. */
+  pricePerSecond?: number
+  /** How long before expiry `renewal_reminder` is sent. */
+  reminderLeadMs?: number
+  /** How long after `payment_required` the socket is closed if still unpaid. */
+  expiryGraceMs?: number
+  /** Data events sent in order after `hello`; defaults to a small sample feed. */
+  events?: unknown[]
+  eventIntervalMs?: number
+  loopEvents?: boolean
+}
+
+export type MockPaymentKind = 'schema' | 'http' | 'inband'
+
+export type MockPaymentRecord = {
+  kind: MockPaymentKind
+  streamId: string
+  amount: string
+  payer?: string
+  transaction: string
+  at: string
+}
+
+export type MockServer = {
+  httpBase: string
+  rpcUrl: string
+  payTo: string
+  /** Every settled payment, in order. */
+  payments: MockPaymentRecord[]
+  /** Sends a raw message to every open stream connection. */
+  broadcast(message: unknown): void
+  /** Terminates every stream connection without a close frame, as a network drop would. */
+  dropConnections(): void
+  /** Sets the `grpcConnected` that `status` reports and sends every open connection a fresh status. */
+  setUpstreamConnected(connected: boolean): void
+  close(): Promise<void>
+}
+
+type TokenRecord = { streamId: string; expiresAtMs: number }
+
+type Connection = {
+  ws: WebSocket
+  clientId: string
+  streamId: string
+  version: X402SchemaVersion
+  token: string
+  accounts: string[]
+  programs: string[]
+  timers: NodeJS.Timeout[]
+  scriptTimer?: NodeJS.Timeout
+}
+
+type PaymentOutcome = { ok: true; settle: SettleResponse } | { ok: false; reason: string }
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Local stand-in for the AtomicStream x402 API. Speaks the same schema,
+ * renewal and ws402 WebSocket protocol as production, settles payments through
+ * a fake facilitator, and serves the Solana RPC calls the client's payment
+ * scheme needs, so the whole paid flow can run offline.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const sliceSeconds = options.sliceSeconds ?? 300
+  const pricePerSecond = options.pricePerSecond ?? 0.0005
+  const reminderLeadMs = Math.min(options.reminderLeadMs ?? 30_000, (sliceSeconds * 1000) / 2)
+  const expiryGraceMs = options.expiryGraceMs ?? 10_000
+  const eventIntervalMs = options.eventIntervalMs ?? 1000
+  const amount = String(Math.round(pricePerSecond * sliceSeconds * 10 ** USDC_DECIMALS))
+  const priceHint = `$${(Number(amount) / 10 ** USDC_DECIMALS).toFixed(2)}`
+
+  const feePayer = await generateKeyPairSigner()
+  const payTo = (await generateKeyPairSigner()).address
+  const facilitator = createFakeFacilitator(feePayer, { v1: V1_NETWORK, v2: SOLANA_DEVNET_CAIP2 })
+  const handleRpc = createMockRpcHandler({ [USDC_DEVNET_ADDRESS]: USDC_DECIMALS })
+
+  const tokens = new Map<string, TokenRecord>()
+  const connections = new Set<Connection>()
+  const payments: MockPaymentRecord[] = []
+  let httpBase = ''
+  let slot = 300_000_000
+  let upstreamConnected = true
+
+  function issueToken(streamId: string, expiresAtMs: number): string {
+    const token = randomBytes(16).toString('hex')
+    tokens.set(token, { streamId, expiresAtMs })
+    return token
+  }
+
+  function renewUrl(version: X402SchemaVersion, streamId: string): string {
+    return new URL(`/${version}/renew/stream/${streamId}`, httpBase).toString()
+  }
+
+  function renewHints(version: X402SchemaVersion, streamId: string): RenewHints {
+    const endpoint = renewUrl(version, streamId)
+    return {
+      http: { endpoint, method: 'POST', priceHint },
+      inband: { challengeEndpoint: endpoint, method: 'POST', priceHint }
+    }
+  }
+
+  // ===========================================================================
+  // x402 Payments
+  // ===========================================================================
+
+  function requirementsFor(x402Version: number, resource: string): PaymentRequirements {
+    const extra = { feePayer: feePayer.address }
+    if (x402Version === 1) {
+      // v1 requirements carry maxAmountRequired and resource metadata inline
+      return {
+        scheme: 'exact',
+        network: V1_NETWORK,
+        maxAmountRequired: amount,
+        resource,
+        description: 'AtomicStream mock slice',
+        mimeType: 'application/json',
+        outputSchema: {},
+        payTo,
+        maxTimeoutSeconds: 60,
+        asset: USDC_DEVNET_ADDRESS,
+        extra
+      } as unknown as PaymentRequirements
+    }
+    return {
+      scheme: 'exact',
+      network: SOLANA_DEVNET_CAIP2,
+      asset: USDC_DEVNET_ADDRESS,
+      amount,
+      payTo,
+      maxTimeoutSeconds: 60,
+      extra
+    }
+  }
+
+  function paymentRequiredBody(version: X402SchemaVersion, resource: string, error?: string) {
+    if (version === 'v1') {
+      return { x402Version: 1, error, accepts: [requirementsFor(1, resource)] }
+    }
+    return {
+      x402Version: 2,
+      error,
+      resource: { url: resource, description: 'AtomicStream mock slice', mimeType: 'application/json' },
+      accepts: [requirementsFor(2, resource)]
+    }
+  }
+
+  function sendPaymentRequired(res: http.ServerResponse, version: X402SchemaVersion, resource: string, error?: string) {
+    const body = paymentRequiredBody(version, resource, error)
+    const headers: Record<string, string> = { 'content-type': 'application/json' }
+    if (version === 'v2') {
+      headers['PAYMENT-REQUIRED'] = encodePaymentRequiredHeader(body as Parameters<typeof encodePaymentRequiredHeader>[0])
+    }
+    res.writeHead(402, headers)
+    res.end(JSON.stringify(body))
+  }
+
+  async function settlePayment(
+    payload: PaymentPayload,
+    resource: string,
+    kind: MockPaymentKind,
+    streamId: string
+  ): Promise<PaymentOutcome> {
+    const requirements = requirementsFor(payload.x402Version, resource)
+    try {
+      const verified = await facilitator.verify(payload, requirements)
+      if (!verified.isValid) return { ok: false, reason: verified.invalidReason ?? 'invalid payment' }
+      const settle = await facilitator.settle(payload, requirements)
+      if (!settle.success) return { ok: false, reason: settle.errorReason ?? 'settlement failed' }
+      payments.push({ kind, streamId, amount, payer: settle.payer, transaction: settle.transaction, at: new Date().toISOString() })
+      logInfo('mock', 'payment settled', { kind, streamId, amount, payer: settle.payer })
+      return { ok: true, settle }
+    } catch (err: unknown) {
+      return { ok: false, reason: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  /** Returns the settlement when the request carried a valid payment, otherwise answers 402 itself. */
+  async function requirePayment(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    version: X402SchemaVersion,
+    kind: MockPaymentKind,
+    streamId: string
+  ): Promise<SettleResponse | undefined> {
+    const resource = new URL(req.url ?? '/', httpBase).toString()
+    const header = req.headers['payment-signature'] ?? req.headers['x-payment']
+    if (!isString(header)) {
+      sendPaymentRequired(res, version, resource)
+      return undefined
+    }
+    let payload: PaymentPayload
+    try {
+      payload = decodePaymentSignatureHeader(header)
+    } catch {
+      sendPaymentRequired(res, version, resource, 'malformed payment header')
+      return undefined
+    }
+    const outcome = await settlePayment(payload, resource, kind, streamId)
+    if (!outcome.ok) {
+      logWarn('mock', 'payment rejected', { kind, reason: outcome.reason })
+      sendPaymentRequired(res, version, resource, outcome.reason)
+      return undefined
+    }
+    return outcome.settle
+  }
+
+  // ===========================================================================
+  // HTTP Routes
+  // ===========================================================================
+
+  function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers })
+    res.end(JSON.stringify(body))
+  }
+
+  async function readJson(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+    return safeJsonParse(Buffer.concat(chunks).toString('utf8'))
+  }
+
+  async function handleSchema(req: http.IncomingMessage, res: http.ServerResponse, version: X402SchemaVersion, streamId: string) {
+    const settle = await requirePayment(req, res, version, 'schema', streamId)
+    if (!settle) return
+    const token = issueToken(streamId, Date.now() + sliceSeconds * 1000)
+    const wsUrl = new URL(`/ws/${streamId}`, httpBase.replace(/^http/, 'ws'))
+    wsUrl.searchParams.set('t', token)
+    wsUrl.searchParams.set('v', version)
+    sendJson(
+      res,
+      200,
+      {
+        protocol: 'ws402',
+        version: '1',
+        websocketEndpoint: wsUrl.toString(),
+        pricing: { pricePerSecond, currency: 'USDC', estimatedDuration: sliceSeconds },
+        paymentDetails: {
+          scheme: 'exact',
+          network: version === 'v1' ? V1_NETWORK : SOLANA_DEVNET_CAIP2,
+          asset: USDC_DEVNET_ADDRESS,
+          payTo,
+          maxAmountRequired: amount,
+          maxTimeoutSeconds: 60
+        },
+        stream: { id: streamId, title: `Mock ${streamId}`, description: 'Scripted events from the local mock server' }
+      },
+      { 'PAYMENT-RESPONSE': encodePaymentResponseHeader(settle) }
+    )
+  }
+
+  async function handleRenew(req: http.IncomingMessage, res: http.ServerResponse, version: X402SchemaVersion, streamId: string) {
+    const body = await readJson(req)
+    const oldToken = isRecord(body) && isString(body.token) ? body.token : ''
+    const record = tokens.get(oldToken)
+    if (!record || record.streamId !== streamId) {
+      sendJson(res, 404, { error: 'unknown token' })
+      return
+    }
+    const settle = await requirePayment(req, res, version, 'http', streamId)
+    if (!settle) return
+    // The old token stays valid until the socket swaps to the new one via renew_token
+    const expiresAtMs = Math.max(Date.now(), record.expiresAtMs) + sliceSeconds * 1000
+    const token = issueToken(streamId, expiresAtMs)
+    sendJson(
+      res,
+      200,
+      { token, expiresAt: new Date(expiresAtMs).toISOString(), sliceSeconds },
+      { 'PAYMENT-RESPONSE': encodePaymentResponseHeader(settle) }
+    )
+  }
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url ?? '/', httpBase)
+    if (req.method === 'POST' && pathname === '/rpc') {
+      sendJson(res, 200, handleRpc(await readJson(req)))
+      return
+    }
+    const schema = pathname.match(/^\/(v1|v2)\/schema\/stream\/([\w-]+)$/)
+    if (req.method === 'GET' && schema) {
+      await handleSchema(req, res, schema[1] as X402SchemaVersion, schema[2])
+      return
+    }
+    const renew = pathname.match(/^\/(v1|v2)\/renew\/stream\/([\w-]+)$/)
+    if (req.method === 'POST' && renew) {
+      await handleRenew(req, res, renew[1] as X402SchemaVersion, renew[2])
+      return
+    }
+    sendJson(res, 404, { error: 'not found' })
+  }
+
+  // ===========================================================================
+  // WebSocket Protocol
+  // ===========================================================================
+
+  function send(conn: Connection, message: unknown) {
+    if (conn.ws.readyState === WebSocket.OPEN) conn.ws.send(JSON.stringify(message))
+  }
+
+  function clearTimers(conn: Connection) {
+    for (const timer of conn.timers) clearTimeout(timer)
+    conn.timers = []
+  }
+
+  function stopScript(conn: Connection) {
+    if (conn.scriptTimer) clearTimeout(conn.scriptTimer)
+    conn.scriptTimer = undefined
+  }
+
+  function expiresAt(conn: Connection): number {
+    return tokens.get(conn.token)?.expiresAtMs ?? 0
+  }
+
+  function scheduleExpiry(conn: Connection) {
+    clearTimers(conn)
+    const msUntilExpiry = expiresAt(conn) - Date.now()
+    const renew = renewHints(conn.version, conn.streamId)
+    conn.timers.push(
+      setTimeout(() => {
+        send(conn, {
+          op: 'renewal_reminder',
+          expiresAt: new Date(expiresAt(conn)).toISOString(),
+          msUntilExpiry: expiresAt(conn) - Date.now(),
+          renew
+        })
+      }, Math.max(0, msUntilExpiry - reminderLeadMs)),
+      setTimeout(() => {
+        send(conn, { op: 'payment_required', reason: 'expired', renew })
+        conn.timers.push(setTimeout(() => conn.ws.close(4402, 'payment required'), expiryGraceMs))
+      }, Math.max(0, msUntilExpiry))
+    )
+  }
+
+  function sendRenewed(conn: Connection, method: 'http' | 'inband') {
+    scheduleExpiry(conn)
+    send(conn, { op: 'renewed', expiresAt: new Date(expiresAt(conn)).toISOString(), method })
+  }
+
+  function sendStatus(conn: Connection) {
+    send(conn, {
+      type: 'status',
+      clientId: conn.clientId,
+      now: new Date().toISOString(),
+      grpcConnected: upstreamConnected,
+      nodeHealthy: true,
+      processedHeadSlot: slot,
+      confirmedHeadSlot: slot - 2,
+      watchedAccounts: conn.accounts.length + conn.programs.length,
+      watchedMints: 0
+    })
+  }
+
+  function startScript(conn: Connection) {
+    const events = options.events ?? createDefaultScript(conn.streamId)
+    if (!events.length) return
+    let index = 0
+    const next = () => {
+      if (index >= events.length) {
+        if (!options.loopEvents) return
+        index = 0
+      }
+      slot += 1
+      send(conn, events[index])
+      index += 1
+      conn.scriptTimer = setTimeout(next, eventIntervalMs)
+    }
+    conn.scriptTimer = setTimeout(next, eventIntervalMs)
+  }
+
+  function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(isString)
+  }
+
+  async function handleOp(conn: Connection, message: UnknownRecord) {
+    switch (message.op) {
+      case 'setOptions':
+        return
+      case 'setAccounts':
+        if (!isStringArray(message.accounts)) return send(conn, { op: 'error', message: 'accounts must be a string array' })
+        conn.accounts = message.accounts
+        return
+      case 'setPrograms':
+        if (!isStringArray(message.programs)) return send(conn, { op: 'error', message: 'programs must be a string array' })
+        conn.programs = message.programs
+        return
+      case 'getState':
+        return sendStatus(conn)
+      case 'renew_token': {
+        const next = isString(message.token) ? tokens.get(message.token) : undefined
+        if (!next || next.streamId !== conn.streamId || message.token === conn.token) {
+          return send(conn, { op: 'error', message: 'renew_token rejected' })
+        }
+        tokens.delete(conn.token)
+        conn.token = message.token as string
+        return sendRenewed(conn, 'http')
+      }
+      case 'renew_inband': {
+        if (!isRecord(message.paymentPayload)) return send(conn, { op: 'error', message: 'paymentPayload missing' })
+        const resource = renewUrl(conn.version, conn.streamId)
+        const outcome = await settlePayment(message.paymentPayload as PaymentPayload, resource, 'inband', conn.streamId)
+        if (!outcome.ok) return send(conn, { op: 'error', message: `inband renew rejected: ${outcome.reason}` })
+        const record = tokens.get(conn.token)
+        if (record) record.expiresAtMs = Math.max(Date.now(), record.expiresAtMs) + sliceSeconds * 1000
+        return sendRenewed(conn, 'inband')
+      }
+      default:
+        return send(conn, { op: 'error', message: `unknown op: ${String(message.op)}` })
+    }
+  }
+
+  function handleConnection(ws: WebSocket, req: http.IncomingMessage) {
+    const url = new URL(req.url ?? '/', httpBase)
+    const streamId = url.pathname.replace(/^\/ws\//, '')
+    const token = url.searchParams.get('t') ?? ''
+    const version: X402SchemaVersion = url.searchParams.get('v') === 'v2' ? 'v2' : 'v1'
+    const record = tokens.get(token)
+    if (!record || record.streamId !== streamId || record.expiresAtMs <= Date.now()) {
+      ws.send(JSON.stringify({ op: 'error', message: 'invalid or expired token' }))
+      ws.close(4401, 'invalid token')
+      return
+    }
+
+    const conn: Connection = { ws, clientId: randomUUID(), streamId, version, token, accounts: [], programs: [], timers: [] }
+    connections.add(conn)
+    logInfo('mock', 'stream connected', { clientId: conn.clientId, streamId })
+
+    ws.on('message', (buf) => {
+      const message = safeJsonParse(buf.toString())
+      if (!isRecord(message) || !isString(message.op)) {
+        send(conn, { op: 'error', message: 'invalid message' })
+        return
+      }
+      void handleOp(conn, message)
+    })
+    ws.on('close', () => {
+      clearTimers(conn)
+      stopScript(conn)
+      connections.delete(conn)
+    })
+
+    send(conn, { op: 'hello', clientId: conn.clientId, expiresAt: new Date(record.expiresAtMs).toISOString(), sliceSeconds })
+    scheduleExpiry(conn)
+    startScript(conn)
+  }
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err)
+      logWarn('mock', 'request failed', { url: req.url, message })
+      if (!res.headersSent) sendJson(res, 500, { error: message })
+    })
+  })
+  const wss = new WebSocketServer({ noServer: true })
+  server.on('upgrade', (req, socket, head) => {
+    if (!req.url?.startsWith('/ws/')) {
+      socket.destroy()
+      return
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, req))
+  })
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve))
+  const { address, port } = server.address() as AddressInfo
+  httpBase = `http://${address}:${port}`
+  logInfo('mock', 'listening', { httpBase, payTo, sliceSeconds, amount })
+
+  return {
+    httpBase,
+    rpcUrl: `${httpBase}/rpc`,
+    payTo,
+    payments,
+    broadcast(message: unknown) {
+      for (const conn of connections) send(conn, message)
+    },
+    dropConnections() {
+      for (const conn of connections) conn.ws.terminate()
+    },
+    setUpstreamConnected(connected: boolean) {
+      upstreamConnected = connected
+      for (const conn of connections) sendStatus(conn)
+    },
+    async close() {
+      for (const conn of connections) {
+        clearTimers(conn)
+        stopScript(conn)
+        conn.ws.terminate()
+      }
+      wss.close()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { logInfo, logWarn } from '../log'
+import { isRecord, isString, safeJsonParse } from '../parse'
+import { verifyWebhookSignature, type WebhookBatch } from '../webhook'
+
+export type MockWebhookReceiverOptions = {
+  port?: number
+  host?: string
+  /** Rejects requests whose `X-Signature` does not match with 401. */
+  secret?: string
+  /** Answers the first this many requests with 500 to exercise retries. */
+  failFirst?: number
+}
+
+export type MockWebhookReceiver = {
+  url: string
+  /** Accepted batches, in arrival order, with retries of the same id collapsed. */
+  batches: WebhookBatch[]
+  /** Every request seen, including failed and rejected ones. */
+  requests: number
+  close(): Promise<void>
+}
+
+/**
+ * Local stand-in for a webhook consumer. Checks signatures the way a real
+ * receiver should and records what arrived, so the sink's batching, retries
+ * and signing can be exercised without an external service.
+ */
+export async function startMockWebhookReceiver(options: MockWebhookReceiverOptions = {}): Promise<MockWebhookReceiver> {
+  const batches: WebhookBatch[] = []
+  const seen = new Set<string>()
+  let requests = 0
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      requests += 1
+      const body = Buffer.concat(chunks).toString('utf8')
+      if (req.method !== 'POST') {
+        res.writeHead(405).end()
+        return
+      }
+      if (requests <= (options.failFirst ?? 0)) {
+        res.writeHead(500).end()
+        return
+      }
+      const signature = req.headers['x-signature']
+      if (options.secret && !verifyWebhookSignature(body, isString(signature) ? signature : undefined, options.secret)) {
+        logWarn('mock-webhook', 'bad signature', { id: req.headers['x-webhook-id'] })
+        res.writeHead(401).end()
+        return
+      }
+      const batch = safeJsonParse(body)
+      if (!isRecord(batch) || !isString(batch.id) || !Array.isArray(batch.events)) {
+        res.writeHead(400).end()
+        return
+      }
+      if (!seen.has(batch.id)) {
+        seen.add(batch.id)
+        batches.push(batch as WebhookBatch)
+        logInfo('mock-webhook', 'batch received', { id: batch.id, events: batch.events.length })
+      }
+      res.writeHead(204).end()
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve))
+  const { address, port } = server.address() as AddressInfo
+  const url = `http://${address}:${port}/`
+  logInfo('mock-webhook', 'listening', { url })
+
+  return {
+    url,
+    batches,
+    get requests() {
+      return requests
+    },
+    async close() {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+}
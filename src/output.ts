@@ -0,0 +1,275 @@
+import type { AtomicStreamEventMap, AtomicStreamSource } from './events'
+import { isFilterableEvent, resolveFilterPath } from './filter'
+import { isEnhancedTransactionEvent } from './guards'
+import {
+  summarizeAccount,
+  summarizeAlert,
+  summarizeCandle,
+  summarizeEnhancedTransaction,
+  summarizeLeaderboard,
+  summarizeLeaderboardChange,
+  summarizeLiquidity,
+  summarizeMint,
+  summarizeRawTransaction,
+  summarizeRugAlert,
+  summarizeSlot,
+  summarizeSwap,
+  summarizeTicker,
+  summarizeTokenExtension,
+  summarizeWhaleAlert
+} from './summarize'
+import type { OutputFormat, UnknownRecord } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Data events written by the output formats; everything else stays in the log. */
+export const OUTPUT_EVENTS = [
+  'transaction',
+  'transactionPromoted',
+  'transactionDropped',
+  'account',
+  'slot',
+  'ticker',
+  'candle',
+  'leaderboard',
+  'leaderboardChange',
+  'mint',
+  'whaleAlert',
+  'rugAlert',
+  'swap',
+  'liquidity',
+  'tokenExtension',
+  'alert'
+] as const
+
+export type OutputEventName = (typeof OUTPUT_EVENTS)[number]
+
+export type CsvColumns = Partial<Record<OutputEventName, string[]>>
+
+export type OutputWriterOptions = {
+  format: Exclude<OutputFormat, 'log'>
+  /** Events to write; every output event when empty. */
+  events?: OutputEventName[]
+  /** CSV columns per event, replacing the defaults for the events listed. */
+  csvColumns?: CsvColumns
+  /** Pretty output names the stream on each line, for runs with several streams. */
+  tagged?: boolean
+  /** ANSI colors in pretty output; by default only on a terminal without `NO_COLOR`. */
+  color?: boolean
+  /** Defaults to stdout. */
+  out?: NodeJS.WritableStream
+}
+
+/** Paths into each event, in the filter rule path syntax, so derived fields such as `mints` work too. */
+export const DEFAULT_CSV_COLUMNS: Record<OutputEventName, string[]> = {
+  transaction: ['signature', 'slot', 'commitment', 'failed', 'fee', 'feePayer', 'mints'],
+  transactionPromoted: ['signature', 'slot', 'commitment'],
+  transactionDropped: ['signature', 'slot', 'confirmedHeadSlot', 'firstSeenAt'],
+  account: ['pubkey', 'owner', 'lamports', 'slot', 'decoded.kind'],
+  slot: ['slot', 'parent', 'status', 'tps'],
+  ticker: ['baseMint', 'quoteMint', 'price', 'dex', 'slot', 'signature'],
+  candle: ['baseMint', 'quoteMint', 'dex', 'interval', 'openTime', 'open', 'high', 'low', 'close', 'ticks', 'changePct', 'spreadPct'],
+  leaderboard: ['asOf', 'windowSeconds', 'items[].mint'],
+  leaderboardChange: ['kind', 'mint', 'windowSeconds', 'rank', 'previousRank', 'volumeUsd', 'volumeDeltaUsd'],
+  mint: ['mint', 'decimals', 'tokenProgram', 'mintAuthority', 'freezeAuthority', 'creator', 'slot', 'signature'],
+  whaleAlert: ['mint', 'amount', 'amountUsd', 'from', 'to', 'slot', 'signature'],
+  rugAlert: ['mint', 'signal', 'authority', 'amount', 'slot', 'signature'],
+  swap: ['pool', 'dex', 'side', 'mint', 'amountIn', 'amountOut', 'trader', 'slot', 'signature'],
+  liquidity: ['pool', 'dex', 'action', 'baseMint', 'quoteMint', 'baseAmount', 'quoteAmount', 'provider', 'slot', 'signature'],
+  tokenExtension: ['mint', 'extension', 'instruction', 'slot', 'signature'],
+  alert: ['rule', 'kind', 'key', 'value', 'firedAt', 'events[].data.signature']
+}
+
+// Pretty output shows this many leaderboard rows
+const PRETTY_LEADERBOARD_ROWS = 10
+
+// Columns stop widening here, so one long value doesn't push every later line out
+const PRETTY_MAX_CELL_WIDTH = 48
+
+const SUMMARIES: { [K in OutputEventName]: (event: AtomicStreamEventMap[K][0]) => UnknownRecord } = {
+  transaction: (event) => (isEnhancedTransactionEvent(event) ? summarizeEnhancedTransaction(event) : summarizeRawTransaction(event)),
+  transactionPromoted: (event) => ({ signature: event.signature, slot: event.slot, commitment: event.commitment }),
+  transactionDropped: (dropped) => dropped,
+  account: summarizeAccount,
+  slot: summarizeSlot,
+  ticker: summarizeTicker,
+  candle: summarizeCandle,
+  leaderboard: summarizeLeaderboard,
+  leaderboardChange: summarizeLeaderboardChange,
+  mint: summarizeMint,
+  whaleAlert: summarizeWhaleAlert,
+  rugAlert: summarizeRugAlert,
+  swap: summarizeSwap,
+  liquidity: summarizeLiquidity,
+  tokenExtension: summarizeTokenExtension,
+  alert: summarizeAlert
+}
+
+// ANSI SGR codes; red for what needs attention, yellow for notable, cyan for market data
+const COLORS: Partial<Record<OutputEventName, number>> = {
+  transactionDropped: 31,
+  rugAlert: 31,
+  alert: 31,
+  whaleAlert: 33,
+  leaderboardChange: 33,
+  mint: 32,
+  ticker: 36,
+  candle: 36,
+  swap: 36,
+  liquidity: 36
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export function isOutputEvent(name: string): name is OutputEventName {
+  return (OUTPUT_EVENTS as readonly string[]).includes(name)
+}
+
+/** Validates event names, e.g. from `OUTPUT_EVENTS`. */
+export function parseOutputEvents(value: string[]): OutputEventName[] {
+  const unknown = value.filter((name) => !isOutputEvent(name))
+  if (unknown.length) throw new Error(`unknown output events ${unknown.join(', ')}; use any of: ${OUTPUT_EVENTS.join(', ')}`)
+  return value as OutputEventName[]
+}
+
+/** Parses `event=path,path; event=path`, e.g. `ticker=baseMint,price; swap=mint,side,amountIn`. */
+export function parseCsvColumns(value: string): CsvColumns {
+  const columns: CsvColumns = {}
+  for (const entry of value.split(';')) {
+    if (!entry.trim()) continue
+    const separator = entry.indexOf('=')
+    const event = entry.slice(0, separator).trim()
+    const paths = entry
+      .slice(separator + 1)
+      .split(',')
+      .map((path) => path.trim())
+      .filter(Boolean)
+    if (separator < 0 || !isOutputEvent(event) || !paths.length) {
+      throw new Error(`invalid CSV columns "${entry.trim()}"; use event=path,path with an event from: ${OUTPUT_EVENTS.join(', ')}`)
+    }
+    columns[event] = paths
+  }
+  return columns
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function csvValue(event: unknown, name: OutputEventName, path: string): string {
+  const values = resolveFilterPath(event, path, isFilterableEvent(name) ? name : undefined)
+  return values
+    .map((value) => (value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)))
+    .join(' ')
+}
+
+// Addresses and signatures keep their ends, which is what people compare by eye
+function shorten(value: string): string {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,}$/.test(value) ? `${value.slice(0, 4)}…${value.slice(-4)}` : value
+}
+
+/** A summary value for people: addresses shortened, arrays comma-joined, null as `-`. */
+export function formatPrettyValue(value: unknown): string {
+  if (value === null || value === undefined) return '-'
+  if (typeof value === 'string') return shorten(value)
+  if (Array.isArray(value)) return value.map(formatPrettyValue).join(',') || '-'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/** The same summary the log prints for the event, e.g. `summarizeTicker` for a ticker. */
+export function summarizeDataEvent<K extends OutputEventName>(name: K, event: AtomicStreamEventMap[K][0]): UnknownRecord {
+  return SUMMARIES[name](event)
+}
+
+// =============================================================================
+// Writer
+// =============================================================================
+
+/**
+ * Writes data events to stdout in a machine- or human-friendly format. Log
+ * lines should go to stderr meanwhile (see `setLogDestination`), so stdout
+ * carries nothing but records:
+ *
+ * - `jsonl`: one `{ ts, stream, event, data }` object per line, with the full event.
+ *   `ts` is when the source received it, the recorded time under replay.
+ * - `pretty`: one aligned, colored summary line per event; leaderboards add their top rows.
+ * - `csv`: `ts,stream,event` and the event's columns. A header row precedes
+ *   the first record of each event type, so a run with one event type is a
+ *   plain CSV file.
+ */
+export function createOutputWriter(options: OutputWriterOptions) {
+  const out = options.out ?? process.stdout
+  const events = new Set<OutputEventName>(options.events?.length ? options.events : OUTPUT_EVENTS)
+  const color = options.color ?? ('isTTY' in out && out.isTTY === true && !process.env.NO_COLOR)
+  const csvColumns = { ...DEFAULT_CSV_COLUMNS, ...options.csvColumns }
+  const csvHeaders = new Set<OutputEventName>()
+  // Widest cell seen per event type and position, so lines of the same type line up
+  const widths = new Map<OutputEventName, number[]>()
+  const labelWidth = Math.max(...OUTPUT_EVENTS.map((name) => name.length))
+
+  const paint = (code: number | undefined, text: string) => (color && code ? `\u001b[${code}m${text}\u001b[0m` : text)
+
+  function pretty<K extends OutputEventName>(name: K, event: AtomicStreamEventMap[K][0], stream: string, ts: string): string {
+    const summary = summarizeDataEvent(name, event)
+    const cellWidths = widths.get(name) ?? []
+    widths.set(name, cellWidths)
+    const cells = Object.entries(summary)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value], index) => {
+        const text = `${key}=${formatPrettyValue(value)}`
+        cellWidths[index] = Math.min(PRETTY_MAX_CELL_WIDTH, Math.max(cellWidths[index] ?? 0, text.length))
+        return paint(2, `${key}=`) + formatPrettyValue(value) + ' '.repeat(Math.max(0, (cellWidths[index] as number) - text.length))
+      })
+    const prefix = [paint(2, ts.slice(11, 23)), options.tagged ? paint(35, stream) : undefined, paint(COLORS[name], name.padEnd(labelWidth))]
+    const lines = [[...prefix.filter(Boolean), ...cells].join('  ').trimEnd()]
+    if (name === 'leaderboard') {
+      const { items } = event as AtomicStreamEventMap['leaderboard'][0]
+      items.slice(0, PRETTY_LEADERBOARD_ROWS).forEach((item, index) => {
+        const volume = `$${Math.round(item.volumeUsd).toLocaleString('en-US')}`
+        lines.push(`${' '.repeat(14)}${String(index + 1).padStart(3)}  ${item.mint.padEnd(44)}  ${volume.padStart(16)}`)
+      })
+    }
+    return lines.join('\n')
+  }
+
+  function csv<K extends OutputEventName>(name: K, event: AtomicStreamEventMap[K][0], stream: string, ts: string): string {
+    const columns = csvColumns[name]
+    const row = [ts, stream, name, ...columns.map((path) => csvValue(event, name, path))].map(csvField).join(',')
+    if (csvHeaders.has(name)) return row
+    csvHeaders.add(name)
+    return `${['ts', 'stream', 'event', ...columns].map(csvField).join(',')}\n${row}`
+  }
+
+  /** Writes one event if its type is selected, stamped with `atMs`. */
+  function write<K extends OutputEventName>(name: K, event: AtomicStreamEventMap[K][0], stream = '', atMs = Date.now()) {
+    if (!events.has(name)) return
+    const ts = new Date(atMs).toISOString()
+    let text: string
+    if (options.format === 'jsonl') text = JSON.stringify({ ts, stream, event: name, data: event })
+    else if (options.format === 'pretty') text = pretty(name, event, stream, ts)
+    else text = csv(name, event, stream, ts)
+    out.write(`${text}\n`)
+  }
+
+  return {
+    write,
+
+    /** Writes the source's selected events, tagged with `stream`. */
+    attach(source: AtomicStreamSource, stream: string) {
+      for (const name of events) {
+        source.on(name, (event: unknown) => write(name, event as AtomicStreamEventMap[typeof name][0], stream, source.now()))
+      }
+    }
+  }
+}
+
+export type OutputWriter = ReturnType<typeof createOutputWriter>
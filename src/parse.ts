@@ -0,0 +1,106 @@
+import type { EventFormat, OutputFormat, RenewMethod, TxLogMode, UnknownRecord, UpstreamDownAction, X402SchemaVersion } from './types'
+
+export function safeJsonParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return undefined
+  }
+}
+
+export function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+export function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+export function parseRenewMethod(value: string | undefined): RenewMethod {
+  return value === 'inband' ? 'inband' : 'http'
+}
+
+export function parseUpstreamDownAction(value: string | undefined): UpstreamDownAction {
+  const normalized = value?.toLowerCase()
+  return normalized === 'reconnect' || normalized === 'pause' ? normalized : 'none'
+}
+
+export function parseSchemaVersion(schemaPath: string): X402SchemaVersion {
+  const rawPath = (() => {
+    if (!schemaPath.startsWith('http://') && !schemaPath.startsWith('https://')) {
+      return schemaPath
+    }
+    try {
+      return new URL(schemaPath).pathname
+    } catch {
+      return schemaPath
+    }
+  })()
+  const match = rawPath.match(/^\/(v1|v2)\//)
+  return match ? (match[1] as X402SchemaVersion) : 'v1'
+}
+
+export function parseList(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+export function parseBoolean(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined) return fallback
+  const normalized = value.toLowerCase()
+  if (normalized === 'true') return true
+  if (normalized === 'false') return false
+  return fallback
+}
+
+export function parseInteger(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export function parseDecimal(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export function parseEventFormat(value: string | undefined): EventFormat | undefined {
+  if (!value) return undefined
+  const normalized = value.toLowerCase()
+  return normalized === 'raw' || normalized === 'enhanced' ? normalized : undefined
+}
+
+export function parseTxLogMode(value: string | undefined): TxLogMode {
+  if (!value) return 'full'
+  const normalized = value.toLowerCase()
+  if (normalized === 'full' || normalized === 'summary') {
+    return normalized
+  }
+  return 'full'
+}
+
+export function parseOutputFormat(value: string | undefined): OutputFormat {
+  const normalized = value?.toLowerCase()
+  return normalized === 'jsonl' || normalized === 'pretty' || normalized === 'csv' ? normalized : 'log'
+}
+
+export function parseOptionalInteger(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+/** Parses an ISO 8601 timestamp to epoch milliseconds. */
+export function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const parsed = Date.parse(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
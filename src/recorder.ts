@@ -0,0 +1,147 @@
+import { createReadStream, createWriteStream, mkdirSync, type WriteStream } from 'node:fs'
+import { unlink } from 'node:fs/promises'
+import { hostname } from 'node:os'
+import path from 'node:path'
+import { pipeline } from 'node:stream/promises'
+import { createGzip } from 'node:zlib'
+
+import { logInfo, logWarn } from './log'
+import type { InboundMessage } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** First line of every capture file. */
+export type CaptureHeader = {
+  capture: {
+    version: 1
+    startedAt: string
+    sequence: number
+    host: string
+    pid: number
+  }
+}
+
+export type RecorderOptions = {
+  dir: string
+  /** File name prefix, usually the stream id. */
+  prefix: string
+  /** Rotate once the current file reaches this many bytes; 0 disables. */
+  maxBytes: number
+  /** Rotate once the current file is this old; 0 disables. */
+  maxAgeMs: number
+  /** Gzip each file after it is closed. */
+  gzip: boolean
+}
+
+// Records are dropped rather than queued once the write buffer is this large
+const MAX_PENDING_BYTES = 64 * 1024 * 1024
+
+// =============================================================================
+// Recorder
+// =============================================================================
+
+/**
+ * Appends inbound messages to rotating NDJSON files, one `InboundMessage` per
+ * line after a `CaptureHeader`. `write()` only hands the line to a file stream
+ * and returns, so message handling never waits on disk; if the disk falls far
+ * enough behind, records are dropped and counted instead of buffering without
+ * bound.
+ */
+export function createRecorder(options: RecorderOptions) {
+  mkdirSync(options.dir, { recursive: true })
+
+  let stream: WriteStream | undefined
+  let currentFile = ''
+  let openedAt = 0
+  let bytes = 0
+  let sequence = 0
+  let dropped = 0
+  // Closes and gzip jobs still in flight, awaited by close()
+  const pending = new Set<Promise<void>>()
+
+  function track(task: Promise<void>) {
+    pending.add(task)
+    void task.finally(() => pending.delete(task))
+  }
+
+  function open() {
+    sequence += 1
+    openedAt = Date.now()
+    const stamp = new Date(openedAt).toISOString().replace(/[:.]/g, '-')
+    const file = path.join(options.dir, `${options.prefix}-${stamp}-${sequence}.ndjson`)
+    currentFile = file
+    stream = createWriteStream(file, { flags: 'a' })
+    stream.on('error', (err) => logWarn('recorder', 'write failed', { file, message: err.message }))
+    const header: CaptureHeader = {
+      capture: { version: 1, startedAt: new Date(openedAt).toISOString(), sequence, host: hostname(), pid: process.pid }
+    }
+    const line = `${JSON.stringify(header)}\n`
+    bytes = Buffer.byteLength(line)
+    stream.write(line)
+    logInfo('recorder', 'capture file opened', { file })
+  }
+
+  async function compress(file: string) {
+    try {
+      await pipeline(createReadStream(file), createGzip(), createWriteStream(`${file}.gz`))
+      await unlink(file)
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      logWarn('recorder', 'gzip failed', { file, message })
+    }
+  }
+
+  function closeCurrent() {
+    const closing = stream
+    const file = currentFile
+    stream = undefined
+    if (!closing) return
+    track(
+      new Promise<void>((resolve) => {
+        closing.end(() => {
+          if (options.gzip) track(compress(file))
+          resolve()
+        })
+      })
+    )
+  }
+
+  function shouldRotate(): boolean {
+    if (options.maxBytes > 0 && bytes >= options.maxBytes) return true
+    return options.maxAgeMs > 0 && Date.now() - openedAt >= options.maxAgeMs
+  }
+
+  return {
+    write(record: InboundMessage) {
+      if (stream && shouldRotate()) closeCurrent()
+      if (!stream) open()
+      const active = stream as WriteStream
+      if (active.writableLength > MAX_PENDING_BYTES) {
+        dropped += 1
+        if (dropped === 1 || dropped % 1000 === 0) {
+          logWarn('recorder', 'disk falling behind, dropping records', { dropped })
+        }
+        return
+      }
+      let line: string
+      try {
+        line = `${JSON.stringify(record)}\n`
+      } catch {
+        return
+      }
+      bytes += Buffer.byteLength(line)
+      active.write(line)
+    },
+
+    /** Flushes and closes the current file, then waits for pending gzip jobs. */
+    async close() {
+      closeCurrent()
+      while (pending.size) await Promise.all([...pending])
+      if (dropped) logWarn('recorder', 'records dropped during capture', { dropped })
+    }
+  }
+}
+
+export type Recorder = ReturnType<typeof createRecorder>
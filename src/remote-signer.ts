@@ -0,0 +1,118 @@
+import http from 'node:http'
+
+import {
+  getBase64EncodedWireTransaction,
+  getPublicKeyFromAddress,
+  isAddress,
+  verifySignature,
+  type SignatureBytes,
+  type SignatureDictionary,
+  type TransactionPartialSigner
+} from '@solana/kit'
+import bs58 from 'bs58'
+
+import { isRecord, isString, safeJsonParse } from './parse'
+
+// =============================================================================
+// Protocol
+// =============================================================================
+
+/**
+ * Signing requests are JSON over HTTP, on a Unix socket or localhost:
+ *
+ * - `GET /address` returns `{ address }`, the signer's public key.
+ * - `POST /sign` takes `{ transactions }`, base64 wire transactions carrying
+ *   the signatures collected so far, and returns `{ signatures }`, one base58
+ *   ed25519 signature over each transaction's message.
+ *
+ * Failures return `{ error }`; a request the signer's policy refuses is a 403.
+ * When the signer is started with a token, requests must carry it as
+ * `authorization: Bearer <token>`.
+ */
+export type RemoteSignRequest = { transactions: string[] }
+
+export type RemoteSignResponse = { signatures: string[] }
+
+export type RemoteSignerOptions = {
+  /** `unix:/path/to/socket` or an `http://` URL, as the signer prints on start. */
+  url: string
+  token?: string
+  timeoutMs?: number
+}
+
+// Leaves room for a signer that asks a person or an HSM before answering
+const DEFAULT_TIMEOUT_MS = 30_000
+
+/** `unix:<path>` selects a Unix socket; anything else is an HTTP base URL. */
+function requestTarget(url: string, path: string): http.RequestOptions {
+  if (url.startsWith('unix:')) return { socketPath: url.slice('unix:'.length), path }
+  const parsed = new URL(path, url)
+  return { hostname: parsed.hostname, port: parsed.port, path: parsed.pathname }
+}
+
+function callSigner(options: RemoteSignerOptions, method: string, path: string, body?: unknown): Promise<unknown> {
+  const payload = body === undefined ? undefined : JSON.stringify(body)
+  const headers: http.OutgoingHttpHeaders = { accept: 'application/json' }
+  if (payload !== undefined) headers['content-type'] = 'application/json'
+  if (options.token) headers.authorization = `Bearer ${options.token}`
+
+  return new Promise((resolve, reject) => {
+    const req = http.request({ ...requestTarget(options.url, path), method, headers }, (res) => {
+      const chunks: Buffer[] = []
+      res.on('data', (chunk: Buffer) => chunks.push(chunk))
+      res.on('end', () => {
+        const reply = safeJsonParse(Buffer.concat(chunks).toString('utf8'))
+        const error = isRecord(reply) && isString(reply.error) ? reply.error : undefined
+        if (res.statusCode === 403) reject(new Error(`remote signer refused: ${error ?? 'forbidden'}`))
+        else if (res.statusCode !== 200) reject(new Error(`remote signer failed: ${res.statusCode} ${error ?? ''}`.trim()))
+        else resolve(reply)
+      })
+      res.on('error', reject)
+    })
+    req.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => req.destroy(new Error('timed out')))
+    req.on('error', (err) => reject(new Error(`remote signer unreachable at ${options.url}: ${err.message}`)))
+    req.end(payload)
+  })
+}
+
+// =============================================================================
+// Signer
+// =============================================================================
+
+/**
+ * A transaction signer backed by a separate signer process, so this process
+ * never holds the wallet key. Drop-in for a local `KeyPairSigner` wherever
+ * the client takes a signer. The address is fetched once up front, which
+ * also fails fast when the signer isn't running. Every returned signature is
+ * verified against the transaction message before it is used.
+ */
+export async function createRemoteSigner(options: RemoteSignerOptions): Promise<TransactionPartialSigner> {
+  const info = await callSigner(options, 'GET', '/address')
+  if (!isRecord(info) || !isString(info.address) || !isAddress(info.address)) {
+    throw new Error('remote signer did not report a valid address')
+  }
+  const address = info.address
+  const publicKey = await getPublicKeyFromAddress(address)
+
+  return {
+    address,
+
+    async signTransactions(transactions): Promise<readonly SignatureDictionary[]> {
+      const request: RemoteSignRequest = { transactions: transactions.map((tx) => getBase64EncodedWireTransaction(tx)) }
+      const reply = await callSigner(options, 'POST', '/sign', request)
+      const signatures = isRecord(reply) && Array.isArray(reply.signatures) ? reply.signatures : []
+      if (signatures.length !== transactions.length || !signatures.every(isString)) {
+        throw new Error('remote signer response shape invalid')
+      }
+      return Promise.all(
+        transactions.map(async (tx, index) => {
+          const signature = bs58.decode(signatures[index] as string) as SignatureBytes
+          if (signature.length !== 64 || !(await verifySignature(publicKey, signature, tx.messageBytes))) {
+            throw new Error('remote signer returned an invalid signature')
+          }
+          return { [address]: signature }
+        })
+      )
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { computeBackoffDelay } from './connection'
+import { logError, logInfo, logWarn } from './log'
+import type { RenewMethod } from './types'
+
+export type RenewalPolicy = {
+  /** Renew this long before the slice expires, but never before it is half used; 0 leaves renewal to server reminders. */
+  leadMs: number
+  retryBaseDelayMs: number
+  retryMaxDelayMs: number
+  /** Retries stop this long after expiry, when the server is about to close the socket. */
+  graceMs: number
+  /** Consecutive failures before switching between http and inband; 0 never switches. */
+  fallbackAfterFailures: number
+}
+
+export const DEFAULT_RENEWAL_POLICY: RenewalPolicy = {
+  leadMs: 45_000,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 15_000,
+  graceMs: 5_000,
+  fallbackAfterFailures: 2
+}
+
+// payment_required is only taken as stale if the known expiry is this far ahead, to absorb clock skew
+const STALE_SIGNAL_MARGIN_MS = 5_000
+
+export type RenewalTrigger = 'scheduled' | 'reminder' | 'payment_required'
+
+export type RenewalOutcome = 'succeeded' | 'failed' | 'skipped'
+
+export type RenewalSchedulerOptions = Partial<RenewalPolicy> & {
+  /** Method tried first in every renewal cycle. */
+  method: RenewMethod
+  /** Log scope, so several clients' renewals can be told apart; defaults to `client`. */
+  logScope?: string
+  /** Pays for one slice with the given method; resolves once the new expiry is known, throws on failure. */
+  attempt: (method: RenewMethod) => Promise<void>
+  /** Returns why renewing is not allowed right now (paused, over budget); such cycles are skipped, not retried. */
+  blocked?: () => string | undefined
+  onAttempt?: (method: RenewMethod, outcome: RenewalOutcome) => void
+}
+
+function otherMethod(method: RenewMethod): RenewMethod {
+  return method === 'http' ? 'inband' : 'http'
+}
+
+/**
+ * Decides when to pay for the next slice. A timer fires `leadMs` before the
+ * known expiry, and server reminders or `payment_required` trigger the same
+ * cycle. Only one cycle runs at a time: triggers that arrive mid-cycle join it,
+ * and reminders about an expiry that has since been extended are ignored, so
+ * overlapping signals never pay twice for the same slice.
+ *
+ * A cycle retries with backoff until `graceMs` past expiry, switching method
+ * after `fallbackAfterFailures` consecutive failures.
+ */
+export function createRenewalScheduler(options: RenewalSchedulerOptions) {
+  const policy = { ...DEFAULT_RENEWAL_POLICY, ...options }
+  const scope = options.logScope ?? 'client'
+  let expiresAtMs = 0
+  let timer: NodeJS.Timeout | undefined
+  let inFlight: Promise<void> | undefined
+  let stopped = false
+  let wake: (() => void) | undefined
+
+  function wait(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const delay = setTimeout(resolve, ms)
+      wake = () => {
+        clearTimeout(delay)
+        resolve()
+      }
+    }).finally(() => {
+      wake = undefined
+    })
+  }
+
+  async function runCycle(trigger: RenewalTrigger) {
+    const deadline = expiresAtMs + policy.graceMs
+    let method = options.method
+    let failuresInRow = 0
+    let attempts = 0
+
+    while (!stopped) {
+      const blocked = options.blocked?.()
+      if (blocked) {
+        logWarn(scope, 'renewal skipped', { trigger, reason: blocked })
+        options.onAttempt?.(method, 'skipped')
+        return
+      }
+
+      attempts += 1
+      try {
+        await options.attempt(method)
+        options.onAttempt?.(method, 'succeeded')
+        if (attempts > 1 || method !== options.method) logInfo(scope, 'renewal recovered', { trigger, method, attempts })
+        return
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err)
+        options.onAttempt?.(method, 'failed')
+        failuresInRow += 1
+        logWarn(scope, 'renew error', { trigger, method, attempt: attempts, message })
+      }
+
+      if (policy.fallbackAfterFailures > 0 && failuresInRow >= policy.fallbackAfterFailures) {
+        const next = otherMethod(method)
+        logWarn(scope, 'renewal falling back', { from: method, to: next, failures: failuresInRow })
+        method = next
+        failuresInRow = 0
+      }
+
+      const delayMs = computeBackoffDelay(attempts, policy.retryBaseDelayMs, policy.retryMaxDelayMs)
+      if (Date.now() + delayMs > deadline) {
+        logError(scope, 'renewal deadline passed, giving up until the next trigger', { trigger, attempts })
+        return
+      }
+      await wait(delayMs)
+    }
+  }
+
+  function trigger(reason: RenewalTrigger): Promise<void> {
+    if (stopped) return Promise.resolve()
+    if (inFlight) {
+      logInfo(scope, 'renewal already in progress', { trigger: reason })
+      return inFlight
+    }
+    clearTimeout(timer)
+    inFlight = runCycle(reason).finally(() => {
+      inFlight = undefined
+    })
+    return inFlight
+  }
+
+  return {
+    /** Records the current expiry and re-arms the proactive timer for it. */
+    schedule(nextExpiresAtMs: number) {
+      expiresAtMs = nextExpiresAtMs
+      clearTimeout(timer)
+      timer = undefined
+      if (stopped || policy.leadMs <= 0) return
+      const msUntilExpiry = expiresAtMs - Date.now()
+      const delayMs = Math.max(msUntilExpiry - policy.leadMs, msUntilExpiry / 2, 0)
+      timer = setTimeout(() => void trigger('scheduled'), delayMs)
+      timer.unref()
+    },
+
+    /**
+     * Starts a renewal cycle for a server signal. Signals about a slice that
+     * has since been extended are stale and ignored: a reminder naming an
+     * earlier expiry than the one known, or `payment_required` while the
+     * known expiry is still comfortably ahead.
+     */
+    trigger(reason: RenewalTrigger, reminderExpiresAtMs?: number): Promise<void> {
+      const stale =
+        reminderExpiresAtMs !== undefined
+          ? reminderExpiresAtMs < expiresAtMs
+          : reason === 'payment_required' && expiresAtMs - Date.now() > STALE_SIGNAL_MARGIN_MS
+      if (stale) {
+        logInfo(scope, 'ignoring stale renewal signal', { trigger: reason, expiresAt: new Date(expiresAtMs).toISOString() })
+        return Promise.resolve()
+      }
+      return trigger(reason)
+    },
+
+    get renewing(): boolean {
+      return inFlight !== undefined
+    },
+
+    stop() {
+      stopped = true
+      clearTimeout(timer)
+      wake?.()
+    }
+  }
+}
+
+export type RenewalScheduler = ReturnType<typeof createRenewalScheduler>
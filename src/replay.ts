@@ -0,0 +1,226 @@
+import { EventEmitter } from 'node:events'
+import { createReadStream } from 'node:fs'
+import { createInterface } from 'node:readline'
+import { pipeline, type Readable } from 'node:stream'
+import { createGunzip } from 'node:zlib'
+
+import type { CommitmentTracker } from './commitment'
+import { createDefaultAccountDecoderRegistry, type AccountDecoderRegistry } from './decoders/registry'
+import {
+  dispatchStreamEvent,
+  iterateEvents,
+  type AtomicStreamEvent,
+  type AtomicStreamEventMap,
+  type DispatchOptions,
+  type StopInfo
+} from './events'
+import type { EventFilter } from './filter'
+import { isWsX402Event } from './guards'
+import { logDebug, logInfo, logWarn } from './log'
+import { isNumber, isRecord, isString, safeJsonParse } from './parse'
+import type { InboundMessage, WsX402Event } from './types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export type ReplayOptions = {
+  /** Capture files, replayed in the order given; `.gz` files are decompressed. */
+  files: string[]
+  /** Playback speed relative to the recording; 0 replays as fast as possible. */
+  speed: number
+  /** Inclusive slot range; messages without a slot are not slot-filtered. */
+  fromSlot?: number
+  toSlot?: number
+  /** Inclusive receive-time range, epoch milliseconds. */
+  fromTimeMs?: number
+  toTimeMs?: number
+  /** Decoders used to attach `decoded` to account events; defaults to the built-in token and system decoders. */
+  accountDecoders?: AccountDecoderRegistry
+  /** Client-side rules applied to data events before they are emitted. */
+  filter?: EventFilter
+  /** Deduplicates transactions by signature and emits `transactionPromoted`/`transactionDropped`. */
+  commitments?: CommitmentTracker
+}
+
+function isInboundMessage(value: unknown): value is InboundMessage {
+  if (!isRecord(value)) return false
+  return isString(value.receivedAt) && isString(value.streamId) && isString(value.connectionId) && 'message' in value
+}
+
+function messageSlot(message: unknown): number | undefined {
+  return isRecord(message) && isNumber(message.slot) ? message.slot : undefined
+}
+
+// =============================================================================
+// Replay Source
+// =============================================================================
+
+/**
+ * Feeds recorded NDJSON captures (see `createRecorder`) through the same event
+ * dispatch as a live `AtomicStreamClient`, so listeners, summarizers and sinks
+ * run unchanged without paying for a stream. x402 control ops are re-emitted as
+ * their typed events but never trigger renewals.
+ *
+ * Lifecycle: `start()` resolves once the input is exhausted or `stop()` is
+ * called, and rejects if a file cannot be read; every way ends with `stopped`.
+ */
+export class ReplaySource extends EventEmitter<AtomicStreamEventMap> {
+  private readonly options: ReplayOptions
+  private readonly dispatchOptions: DispatchOptions
+  private stopping = false
+  private input?: Readable
+  private wakeTimer?: NodeJS.Timeout
+  private wake?: () => void
+  private replayed = 0
+  private skipped = 0
+  private recordedMs?: number
+
+  constructor(options: ReplayOptions) {
+    super()
+    this.options = options
+    this.dispatchOptions = {
+      accountDecoders: options.accountDecoders ?? createDefaultAccountDecoderRegistry(),
+      filter: options.filter,
+      commitments: options.commitments
+    }
+  }
+
+  async start(): Promise<void> {
+    logInfo('replay', 'starting', { files: this.options.files, speed: this.options.speed })
+    // Recorded time of the first replayed message and the wall clock it was replayed at
+    let clock: { recordedMs: number; wallMs: number } | undefined
+    let failure: string | undefined
+
+    try {
+      for (const file of this.options.files) {
+        if (this.stopping) break
+        logInfo('replay', 'reading capture file', { file })
+        for await (const record of this.readRecords(file)) {
+          if (this.stopping) break
+          if (!this.accepts(record)) {
+            this.skipped += 1
+            continue
+          }
+          const recordedMs = Date.parse(record.receivedAt)
+          if (this.options.speed > 0 && Number.isFinite(recordedMs)) {
+            if (!clock) clock = { recordedMs, wallMs: Date.now() }
+            const dueMs = clock.wallMs + (recordedMs - clock.recordedMs) / this.options.speed
+            await this.waitUntil(dueMs)
+            if (this.stopping) break
+          }
+          this.dispatch(record)
+        }
+      }
+    } catch (err: unknown) {
+      failure = err instanceof Error ? err.message : String(err)
+      throw err
+    } finally {
+      this.input?.destroy()
+      logInfo('replay', 'finished', { replayed: this.replayed, skipped: this.skipped })
+      const info: StopInfo = failure ? { reason: 'error', message: failure } : this.stopping ? { reason: 'requested' } : { reason: 'ended' }
+      this.emit('stopped', info)
+    }
+  }
+
+  /** Stops after the message currently being dispatched. */
+  async stop(): Promise<void> {
+    this.stopping = true
+    if (this.wakeTimer) clearTimeout(this.wakeTimer)
+    this.wake?.()
+  }
+
+  /**
+   * Recorded receive time of the message being replayed, or of the last one;
+   * the wall clock until the first message with a valid time.
+   */
+  now(): number {
+    return this.recordedMs ?? Date.now()
+  }
+
+  /** Yields every stream and x402 event until the replay stops; see `iterateEvents`. */
+  [Symbol.asyncIterator](): AsyncGenerator<AtomicStreamEvent> {
+    return iterateEvents(this)
+  }
+
+  private async *readRecords(file: string): AsyncGenerator<InboundMessage> {
+    const raw = createReadStream(file)
+    // pipeline, unlike pipe, passes a read error on to the gunzip stream, so it ends the loop below
+    this.input = file.endsWith('.gz') ? pipeline(raw, createGunzip(), () => {}) : raw
+    const lines = createInterface({ input: this.input, crlfDelay: Infinity })
+    let lineNumber = 0
+    for await (const line of lines) {
+      lineNumber += 1
+      if (!line.trim()) continue
+      const decoded = safeJsonParse(line)
+      if (isRecord(decoded) && 'capture' in decoded) continue
+      if (!isInboundMessage(decoded)) {
+        logWarn('replay', 'skipping malformed capture line', { file, line: lineNumber })
+        continue
+      }
+      yield decoded
+    }
+  }
+
+  private accepts(record: InboundMessage): boolean {
+    const { fromSlot, toSlot, fromTimeMs, toTimeMs } = this.options
+    if (fromTimeMs !== undefined || toTimeMs !== undefined) {
+      const receivedMs = Date.parse(record.receivedAt)
+      if (fromTimeMs !== undefined && !(receivedMs >= fromTimeMs)) return false
+      if (toTimeMs !== undefined && !(receivedMs <= toTimeMs)) return false
+    }
+    const slot = messageSlot(record.message)
+    if (slot !== undefined) {
+      if (fromSlot !== undefined && slot < fromSlot) return false
+      if (toSlot !== undefined && slot > toSlot) return false
+    }
+    return true
+  }
+
+  private waitUntil(dueMs: number): Promise<void> {
+    const delayMs = dueMs - Date.now()
+    if (delayMs <= 0) return Promise.resolve()
+    return new Promise<void>((resolve) => {
+      this.wake = resolve
+      this.wakeTimer = setTimeout(resolve, delayMs)
+    }).finally(() => {
+      this.wake = undefined
+      this.wakeTimer = undefined
+    })
+  }
+
+  private dispatch(record: InboundMessage) {
+    this.replayed += 1
+    const recordedMs = Date.parse(record.receivedAt)
+    if (Number.isFinite(recordedMs)) this.recordedMs = recordedMs
+    this.emit('message', record)
+    const decoded = record.message
+    if (dispatchStreamEvent(this, decoded, this.dispatchOptions)) return
+    if (!isWsX402Event(decoded)) {
+      logDebug('replay', 'recorded event unrecognized', { payload: decoded })
+      this.emit('unrecognized', decoded)
+      return
+    }
+    this.emitX402Event(decoded)
+  }
+
+  private emitX402Event(event: WsX402Event) {
+    switch (event.op) {
+      case 'hello':
+        this.emit('hello', event)
+        return
+      case 'renewed':
+        this.emit('renewed', event)
+        return
+      case 'error':
+        this.emit('serverError', event)
+        return
+      case 'renewal_reminder':
+        this.emit('renewalReminder', event)
+        return
+      case 'payment_required':
+        this.emit('paymentRequired', event)
+        return
+    }
+  }
+}
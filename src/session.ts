@@ -0,0 +1,109 @@
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+
+import { logInfo, logWarn } from './log'
+import { isRecord, isString, safeJsonParse } from './parse'
+import type { X402SchemaVersion } from './types'
+import type { Ws402Session } from './x402'
+
+/** What is written to the session file; enough to reconnect without paying again. */
+export type SavedSession = {
+  version: 1
+  httpBase: string
+  schemaPath: string
+  schemaVersion: X402SchemaVersion
+  streamId: string
+  wsUrl: string
+  token: string
+  expiresAt: string
+  /** Atomic units, as a decimal string. */
+  sliceCostAtomic: string
+  savedAt: string
+}
+
+function isSavedSession(value: unknown): value is SavedSession {
+  return (
+    isRecord(value) &&
+    value.version === 1 &&
+    isString(value.httpBase) &&
+    isString(value.schemaPath) &&
+    (value.schemaVersion === 'v1' || value.schemaVersion === 'v2') &&
+    isString(value.streamId) &&
+    isString(value.wsUrl) &&
+    isString(value.token) &&
+    isString(value.expiresAt) &&
+    isString(value.sliceCostAtomic) &&
+    /^\d+$/.test(value.sliceCostAtomic) &&
+    isString(value.savedAt)
+  )
+}
+
+/**
+ * Keeps the paid session in a small JSON file so a restart can reconnect with
+ * the token it already bought. Writes go to a temp file and are renamed into
+ * place, so a crash mid-write leaves the previous state intact. The file holds
+ * a live access token and is created readable by the owner only.
+ */
+export function createSessionStore(file: string) {
+  return {
+    file,
+
+    /** Returns the saved session for this endpoint and stream, or undefined if there is none or it is for another. */
+    load(httpBase: string, schemaPath: string): Ws402Session | undefined {
+      let raw: string
+      try {
+        raw = readFileSync(file, 'utf8')
+      } catch {
+        return undefined
+      }
+      const saved = safeJsonParse(raw)
+      if (!isSavedSession(saved)) {
+        logWarn('session', 'ignoring unreadable session file', { file })
+        return undefined
+      }
+      if (saved.httpBase !== httpBase || saved.schemaPath !== schemaPath) {
+        logInfo('session', 'saved session is for another stream, ignoring', { file, schemaPath: saved.schemaPath })
+        return undefined
+      }
+      const expiresAtMs = Date.parse(saved.expiresAt)
+      if (!Number.isFinite(expiresAtMs)) return undefined
+      return {
+        wsUrl: saved.wsUrl,
+        token: saved.token,
+        streamId: saved.streamId,
+        expiresAtMs,
+        sliceCostAtomic: BigInt(saved.sliceCostAtomic)
+      }
+    },
+
+    save(httpBase: string, schemaPath: string, schemaVersion: X402SchemaVersion, session: Ws402Session) {
+      const saved: SavedSession = {
+        version: 1,
+        httpBase,
+        schemaPath,
+        schemaVersion,
+        streamId: session.streamId,
+        wsUrl: session.wsUrl,
+        token: session.token,
+        expiresAt: new Date(session.expiresAtMs).toISOString(),
+        sliceCostAtomic: session.sliceCostAtomic.toString(),
+        savedAt: new Date().toISOString()
+      }
+      try {
+        mkdirSync(path.dirname(file), { recursive: true })
+        const temp = `${file}.tmp`
+        writeFileSync(temp, `${JSON.stringify(saved, null, 2)}\n`, { mode: 0o600 })
+        renameSync(temp, file)
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err)
+        logWarn('session', 'failed to save session', { file, message })
+      }
+    },
+
+    clear() {
+      rmSync(file, { force: true })
+    }
+  }
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>
@@ -0,0 +1,418 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { chmodSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import path from 'node:path'
+
+import {
+  getAddressEncoder,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getProgramDerivedAddress,
+  getTransactionDecoder,
+  getU64Decoder,
+  signBytes,
+  type Address,
+  type KeyPairSigner
+} from '@solana/kit'
+import { USDC_MAINNET_ADDRESS } from '@x402/svm'
+import bs58 from 'bs58'
+
+import { USDC_DECIMALS, formatUsdc, usdcToAtomic } from './budget'
+import { logInfo, logWarn } from './log'
+import { isRecord, isString, safeJsonParse } from './parse'
+import type { RemoteSignResponse } from './remote-signer'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** What the signer will put its signature to. Limits of 0 are disabled. */
+export type SigningPolicy = {
+  /** Recipients payments may go to, as in the payment requirement's `payTo`. */
+  allowedPayTo: string[]
+  /** Token mints payments may be made in; defaults to `DEFAULT_ALLOWED_MINTS`. */
+  allowedMints?: string[]
+  maxPaymentUsdc: number
+  /** Total signed per UTC day. */
+  maxDailyUsdc: number
+}
+
+/** The one token transfer a signable payment transaction makes. */
+export type PaymentIntent = {
+  payTo: string
+  mint: string
+  amountAtomic: bigint
+}
+
+export type SignerDaemonOptions = {
+  signer: KeyPairSigner
+  policy: SigningPolicy
+  /** Keeps the day's signed total across restarts; without it a restart resets the daily limit. */
+  stateFile?: string
+  /** Localhost TCP port; 0 picks a free one. Ignored when `socketPath` is set. */
+  port?: number
+  host?: string
+  /** Listens on a Unix socket instead, created readable by the owner only. */
+  socketPath?: string
+  /** Shared secret callers must send as a bearer token; required to listen on anything but loopback. */
+  token?: string
+}
+
+export type SignerDaemon = {
+  url: string
+  address: string
+  close(): Promise<void>
+}
+
+/** Mainnet USDC, the token AtomicStream prices its streams in. */
+export const DEFAULT_ALLOWED_MINTS = [USDC_MAINNET_ADDRESS]
+
+const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111'
+const TOKEN_PROGRAMS = ['TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb']
+const ASSOCIATED_TOKEN_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL' as Address
+
+// Token program instruction tag and data length (tag, u64 amount, u8 decimals)
+const TRANSFER_CHECKED = 12
+const TRANSFER_CHECKED_LENGTH = 10
+
+// An x402 payment is a single transaction; a batch is accepted but kept small
+const MAX_TRANSACTIONS = 4
+const MAX_BODY_BYTES = 256 * 1024
+
+// Host headers that name this machine; a page on a rebound DNS name sends its own name instead
+const LOOPBACK_HOST_HEADERS = ['localhost', '127.0.0.1', '[::1]']
+
+// =============================================================================
+// Transaction Inspection
+// =============================================================================
+
+class PolicyError extends Error {}
+
+async function associatedTokenAddress(owner: string, mint: string, tokenProgram: string): Promise<string> {
+  const encoder = getAddressEncoder()
+  const [ata] = await getProgramDerivedAddress({
+    programAddress: ASSOCIATED_TOKEN_PROGRAM,
+    seeds: [encoder.encode(owner as Address), encoder.encode(tokenProgram as Address), encoder.encode(mint as Address)]
+  })
+  return ata
+}
+
+/**
+ * Decodes a base64 wire transaction and returns its message bytes to sign and
+ * the payment it makes. Throws if it is anything other than an x402 exact
+ * payment from `signer`: compute budget instructions plus exactly one
+ * `TransferChecked` of an allowed mint authorized by the signer, into the
+ * token account of an allowed `payTo`, with the fee paid by someone else. Address lookup tables
+ * are refused, since the accounts they load can't be checked offline.
+ */
+export async function inspectPaymentTransaction(
+  wireTransaction: string,
+  signer: string,
+  allowedPayTo: string[],
+  allowedMints: string[] = DEFAULT_ALLOWED_MINTS
+): Promise<{ messageBytes: Uint8Array; intent: PaymentIntent }> {
+  let messageBytes: Uint8Array
+  let message: ReturnType<ReturnType<typeof getCompiledTransactionMessageDecoder>['decode']>
+  try {
+    messageBytes = Uint8Array.from(getTransactionDecoder().decode(getBase64Encoder().encode(wireTransaction)).messageBytes)
+    message = getCompiledTransactionMessageDecoder().decode(messageBytes)
+  } catch {
+    throw new PolicyError('transaction could not be decoded')
+  }
+
+  const accounts: string[] = message.staticAccounts
+  if (message.version !== 'legacy' && message.addressTableLookups?.length) {
+    throw new PolicyError('transactions using address lookup tables are not signed')
+  }
+  if (accounts[0] === signer) throw new PolicyError('the signer does not pay transaction fees')
+  const signerIndex = accounts.indexOf(signer)
+  if (signerIndex < 0 || signerIndex >= message.header.numSignerAccounts) {
+    throw new PolicyError('transaction does not need this signer')
+  }
+
+  const transfers = message.instructions.filter((instruction) => {
+    const program = accounts[instruction.programAddressIndex] ?? ''
+    if (program === COMPUTE_BUDGET_PROGRAM) return false
+    if (!TOKEN_PROGRAMS.includes(program)) throw new PolicyError(`unexpected program ${program}`)
+    const data = instruction.data
+    if (data?.[0] !== TRANSFER_CHECKED || data.length !== TRANSFER_CHECKED_LENGTH) {
+      throw new PolicyError('only TransferChecked token instructions are signed')
+    }
+    return true
+  })
+  const [transfer] = transfers
+  if (!transfer || transfers.length > 1) throw new PolicyError('expected exactly one token transfer')
+
+  const [, mint, destination, authority] = (transfer.accountIndices ?? []).map((index) => accounts[index])
+  const data = transfer.data as Uint8Array
+  if (!mint || !destination || authority !== signer) throw new PolicyError('transfer is not authorized by the signer')
+  if (!allowedMints.includes(mint)) throw new PolicyError(`token ${mint} is not an allowed payment mint`)
+  // Limits are in USDC; a token with other decimals would make them meaningless
+  if (data[9] !== USDC_DECIMALS) throw new PolicyError(`token has ${data[9]} decimals, expected ${USDC_DECIMALS}`)
+
+  const tokenProgram = accounts[transfer.programAddressIndex] as string
+  for (const payTo of allowedPayTo) {
+    if ((await associatedTokenAddress(payTo, mint, tokenProgram)) === destination) {
+      return { messageBytes, intent: { payTo, mint, amountAtomic: getU64Decoder().decode(data, 1) } }
+    }
+  }
+  throw new PolicyError(`recipient ${destination} is not the token account of an allowed payTo`)
+}
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+type SpendState = { day: string; spentAtomic: bigint; payments: number }
+
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function loadState(file: string | undefined): SpendState {
+  const empty = { day: utcDay(), spentAtomic: 0n, payments: 0 }
+  if (!file) return empty
+  let raw: string
+  try {
+    raw = readFileSync(file, 'utf8')
+  } catch {
+    return empty
+  }
+  const saved = safeJsonParse(raw)
+  if (!isRecord(saved) || !isString(saved.day) || !isString(saved.spentAtomic) || !/^\d+$/.test(saved.spentAtomic)) {
+    // Starting from zero would quietly lift the limit
+    throw new Error(`signer state file ${file} is unreadable; fix or remove it`)
+  }
+  return { day: saved.day, spentAtomic: BigInt(saved.spentAtomic), payments: Number(saved.payments) || 0 }
+}
+
+/**
+ * Per-payment and daily limits over the amounts the signer has agreed to.
+ * Spend is recorded before signing and written through to `stateFile`; if the
+ * write fails, `record` throws and nothing is signed.
+ */
+export function createSigningLimits(policy: SigningPolicy, stateFile?: string) {
+  const maxPayment = usdcToAtomic(policy.maxPaymentUsdc)
+  const maxDaily = usdcToAtomic(policy.maxDailyUsdc)
+  let state = loadState(stateFile)
+
+  function today(): SpendState {
+    if (state.day !== utcDay()) state = { day: utcDay(), spentAtomic: 0n, payments: 0 }
+    return state
+  }
+
+  function save() {
+    if (!stateFile) return
+    mkdirSync(path.dirname(stateFile), { recursive: true })
+    const temp = `${stateFile}.tmp`
+    const saved = { day: state.day, spentAtomic: state.spentAtomic.toString(), payments: state.payments }
+    writeFileSync(temp, `${JSON.stringify(saved, null, 2)}\n`, { mode: 0o600 })
+    renameSync(temp, stateFile)
+  }
+
+  return {
+    /** Returns why the payments may not be signed, or undefined if they may. */
+    check(amounts: bigint[]): string | undefined {
+      for (const amount of amounts) {
+        if (maxPayment > 0n && amount > maxPayment) {
+          return `payment of ${formatUsdc(amount)} USDC exceeds the ${formatUsdc(maxPayment)} USDC per-payment maximum`
+        }
+      }
+      const total = amounts.reduce((sum, amount) => sum + amount, 0n)
+      const { spentAtomic } = today()
+      if (maxDaily > 0n && spentAtomic + total > maxDaily) {
+        return `daily limit of ${formatUsdc(maxDaily)} USDC reached (${formatUsdc(spentAtomic)} USDC signed today)`
+      }
+      return undefined
+    },
+
+    record(amounts: bigint[]) {
+      const current = today()
+      state = {
+        day: current.day,
+        spentAtomic: amounts.reduce((sum, amount) => sum + amount, current.spentAtomic),
+        payments: current.payments + amounts.length
+      }
+      save()
+    },
+
+    snapshot() {
+      const { day, spentAtomic, payments } = today()
+      return { day, payments, spentUsdc: formatUsdc(spentAtomic) }
+    }
+  }
+}
+
+export type SigningLimits = ReturnType<typeof createSigningLimits>
+
+// =============================================================================
+// Server
+// =============================================================================
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' })
+  res.end(`${JSON.stringify(body)}\n`)
+}
+
+/** Resolves once `start` has the server listening; a bind error such as EADDRINUSE rejects instead of hanging. */
+function listen(server: http.Server, start: (onListening: () => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    start(() => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+}
+
+/** Whether a listen address only accepts connections from this machine. */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host)
+}
+
+/**
+ * Refuses requests a web page could make without a token: a browser sends a
+ * rebound DNS name in `Host`, and can post a body without a CORS preflight
+ * only if it is not `application/json` (checked in `readJson`).
+ */
+function checkHost(req: http.IncomingMessage) {
+  let hostname: string | undefined
+  try {
+    hostname = new URL(`http://${req.headers.host ?? ''}`).hostname
+  } catch {
+    hostname = undefined
+  }
+  if (!hostname || !LOOPBACK_HOST_HEADERS.includes(hostname)) throw new RequestError(403, 'Host must be localhost')
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const contentType = req.headers['content-type']?.split(';')[0]?.trim().toLowerCase()
+  if (contentType !== 'application/json') throw new RequestError(415, 'content-type must be application/json')
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new RequestError(413, 'request body too large')
+    chunks.push(chunk as Buffer)
+  }
+  const body = safeJsonParse(Buffer.concat(chunks).toString('utf8'))
+  if (body === undefined) throw new RequestError(400, 'request body must be JSON')
+  return body
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+/**
+ * Reference signer for `createRemoteSigner`: holds the wallet key in its own
+ * process and signs payment transactions only within `policy`. Every request
+ * is checked against the transaction itself, not anything the caller claims
+ * about it, so a compromised client can at worst spend what the policy
+ * allows. Listens on loopback or a Unix socket, and on other interfaces only
+ * with a `token`; without one, only a localhost `Host` is accepted. See
+ * `RemoteSignRequest` for the protocol.
+ */
+export async function startSignerDaemon(options: SignerDaemonOptions): Promise<SignerDaemon> {
+  const { signer, policy } = options
+  if (!policy.allowedPayTo.length) throw new Error('signer policy allows no payTo addresses')
+  const allowedMints = policy.allowedMints ?? DEFAULT_ALLOWED_MINTS
+  if (!allowedMints.length) throw new Error('signer policy allows no payment mints')
+  const host = options.host ?? '127.0.0.1'
+  if (!options.socketPath && !options.token && !isLoopbackHost(host)) {
+    throw new Error(`signer on non-loopback host ${host} needs a token`)
+  }
+  const limits = createSigningLimits(policy, options.stateFile)
+  const expectedToken = options.token ? digest(`Bearer ${options.token}`) : undefined
+
+  async function sign(body: unknown): Promise<RemoteSignResponse> {
+    const transactions = isRecord(body) ? body.transactions : undefined
+    if (!Array.isArray(transactions) || !transactions.length || !transactions.every(isString)) {
+      throw new RequestError(400, 'transactions must be a non-empty array of base64 transactions')
+    }
+    if (transactions.length > MAX_TRANSACTIONS) throw new RequestError(400, `at most ${MAX_TRANSACTIONS} transactions per request`)
+
+    const inspected = await Promise.all(
+      transactions.map((transaction) => inspectPaymentTransaction(transaction, signer.address, policy.allowedPayTo, allowedMints))
+    )
+    const amounts = inspected.map(({ intent }) => intent.amountAtomic)
+    // Checked and recorded in one synchronous step, so concurrent requests can't both fit under the limit
+    const reason = limits.check(amounts)
+    if (reason) throw new PolicyError(reason)
+    limits.record(amounts)
+
+    const signatures = await Promise.all(inspected.map(({ messageBytes }) => signBytes(signer.keyPair.privateKey, messageBytes)))
+    for (const { intent } of inspected) {
+      logInfo('signer', 'signed payment', { payTo: intent.payTo, amountUsdc: formatUsdc(intent.amountAtomic), today: limits.snapshot() })
+    }
+    return { signatures: signatures.map((signature) => bs58.encode(signature)) }
+  }
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (expectedToken) {
+      if (!timingSafeEqual(digest(req.headers.authorization ?? ''), expectedToken)) throw new RequestError(401, 'missing or wrong token')
+    } else {
+      checkHost(req)
+    }
+    const url = new URL(req.url ?? '/', 'http://signer')
+    if (req.method === 'GET' && url.pathname === '/address') {
+      sendJson(res, 200, { address: signer.address })
+      return
+    }
+    if (req.method === 'POST' && url.pathname === '/sign') {
+      sendJson(res, 200, await sign(await readJson(req)))
+      return
+    }
+    throw new RequestError(404, 'not found')
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((err: unknown) => {
+      const status = err instanceof PolicyError ? 403 : err instanceof RequestError ? err.status : 500
+      const message = err instanceof Error ? err.message : String(err)
+      if (status === 403) logWarn('signer', 'refused signing request', { reason: message })
+      else if (status === 500) logWarn('signer', 'request failed', { url: req.url, message })
+      if (!res.headersSent) sendJson(res, status, { error: message })
+    })
+  })
+
+  let url: string
+  if (options.socketPath) {
+    // A socket left behind by a crashed run would make listen fail
+    rmSync(options.socketPath, { force: true })
+    await listen(server, (onListening) => server.listen(options.socketPath, onListening))
+    chmodSync(options.socketPath, 0o600)
+    url = `unix:${options.socketPath}`
+  } else {
+    await listen(server, (onListening) => server.listen(options.port ?? 0, host, onListening))
+    const { address, port } = server.address() as AddressInfo
+    url = `http://${address}:${port}`
+  }
+  // Errors after startup are only logged
+  server.on('error', (err) => logWarn('signer', 'server error', { message: err.message }))
+  logInfo('signer', 'listening', {
+    url,
+    address: signer.address,
+    allowedPayTo: policy.allowedPayTo,
+    allowedMints,
+    today: limits.snapshot()
+  })
+
+  return {
+    url,
+    address: signer.address,
+    async close() {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+}
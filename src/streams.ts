@@ -0,0 +1,85 @@
+import type { StreamOptions } from './client'
+import { isRecord, isString } from './parse'
+import type { RenewMethod } from './types'
+
+/** One stream to pay for and subscribe to, alongside others in the same process. */
+export type StreamSubscription = {
+  /** Tags this stream's events, logs, captures and metrics; defaults to the last schema path segment. */
+  name: string
+  schemaPath: string
+  accounts?: string[]
+  programs?: string[]
+  options?: Partial<StreamOptions>
+  renewMethod?: RenewMethod
+}
+
+const BOOLEAN_OPTIONS = [
+  'includeAccounts',
+  'includeTokenBalanceChanges',
+  'includeLogs',
+  'includeInstructions',
+  'filterTokenBalances'
+] as const
+
+/** Stream id from a schema path, e.g. `token-ticker` for `/v1/schema/stream/token-ticker`. */
+export function streamNameFromPath(schemaPath: string): string {
+  return schemaPath.split('/').filter(Boolean).pop() ?? 'stream'
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString)
+}
+
+/** Validates `setOptions` flags, e.g. from a subscription or a control request. */
+export function parseStreamOptions(value: unknown, where: string): Partial<StreamOptions> {
+  if (!isRecord(value)) throw new Error(`${where} options must be an object`)
+  const options: Partial<StreamOptions> = {}
+  for (const [key, option] of Object.entries(value)) {
+    if ((BOOLEAN_OPTIONS as readonly string[]).includes(key)) {
+      if (typeof option !== 'boolean') throw new Error(`${where} options.${key} must be true or false`)
+      options[key as (typeof BOOLEAN_OPTIONS)[number]] = option
+    } else if (key === 'eventFormat') {
+      if (option !== 'raw' && option !== 'enhanced') throw new Error(`${where} options.eventFormat must be raw or enhanced`)
+      options.eventFormat = option
+    } else {
+      throw new Error(`${where} has unknown option ${key}`)
+    }
+  }
+  return options
+}
+
+/**
+ * Validates a list of subscriptions, e.g. the contents of `STREAMS_FILE`.
+ * Fields left out fall back to the process-wide settings when the clients are
+ * built. Names must be unique, since they key sessions, captures and metrics.
+ */
+export function parseStreamSubscriptions(value: unknown): StreamSubscription[] {
+  if (!Array.isArray(value)) throw new Error('stream subscriptions must be an array')
+  const names = new Set<string>()
+  return value.map((entry: unknown, index) => {
+    const where = `stream subscription ${index}`
+    if (!isRecord(entry) || !isString(entry.schemaPath) || !entry.schemaPath) throw new Error(`${where} needs a schemaPath`)
+    if (entry.name !== undefined && !(isString(entry.name) && /^[\w.-]+$/.test(entry.name))) {
+      throw new Error(`${where} name may only contain letters, digits, '.', '_' and '-'`)
+    }
+    for (const key of ['accounts', 'programs'] as const) {
+      if (entry[key] !== undefined && !isStringArray(entry[key])) throw new Error(`${where} ${key} must be an array of strings`)
+    }
+    if (entry.renewMethod !== undefined && entry.renewMethod !== 'http' && entry.renewMethod !== 'inband') {
+      throw new Error(`${where} renewMethod must be http or inband`)
+    }
+
+    const name = (entry.name as string | undefined) ?? streamNameFromPath(entry.schemaPath)
+    if (names.has(name)) throw new Error(`${where} reuses the name ${name}; set a distinct name`)
+    names.add(name)
+
+    return {
+      name,
+      schemaPath: entry.schemaPath,
+      accounts: entry.accounts as string[] | undefined,
+      programs: entry.programs as string[] | undefined,
+      options: entry.options === undefined ? undefined : parseStreamOptions(entry.options, where),
+      renewMethod: entry.renewMethod
+    }
+  })
+}
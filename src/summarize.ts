@@ -0,0 +1,213 @@
+import type { Alert } from './alerts'
+import type { Candle } from './candles'
+import type { LeaderboardChange } from './leaderboard'
+import { isRecord, isString } from './parse'
+import type {
+  DecodedAccount,
+  EnhancedTransactionEvent,
+  RawTransactionEvent,
+  UnknownRecord,
+  WsAccountEvent,
+  WsLeaderboardEvent,
+  WsLiquidityEvent,
+  WsMintEvent,
+  WsRugAlertEvent,
+  WsSlotEvent,
+  WsStatusEvent,
+  WsSwapEvent,
+  WsTickerEvent,
+  WsTokenExtensionEvent,
+  WsWhaleAlertEvent
+} from './types'
+
+export function summarizeRawTransaction(event: RawTransactionEvent): UnknownRecord {
+  const mints = new Set<string>()
+  for (const change of event.tokenBalanceChanges ?? []) {
+    if (change.mint) mints.add(change.mint)
+  }
+  return {
+    signature: event.signature,
+    slot: event.slot,
+    commitment: event.commitment,
+    tokenBalanceChanges: event.tokenBalanceChanges?.length ?? 0,
+    mints: [...mints].slice(0, 5)
+  }
+}
+
+export function summarizeEnhancedTransaction(event: EnhancedTransactionEvent): UnknownRecord {
+  const mints = new Set<string>()
+  for (const transfer of event.tokenTransfers) {
+    if (transfer.mint) mints.add(transfer.mint)
+  }
+  for (const change of event.accountData) {
+    for (const tokenChange of change.tokenBalanceChanges) {
+      if (tokenChange.mint) mints.add(tokenChange.mint)
+    }
+  }
+  return {
+    signature: event.signature,
+    slot: event.slot,
+    commitment: event.commitment,
+    tokenTransfers: event.tokenTransfers.length,
+    mints: [...mints].slice(0, 5)
+  }
+}
+
+function summarizeDecodedAccount(decoded: DecodedAccount): UnknownRecord {
+  switch (decoded.kind) {
+    case 'token-account':
+      return {
+        kind: decoded.kind,
+        program: decoded.program,
+        mint: decoded.mint,
+        tokenOwner: decoded.owner,
+        amount: decoded.amount,
+        state: decoded.state,
+        extensions: decoded.extensions.map((extension) => extension.name)
+      }
+    case 'mint':
+      return {
+        kind: decoded.kind,
+        program: decoded.program,
+        supply: decoded.supply,
+        decimals: decoded.decimals,
+        mintAuthority: decoded.mintAuthority,
+        freezeAuthority: decoded.freezeAuthority,
+        extensions: decoded.extensions.map((extension) => extension.name)
+      }
+    case 'system':
+      return { kind: decoded.kind, sol: decoded.sol }
+    case 'custom':
+      return { kind: decoded.kind, layout: decoded.layout, fields: decoded.fields }
+  }
+}
+
+export function summarizeAccount(event: WsAccountEvent): UnknownRecord {
+  const summary: UnknownRecord = {
+    pubkey: event.pubkey,
+    owner: event.owner,
+    slot: event.slot,
+    encoding: event.dataEncoding
+  }
+  return event.decoded ? { ...summary, ...summarizeDecodedAccount(event.decoded) } : summary
+}
+
+export function summarizeStatus(event: WsStatusEvent): UnknownRecord {
+  return {
+    clientId: event.clientId,
+    grpcConnected: event.grpcConnected,
+    nodeHealthy: event.nodeHealthy,
+    watchedAccounts: event.watchedAccounts,
+    watchedMints: event.watchedMints
+  }
+}
+
+export function summarizeSlot(event: WsSlotEvent): UnknownRecord {
+  return { slot: event.slot, parent: event.parent, status: event.status, tps: event.tps }
+}
+
+export function summarizeTicker(event: WsTickerEvent): UnknownRecord {
+  return { baseMint: event.baseMint, quoteMint: event.quoteMint, price: event.price, dex: event.dex, slot: event.slot }
+}
+
+export function summarizeCandle(candle: Candle): UnknownRecord {
+  return {
+    pair: `${candle.baseMint}/${candle.quoteMint}`,
+    dex: candle.dex ?? 'all',
+    interval: candle.interval,
+    openTime: candle.openTime,
+    ohlc: [candle.open, candle.high, candle.low, candle.close],
+    ticks: candle.ticks,
+    changePct: candle.changePct,
+    spreadPct: candle.spreadPct
+  }
+}
+
+export function summarizeLeaderboard(event: WsLeaderboardEvent): UnknownRecord {
+  return { items: event.items.length, top: event.items[0]?.mint, asOf: event.asOf }
+}
+
+export function summarizeLeaderboardChange(change: LeaderboardChange): UnknownRecord {
+  return {
+    kind: change.kind,
+    mint: change.mint,
+    rank: change.rank,
+    previousRank: change.previousRank,
+    volumeUsd: change.volumeUsd,
+    volumeDeltaUsd: change.volumeDeltaUsd
+  }
+}
+
+export function summarizeMint(event: WsMintEvent): UnknownRecord {
+  return {
+    mint: event.mint,
+    tokenProgram: event.tokenProgram,
+    decimals: event.decimals,
+    mintAuthority: event.mintAuthority,
+    freezeAuthority: event.freezeAuthority,
+    slot: event.slot
+  }
+}
+
+export function summarizeWhaleAlert(event: WsWhaleAlertEvent): UnknownRecord {
+  return {
+    signature: event.signature,
+    mint: event.mint ?? 'SOL',
+    amount: event.amount,
+    amountUsd: event.amountUsd,
+    from: event.from,
+    to: event.to,
+    slot: event.slot
+  }
+}
+
+export function summarizeRugAlert(event: WsRugAlertEvent): UnknownRecord {
+  return { mint: event.mint, signal: event.signal, amount: event.amount, signature: event.signature, slot: event.slot }
+}
+
+export function summarizeSwap(event: WsSwapEvent): UnknownRecord {
+  return {
+    pool: event.pool,
+    dex: event.dex,
+    side: event.side,
+    mint: event.mint,
+    amountIn: event.amountIn,
+    amountOut: event.amountOut,
+    trader: event.trader,
+    slot: event.slot
+  }
+}
+
+export function summarizeLiquidity(event: WsLiquidityEvent): UnknownRecord {
+  return {
+    pool: event.pool,
+    dex: event.dex,
+    action: event.action,
+    baseAmount: event.baseAmount,
+    quoteAmount: event.quoteAmount,
+    provider: event.provider,
+    slot: event.slot
+  }
+}
+
+export function summarizeTokenExtension(event: WsTokenExtensionEvent): UnknownRecord {
+  return {
+    mint: event.mint,
+    extension: event.extension,
+    instruction: event.instruction,
+    signature: event.signature,
+    slot: event.slot
+  }
+}
+
+export function summarizeAlert(alert: Alert): UnknownRecord {
+  const signatures = alert.events.flatMap(({ data }) => (isRecord(data) && isString(data.signature) ? [data.signature] : []))
+  return {
+    rule: alert.rule,
+    kind: alert.kind,
+    key: alert.key,
+    value: alert.value,
+    events: alert.events.length,
+    signatures: signatures.length ? signatures : undefined
+  }
+}
@@ -0,0 +1,339 @@
+export type RenewMethod = 'http' | 'inband'
+export type X402SchemaVersion = 'v1' | 'v2'
+export type EventFormat = 'raw' | 'enhanced'
+export type TxLogMode = 'summary' | 'full'
+export type OutputFormat = 'log' | 'jsonl' | 'pretty' | 'csv'
+export type CommitmentLabel = 'processed' | 'confirmed'
+export type UpstreamDownAction = 'none' | 'reconnect' | 'pause'
+export type UnknownRecord = Record<string, unknown>
+
+export type RenewResponse = { token: string; expiresAt: string; sliceSeconds: number }
+
+export type Ws402StreamInfo = {
+  id: string
+  title: string
+  description: string
+}
+
+export type Ws402StreamSchema = {
+  protocol: 'ws402'
+  version: '1'
+  websocketEndpoint: string
+  pricing: {
+    pricePerSecond: number
+    currency: string
+    estimatedDuration: number
+  }
+  paymentDetails: {
+    scheme: 'exact'
+    network: string
+    asset: string
+    payTo: string
+    maxAmountRequired: string
+    maxTimeoutSeconds: number
+  }
+  stream: Ws402StreamInfo
+}
+
+export type NativeTransfer = {
+  fromUserAccount: string
+  toUserAccount: string
+  amount: number
+}
+
+export type TokenTransfer = {
+  fromTokenAccount: string
+  toTokenAccount: string
+  fromUserAccount: string
+  toUserAccount: string
+  tokenAmount: number
+  mint: string
+  tokenStandard: string
+}
+
+export type RawTokenAmount = {
+  tokenAmount: string
+  decimals: number
+}
+
+export type TokenBalanceChange = {
+  userAccount: string
+  tokenAccount: string
+  rawTokenAmount: RawTokenAmount
+  mint: string
+}
+
+export type AccountData = {
+  account: string
+  nativeBalanceChange: number
+  tokenBalanceChanges: TokenBalanceChange[]
+}
+
+export type YellowstoneTokenBalanceChange = {
+  account: string
+  mint: string
+  owner?: string
+  decimals: number
+  preAmount: string
+  preAmountUi: string
+  postAmount: string
+  postAmountUi: string
+  delta: string
+  deltaUi: string
+}
+
+export type EnhancedTransactionEvent = {
+  type: 'transaction'
+  commitment: CommitmentLabel
+  slot: number
+  signature: string
+  timestamp: number | null
+  isVote: boolean
+  index: number
+  err: object | null
+  fee: number
+  feePayer: string
+  accounts?: string[]
+  nativeTransfers: NativeTransfer[]
+  tokenTransfers: TokenTransfer[]
+  accountData: AccountData[]
+  computeUnitsConsumed: number
+  logs?: string[]
+}
+
+export type RawTransactionEvent = {
+  type: 'transaction'
+  commitment: CommitmentLabel
+  slot: number
+  signature: string
+  isVote: boolean
+  index: number
+  err: object | null
+  accounts?: string[]
+  tokenBalanceChanges?: YellowstoneTokenBalanceChange[]
+  logs?: string[]
+  computeUnitsConsumed: number
+}
+
+export type WsStatusEvent = {
+  type: 'status'
+  clientId?: string
+  now: string
+  grpcConnected: boolean
+  nodeHealthy: boolean
+  processedHeadSlot?: number
+  confirmedHeadSlot?: number
+  watchedAccounts: number
+  watchedMints: number
+}
+
+export type WsTransactionEvent = EnhancedTransactionEvent | RawTransactionEvent
+
+export type WsAccountEvent = {
+  type: 'account'
+  stream: string
+  pubkey: string
+  owner: string
+  lamports: string
+  executable: boolean
+  rentEpoch: string
+  data: string
+  dataEncoding: 'base64' | 'hex'
+  writeVersion: string
+  slot: number
+  txnSignature?: string
+  /** Typed view of `data`, attached when a registered decoder recognises the owner's layout. */
+  decoded?: DecodedAccount
+}
+
+export type WsSlotEvent = {
+  type: 'slot'
+  stream: 'infrastructure-pulse'
+  slot: number
+  parent?: number
+  status: string
+  tps?: number
+  samplePeriodSeconds?: number
+  sampleTransactions?: number
+  sampleSlots?: number
+  sampleSlot?: number
+}
+
+export type WsTickerEvent = {
+  type: 'ticker'
+  baseMint: string
+  quoteMint: string
+  price: number
+  dex: string
+  slot: number
+  signature: string
+}
+
+export type WsLeaderboardEvent = {
+  type: 'leaderboard'
+  windowSeconds: number
+  intervalSeconds: number
+  asOf: string
+  items: Array<{ mint: string; volumeUsd: number }>
+}
+
+// The payloads from here to WsTokenExtensionEvent are provisional. The stream
+// catalog names these streams and their events but publishes no wire schema,
+// so the fields are our reading of the stream descriptions, and the mock's
+// sample feed (src/mock/script.ts) follows them rather than the server. Check
+// them against real traffic before relying on a field.
+
+export type WsMintEvent = {
+  type: 'mint'
+  stream: 'new-mints'
+  slot: number
+  signature: string
+  mint: string
+  tokenProgram: string
+  decimals: number
+  mintAuthority: string | null
+  freezeAuthority: string | null
+  creator?: string
+}
+
+export type WsWhaleAlertEvent = {
+  type: 'whale'
+  stream: 'whale-alert'
+  slot: number
+  signature: string
+  /** Null for native SOL transfers. */
+  mint: string | null
+  from: string
+  to: string
+  amount: number
+  amountUsd: number
+}
+
+export type WsRugAlertEvent = {
+  type: 'rug'
+  stream: 'rug-detection'
+  slot: number
+  signature: string
+  mint: string
+  /** What happened, e.g. `mint_authority_revoked`, `freeze_authority_revoked` or `burn`. */
+  signal: string
+  authority?: string
+  amount?: string
+}
+
+export type WsSwapEvent = {
+  type: 'swap'
+  stream: 'sniper-feed'
+  slot: number
+  signature: string
+  pool: string
+  dex: string
+  trader: string
+  side: 'buy' | 'sell'
+  mint: string
+  amountIn: number
+  amountOut: number
+  poolCreatedSlot?: number
+}
+
+export type WsLiquidityEvent = {
+  type: 'liquidity'
+  stream: 'liquidity-changes'
+  slot: number
+  signature: string
+  pool: string
+  dex: string
+  action: 'add' | 'remove'
+  provider: string
+  baseMint: string
+  quoteMint: string
+  baseAmount: number
+  quoteAmount: number
+}
+
+export type WsTokenExtensionEvent = {
+  type: 'extension'
+  stream: 'token2022-extensions'
+  slot: number
+  signature: string
+  mint: string
+  extension: string
+  instruction: string
+}
+
+export type RenewHints = {
+  http: { endpoint: string; method: 'POST'; priceHint: string }
+  inband: { challengeEndpoint: string; method: 'POST'; priceHint: string }
+}
+
+export type WsX402Event =
+  | { op: 'hello'; clientId: string; expiresAt: string; sliceSeconds: number }
+  | { op: 'renewal_reminder'; expiresAt: string; msUntilExpiry: number; renew: RenewHints }
+  | { op: 'payment_required'; reason: 'expired'; renew: RenewHints }
+  | { op: 'renewed'; expiresAt: string; method: 'http' | 'inband' }
+  | { op: 'error'; message: string }
+
+export type WsHelloEvent = Extract<WsX402Event, { op: 'hello' }>
+export type WsRenewalReminderEvent = Extract<WsX402Event, { op: 'renewal_reminder' }>
+export type WsPaymentRequiredEvent = Extract<WsX402Event, { op: 'payment_required' }>
+export type WsRenewedEvent = Extract<WsX402Event, { op: 'renewed' }>
+export type WsErrorEvent = Extract<WsX402Event, { op: 'error' }>
+
+/** A decoded inbound WebSocket message with its receive metadata. */
+export type InboundMessage = {
+  receivedAt: string
+  streamId: string
+  /** Local id of the socket the message arrived on; changes on every reconnect. */
+  connectionId: string
+  message: unknown
+}
+
+export type TokenProgramName = 'spl-token' | 'spl-token-2022'
+
+/** A Token-2022 extension TLV entry; `fields` is absent for extensions without a known layout. */
+export type TokenExtension = {
+  type: number
+  name: string
+  fields?: UnknownRecord
+}
+
+export type DecodedTokenAccount = {
+  kind: 'token-account'
+  program: TokenProgramName
+  mint: string
+  owner: string
+  amount: string
+  delegate: string | null
+  state: 'uninitialized' | 'initialized' | 'frozen'
+  /** Rent-exempt reserve for wrapped SOL accounts, null otherwise. */
+  isNative: string | null
+  delegatedAmount: string
+  closeAuthority: string | null
+  extensions: TokenExtension[]
+}
+
+export type DecodedMint = {
+  kind: 'mint'
+  program: TokenProgramName
+  mintAuthority: string | null
+  supply: string
+  decimals: number
+  isInitialized: boolean
+  freezeAuthority: string | null
+  extensions: TokenExtension[]
+}
+
+export type DecodedSystemAccount = {
+  kind: 'system'
+  lamports: string
+  sol: number
+}
+
+export type DecodedCustomAccount = {
+  kind: 'custom'
+  program: string
+  layout: string
+  fields: UnknownRecord
+}
+
+export type DecodedAccount = DecodedTokenAccount | DecodedMint | DecodedSystemAccount | DecodedCustomAccount
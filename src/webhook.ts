@@ -0,0 +1,360 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
+import { mkdirSync, readdirSync, readFileSync } from 'node:fs'
+import { unlink, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import { ITERABLE_EVENTS, type AtomicStreamEventName, type AtomicStreamSource } from './events'
+import { logDebug, logInfo, logWarn } from './log'
+import { isNumber, isRecord, isString, safeJsonParse } from './parse'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WebhookTarget = {
+  url: string
+  /** Event names to forward; `*` forwards every event. */
+  events: (AtomicStreamEventName | '*')[]
+  /** Only forward events from these streams; empty forwards all. */
+  streams?: string[]
+  /** Signs each body with HMAC-SHA256 into the `X-Signature` header. */
+  secret?: string
+  /** Send once this many events are buffered (default 50). */
+  batchSize?: number
+  /** Send whatever is buffered at least this often (default 1000). */
+  batchIntervalMs?: number
+}
+
+export type WebhookSinkOptions = {
+  targets: WebhookTarget[]
+  /** Failed batches are persisted here and resumed on the next start; in memory only when unset. */
+  queueDir?: string
+  /** Per-target cap on batches awaiting delivery; the oldest are dropped beyond it. */
+  maxQueuedBatches?: number
+  /** Attempts per batch before it is discarded; 0 retries forever. */
+  maxAttempts?: number
+  retryBaseDelayMs?: number
+  retryMaxDelayMs?: number
+  requestTimeoutMs?: number
+}
+
+/** One forwarded event inside a batch body. */
+export type WebhookEvent = {
+  name: AtomicStreamEventName
+  stream: string
+  /** When the source received the event; the recorded time under replay. */
+  receivedAt: string
+  event: unknown
+}
+
+/** JSON body POSTed to a target. `id` stays the same across retries so receivers can deduplicate. */
+export type WebhookBatch = {
+  id: string
+  createdAt: string
+  events: WebhookEvent[]
+}
+
+export type WebhookTargetStats = {
+  url: string
+  delivered: number
+  failedAttempts: number
+  /** Batches given up on: out of attempts, rejected with a 4xx, or evicted from a full queue. */
+  discarded: number
+  queued: number
+}
+
+export const DEFAULT_WEBHOOK_OPTIONS = {
+  batchSize: 50,
+  batchIntervalMs: 1000,
+  maxQueuedBatches: 1000,
+  maxAttempts: 10,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 5 * 60_000,
+  requestTimeoutMs: 10_000
+}
+
+type QueuedBatch = {
+  id: string
+  body: string
+  attempts: number
+  nextAttemptAt: number
+  /** Set once the batch has been written to the queue directory. */
+  file?: string
+}
+
+type TargetState = {
+  target: WebhookTarget
+  events: Set<string>
+  dir?: string
+  buffer: WebhookEvent[]
+  queue: QueuedBatch[]
+  sending: Promise<void> | undefined
+  /** The batch `sending` is delivering; never evicted, since its outcome still updates the queue. */
+  inFlight?: QueuedBatch
+  batchTimer?: NodeJS.Timeout
+  retryTimer?: NodeJS.Timeout
+  stats: WebhookTargetStats
+}
+
+// =============================================================================
+// Signatures
+// =============================================================================
+
+/** `sha256=<hex>` HMAC of the raw request body, as sent in `X-Signature`. */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+/** Constant-time check of an `X-Signature` header against the raw body, for receivers. */
+export function verifyWebhookSignature(body: string, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false
+  const expected = Buffer.from(signWebhookBody(body, secret))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+function isEventName(value: unknown): value is AtomicStreamEventName | '*' {
+  return value === '*' || (ITERABLE_EVENTS as readonly unknown[]).includes(value)
+}
+
+/**
+ * Validates target definitions, such as the JSON array in `WEBHOOK_FILE`.
+ * Throws on the first invalid entry so misconfiguration fails at startup.
+ */
+export function parseWebhookTargets(value: unknown): WebhookTarget[] {
+  if (!Array.isArray(value)) throw new Error('webhook targets must be an array')
+  return value.map((entry: unknown, index) => {
+    const where = `webhook target ${index}`
+    if (!isRecord(entry) || !isString(entry.url)) throw new Error(`${where} needs a url`)
+    if (!Array.isArray(entry.events) || !entry.events.length || !entry.events.every(isEventName)) {
+      throw new Error(`${where} needs events, each one of: *, ${ITERABLE_EVENTS.join(', ')}`)
+    }
+    if (entry.streams !== undefined && !(Array.isArray(entry.streams) && entry.streams.every(isString))) {
+      throw new Error(`${where} streams must be an array of strings`)
+    }
+    if (entry.secret !== undefined && !isString(entry.secret)) throw new Error(`${where} secret must be a string`)
+    for (const key of ['batchSize', 'batchIntervalMs'] as const) {
+      if (entry[key] !== undefined && !(isNumber(entry[key]) && entry[key] > 0)) {
+        throw new Error(`${where} ${key} must be a positive number`)
+      }
+    }
+    return {
+      url: new URL(entry.url).toString(),
+      events: entry.events,
+      streams: entry.streams as string[] | undefined,
+      secret: entry.secret as string | undefined,
+      batchSize: entry.batchSize as number | undefined,
+      batchIntervalMs: entry.batchIntervalMs as number | undefined
+    }
+  })
+}
+
+// =============================================================================
+// Sink
+// =============================================================================
+
+function loadQueue(dir: string): QueuedBatch[] {
+  const queue: QueuedBatch[] = []
+  for (const name of readdirSync(dir).filter((file) => file.endsWith('.json')).sort()) {
+    const file = path.join(dir, name)
+    const stored = safeJsonParse(readFileSync(file, 'utf8'))
+    if (isRecord(stored) && isString(stored.id) && isString(stored.body) && isNumber(stored.attempts)) {
+      queue.push({ id: stored.id, body: stored.body, attempts: stored.attempts, nextAttemptAt: 0, file })
+    } else {
+      logWarn('webhook', 'skipping unreadable queued batch', { file })
+    }
+  }
+  return queue
+}
+
+// 408 and 429 are worth retrying; other client errors will fail the same way again
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429
+}
+
+/**
+ * Forwards stream events to HTTP endpoints. Listeners only append to a
+ * per-target buffer, so message handling and renewals never wait on a slow
+ * receiver. Buffers are sent as batches, one request at a time per target, in
+ * order; a failed batch is retried with exponential backoff and, when
+ * `queueDir` is set, persisted so it survives a restart.
+ */
+export function createWebhookSink(options: WebhookSinkOptions) {
+  const settings = { ...DEFAULT_WEBHOOK_OPTIONS, ...options }
+  let closed = false
+  let sequence = 0
+
+  const states: TargetState[] = options.targets.map((target) => {
+    const dir = options.queueDir
+      ? path.join(options.queueDir, createHash('sha256').update(target.url).digest('hex').slice(0, 16))
+      : undefined
+    if (dir) mkdirSync(dir, { recursive: true })
+    const queue = dir ? loadQueue(dir) : []
+    if (queue.length) logInfo('webhook', 'resuming queued batches', { url: target.url, batches: queue.length })
+    const events = new Set<string>(target.events.includes('*') ? ITERABLE_EVENTS : target.events)
+    const stats = { url: target.url, delivered: 0, failedAttempts: 0, discarded: 0, queued: queue.length }
+    return { target, events, dir, buffer: [], queue, sending: undefined, stats }
+  })
+
+  function persist(state: TargetState, batch: QueuedBatch): Promise<void> {
+    if (!state.dir) return Promise.resolve()
+    if (!batch.file) {
+      // Names sort in queue order, which is the order batches are resumed in
+      sequence += 1
+      batch.file = path.join(state.dir, `${Date.now()}-${String(sequence).padStart(8, '0')}-${batch.id}.json`)
+    }
+    const stored = { id: batch.id, body: batch.body, attempts: batch.attempts }
+    return writeFile(batch.file, JSON.stringify(stored)).catch((err: unknown) => {
+      logWarn('webhook', 'failed to persist batch', { file: batch.file, message: err instanceof Error ? err.message : String(err) })
+    })
+  }
+
+  function forget(state: TargetState, batch: QueuedBatch) {
+    const index = state.queue.indexOf(batch)
+    if (index < 0) return
+    state.queue.splice(index, 1)
+    state.stats.queued = state.queue.length
+    if (batch.file) void unlink(batch.file).catch(() => undefined)
+  }
+
+  function discard(state: TargetState, batch: QueuedBatch, reason: string) {
+    forget(state, batch)
+    state.stats.discarded += 1
+    logWarn('webhook', 'batch discarded', { url: state.target.url, id: batch.id, attempts: batch.attempts, reason })
+  }
+
+  function flush(state: TargetState) {
+    clearTimeout(state.batchTimer)
+    state.batchTimer = undefined
+    if (!state.buffer.length) return
+    const batch: WebhookBatch = { id: randomUUID(), createdAt: new Date().toISOString(), events: state.buffer }
+    state.buffer = []
+    state.queue.push({ id: batch.id, body: JSON.stringify(batch), attempts: 0, nextAttemptAt: 0 })
+    while (state.queue.length > settings.maxQueuedBatches) {
+      const oldest = state.queue.find((queued) => queued !== state.inFlight)
+      if (!oldest) break
+      discard(state, oldest, 'queue full')
+    }
+    state.stats.queued = state.queue.length
+    pump(state)
+  }
+
+  async function send(state: TargetState, batch: QueuedBatch): Promise<void> {
+    const headers: Record<string, string> = { 'content-type': 'application/json', 'x-webhook-id': batch.id }
+    if (state.target.secret) headers['x-signature'] = signWebhookBody(batch.body, state.target.secret)
+    batch.attempts += 1
+    let failure: string
+    try {
+      const res = await fetch(state.target.url, {
+        method: 'POST',
+        headers,
+        body: batch.body,
+        signal: AbortSignal.timeout(settings.requestTimeoutMs)
+      })
+      if (res.ok) {
+        forget(state, batch)
+        state.stats.delivered += 1
+        logDebug('webhook', 'batch delivered', { url: state.target.url, id: batch.id, status: res.status })
+        return
+      }
+      if (isPermanentFailure(res.status)) {
+        discard(state, batch, `http ${res.status}`)
+        return
+      }
+      failure = `http ${res.status}`
+    } catch (err: unknown) {
+      failure = err instanceof Error ? err.message : String(err)
+    }
+
+    state.stats.failedAttempts += 1
+    if (settings.maxAttempts > 0 && batch.attempts >= settings.maxAttempts) {
+      discard(state, batch, failure)
+      return
+    }
+    const delay = Math.min(settings.retryMaxDelayMs, settings.retryBaseDelayMs * 2 ** (batch.attempts - 1))
+    batch.nextAttemptAt = Date.now() + delay
+    logWarn('webhook', 'delivery failed, will retry', { url: state.target.url, id: batch.id, attempt: batch.attempts, delayMs: delay, failure })
+    await persist(state, batch)
+  }
+
+  // Sends queued batches head first; a batch waiting on backoff holds back the rest to keep order
+  function pump(state: TargetState) {
+    if (state.sending || closed) return
+    const head = state.queue[0]
+    if (!head) return
+    const wait = head.nextAttemptAt - Date.now()
+    if (wait > 0) {
+      if (!state.retryTimer) {
+        state.retryTimer = setTimeout(() => {
+          state.retryTimer = undefined
+          pump(state)
+        }, wait)
+        state.retryTimer.unref()
+      }
+      return
+    }
+    state.inFlight = head
+    state.sending = send(state, head).finally(() => {
+      state.sending = undefined
+      state.inFlight = undefined
+      pump(state)
+    })
+  }
+
+  for (const state of states) pump(state)
+
+  return {
+    /** Forwards the source's events, tagged with `stream`, to every target that wants them. */
+    attach(source: AtomicStreamSource, stream: string) {
+      for (const name of ITERABLE_EVENTS) {
+        const wanted = states.filter(
+          ({ target, events }) => events.has(name) && (!target.streams?.length || target.streams.includes(stream))
+        )
+        if (!wanted.length) continue
+        source.on(name, (event: unknown) => {
+          if (closed) return
+          const item: WebhookEvent = { name, stream, receivedAt: new Date(source.now()).toISOString(), event }
+          for (const state of wanted) {
+            state.buffer.push(item)
+            const batchSize = state.target.batchSize ?? settings.batchSize
+            if (state.buffer.length >= batchSize) {
+              flush(state)
+            } else if (!state.batchTimer) {
+              state.batchTimer = setTimeout(() => flush(state), state.target.batchIntervalMs ?? settings.batchIntervalMs)
+              state.batchTimer.unref()
+            }
+          }
+        })
+      }
+    },
+
+    stats(): WebhookTargetStats[] {
+      return states.map((state) => ({ ...state.stats }))
+    },
+
+    /**
+     * Sends what is buffered, waits for requests in flight, and persists
+     * anything still undelivered so the next start picks it up. Batches
+     * waiting on backoff are not retried again before exit.
+     */
+    async close() {
+      for (const state of states) flush(state)
+      closed = true
+      for (const state of states) clearTimeout(state.retryTimer)
+      await Promise.all(states.map((state) => state.sending))
+      await Promise.all(states.flatMap((state) => state.queue.filter((batch) => !batch.file).map((batch) => persist(state, batch))))
+      const undelivered = states.reduce((sum, state) => sum + state.queue.length, 0)
+      if (undelivered) {
+        logWarn('webhook', options.queueDir ? 'undelivered batches saved for next start' : 'undelivered batches lost', {
+          batches: undelivered
+        })
+      }
+    }
+  }
+}
+
+export type WebhookSink = ReturnType<typeof createWebhookSink>
@@ -0,0 +1,172 @@
+import { decodePaymentResponseHeader } from '@x402/core/http'
+import type { SettleResponse } from '@x402/core/types'
+import { x402Client, type x402HTTPClient } from '@x402/fetch'
+import {
+  ExactSvmScheme,
+  SOLANA_DEVNET_CAIP2,
+  SOLANA_MAINNET_CAIP2,
+  SOLANA_TESTNET_CAIP2,
+  type ClientSvmSigner
+} from '@x402/svm'
+import { ExactSvmSchemeV1 } from '@x402/svm/v1'
+
+import { estimateSliceCost, requirementAmount, type SpendBudget } from './budget'
+import { isPaymentRequired, isRenewResponse, isWs402StreamSchema } from './guards'
+import { logInfo } from './log'
+import type { RenewResponse, X402SchemaVersion } from './types'
+
+/** A purchased stream slice: where to connect and how long the token lasts. */
+export type Ws402Session = {
+  wsUrl: string
+  token: string
+  streamId: string
+  expiresAtMs: number
+  sliceCostAtomic: bigint
+}
+
+/** A paid schema request: the new session and what the payment response reported. */
+export type Ws402Purchase = {
+  session: Ws402Session
+  sliceSeconds: number
+  settlement?: SettleResponse
+}
+
+// =============================================================================
+// Client Setup
+// =============================================================================
+
+export function createX402Client(signer: ClientSvmSigner, budget: SpendBudget, rpcUrl?: string, logScope = 'client') {
+  const client = new x402Client()
+  // rpcUrl overrides the public cluster endpoint used to look up the mint and blockhash
+  const schemeConfig = rpcUrl ? { rpcUrl } : undefined
+  const schemeV1 = new ExactSvmSchemeV1(signer, schemeConfig)
+  const schemeV2 = new ExactSvmScheme(signer, schemeConfig)
+  const v2Networks = [SOLANA_MAINNET_CAIP2, SOLANA_DEVNET_CAIP2, SOLANA_TESTNET_CAIP2] as const
+  const v1Networks = new Set<string>(['solana', 'solana-devnet', 'solana-testnet', ...v2Networks])
+  for (const network of v1Networks) {
+    client.registerV1(network, schemeV1)
+  }
+  for (const network of v2Networks) {
+    client.register(network, schemeV2)
+  }
+  // Every payment path (schema purchase, http and inband renewals) signs through
+  // this client, so the budget is enforced here before anything is signed.
+  client.onBeforePaymentCreation(async ({ selectedRequirements }) => {
+    const reason = budget.check(requirementAmount(selectedRequirements))
+    return reason ? { abort: true, reason } : undefined
+  })
+  client.onAfterPaymentCreation(async ({ selectedRequirements }) => {
+    budget.record(requirementAmount(selectedRequirements))
+    logInfo(logScope, 'payment signed', budget.snapshot())
+  })
+  logInfo(logScope, 'svm signer ready')
+  return client
+}
+
+// =============================================================================
+// URL Helpers
+// =============================================================================
+
+export function parseTokenFromWsUrl(wsUrl: string): string {
+  try {
+    const parsed = new URL(wsUrl)
+    return parsed.searchParams.get('t') ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export function withToken(wsUrl: string, token: string): string {
+  try {
+    const parsed = new URL(wsUrl)
+    parsed.searchParams.set('t', token)
+    return parsed.toString()
+  } catch {
+    return wsUrl
+  }
+}
+
+export function buildRenewUrl(httpBase: string, streamId: string, version: X402SchemaVersion): string {
+  return new URL(`/${version}/renew/stream/${streamId}`, httpBase).toString()
+}
+
+// =============================================================================
+// x402 Schema & Renewal
+// =============================================================================
+
+/** Settlement details from the `PAYMENT-RESPONSE` (v2) or `X-PAYMENT-RESPONSE` (v1) header, if present. */
+export function readSettlement(resp: Response): SettleResponse | undefined {
+  const header = resp.headers.get('PAYMENT-RESPONSE') ?? resp.headers.get('X-PAYMENT-RESPONSE')
+  if (!header) return undefined
+  try {
+    return decodePaymentResponseHeader(header)
+  } catch {
+    return undefined
+  }
+}
+
+export async function requestWs402Schema(
+  fetchWithPayment: typeof fetch,
+  httpBase: string,
+  schemaPath: string
+): Promise<Ws402Purchase> {
+  const url = new URL(schemaPath, httpBase).toString()
+  logInfo('client', 'requesting x402 schema', { url })
+  const resp = await fetchWithPayment(url, { method: 'GET' })
+  if (!resp.ok) throw new Error(`x402 schema failed: ${resp.status}`)
+  const data = await resp.json()
+  if (!isWs402StreamSchema(data)) {
+    throw new Error('x402 schema response shape invalid')
+  }
+  const wsUrl = data.websocketEndpoint
+  const token = parseTokenFromWsUrl(wsUrl)
+  if (!token) {
+    throw new Error('x402 schema missing token')
+  }
+  logInfo('client', 'x402 schema acquired', { wsUrl, streamId: data.stream.id })
+  // Estimated until the server's hello reports the real expiry
+  const expiresAtMs = Date.now() + data.pricing.estimatedDuration * 1000
+  return {
+    session: { wsUrl, token, streamId: data.stream.id, expiresAtMs, sliceCostAtomic: estimateSliceCost(data) },
+    sliceSeconds: data.pricing.estimatedDuration,
+    settlement: readSettlement(resp)
+  }
+}
+
+export async function httpRenew(
+  fetchWithPayment: typeof fetch,
+  renewUrl: string,
+  oldToken: string
+): Promise<RenewResponse & { settlement?: SettleResponse }> {
+  logInfo('client', 'requesting http renew', { url: renewUrl })
+  const resp = await fetchWithPayment(renewUrl, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ token: oldToken })
+  })
+  if (!resp.ok) throw new Error(`renew failed: ${resp.status}`)
+  const data = await resp.json()
+  if (!isRenewResponse(data)) {
+    throw new Error('renew response shape invalid')
+  }
+  logInfo('client', 'http renew ok', { expiresAt: data.expiresAt, sliceSeconds: data.sliceSeconds })
+  return { ...data, settlement: readSettlement(resp) }
+}
+
+export async function inbandRenewChallenge(renewUrl: string, oldToken: string, httpClient: x402HTTPClient) {
+  const resp = await fetch(renewUrl, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ token: oldToken })
+  })
+
+  if (resp.status !== 402) throw new Error(`expected 402 challenge, got ${resp.status}`)
+
+  const decoded = await resp.json().catch(() => undefined)
+  const paymentRequired = httpClient.getPaymentRequiredResponse((name) => resp.headers.get(name), decoded)
+  if (!isPaymentRequired(paymentRequired)) {
+    throw new Error('payment-required response shape invalid')
+  }
+  logInfo('client', 'received inband challenge', { accepts: paymentRequired.accepts.length })
+  return paymentRequired
+}
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { createAlertEngine, parseAlertRules } from '../src/alerts'
+
+function whale(signature: string) {
+  return { type: 'whale', stream: 'whale-alert', slot: 1, signature, mint: null, from: 'a', to: 'b', amount: 1, amountUsd: 1 }
+}
+
+describe('createAlertEngine', () => {
+  test('does not count a late copy of an event that already fired', () => {
+    const engine = createAlertEngine(
+      parseAlertRules([{ name: 'burst', kind: 'count', event: 'whaleAlert', atLeast: 2, windowSeconds: 60, cooldownSeconds: 0 }])
+    )
+    // The signatures of the events in each alert the event fired
+    const signatures = (atMs: number, signature: string) =>
+      engine
+        .evaluate('whaleAlert', whale(signature), atMs)
+        .map(({ events }) => events.map(({ data }) => (data as { signature: string }).signature))
+
+    assert.deepEqual(signatures(1_000, 'a'), [])
+    assert.deepEqual(signatures(2_000, 'b'), [['a', 'b']])
+    // The confirmed copy of b arrives after the alert used it up
+    assert.deepEqual(signatures(3_000, 'b'), [])
+    assert.deepEqual(signatures(4_000, 'c'), [])
+    assert.deepEqual(signatures(5_000, 'd'), [['c', 'd']])
+  })
+})
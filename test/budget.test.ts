@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { createSpendBudget, estimateSliceCost, requirementAmount, type SpendLimits } from '../src/budget'
+import type { Ws402StreamSchema } from '../src/types'
+
+const NO_LIMITS: SpendLimits = { maxTotalUsdc: 0, maxRenewals: 0, maxSessionSeconds: 0, maxPricePerSliceUsdc: 0 }
+
+describe('createSpendBudget', () => {
+  test('counts only accepted renewals toward maxRenewals', () => {
+    const budget = createSpendBudget({ ...NO_LIMITS, maxRenewals: 1 }, () => {})
+    const pay = (renewal: boolean) => {
+      budget.record(1_000n)
+      budget.settle(1_000n, { renewal })
+    }
+
+    pay(false)
+    // A new slice bought after the token expired replaces the session, it doesn't renew it
+    pay(false)
+    assert.equal(budget.check(1_000n), undefined)
+    pay(true)
+
+    assert.equal(budget.check(1_000n), 'max renewals of 1 reached')
+    const { payments, renewals } = budget.snapshot()
+    assert.deepEqual({ payments, renewals }, { payments: 3, renewals: 1 })
+  })
+
+  test('refuses a slice over the price cap and keeps giving the first reason', () => {
+    const reasons: string[] = []
+    const budget = createSpendBudget({ ...NO_LIMITS, maxTotalUsdc: 0.25, maxPricePerSliceUsdc: 0.15 }, (reason) => reasons.push(reason))
+
+    assert.equal(budget.check(150_000n), undefined)
+    budget.record(150_000n)
+    assert.equal(budget.check(200_000n), 'slice price 0.200000 exceeds max 0.15 USDC')
+    // Once exhausted, the budget keeps the first reason even for a payment that would fit
+    assert.equal(budget.check(50_000n), 'slice price 0.200000 exceeds max 0.15 USDC')
+    assert.deepEqual(reasons, ['slice price 0.200000 exceeds max 0.15 USDC'])
+  })
+
+  test('charges and checks a shared budget with each payment', () => {
+    const shared = createSpendBudget({ ...NO_LIMITS, maxTotalUsdc: 0.003 }, () => {})
+    const first = createSpendBudget(NO_LIMITS, () => {}, shared)
+    const second = createSpendBudget(NO_LIMITS, () => {}, shared)
+
+    first.record(2_000n)
+    assert.equal(second.check(1_000n), undefined)
+    second.record(1_000n)
+
+    assert.equal(first.check(1_000n), 'total spend would exceed max 0.003 USDC')
+    assert.equal(second.check(1n), 'total spend would exceed max 0.003 USDC')
+    assert.equal(shared.snapshot().spentUsdc, '0.003000')
+    assert.equal(first.snapshot().spentUsdc, '0.002000')
+  })
+})
+
+describe('estimateSliceCost', () => {
+  const schema = (pricePerSecond: number, maxAmountRequired: string) =>
+    ({ pricing: { pricePerSecond, estimatedDuration: 300 }, paymentDetails: { maxAmountRequired } }) as unknown as Ws402StreamSchema
+
+  test('takes the larger of the advertised pricing and the payment ceiling', () => {
+    assert.equal(estimateSliceCost(schema(0.0005, '100000')), 150_000n)
+    assert.equal(estimateSliceCost(schema(0.0005, '900000')), 900_000n)
+    assert.equal(estimateSliceCost(schema(0.0005, 'not a number')), 150_000n)
+  })
+})
+
+describe('requirementAmount', () => {
+  test('reads v2 amount and v1 maxAmountRequired', () => {
+    assert.equal(requirementAmount({ amount: '2000' }), 2_000n)
+    assert.equal(requirementAmount({ maxAmountRequired: '3000' }), 3_000n)
+    assert.equal(requirementAmount({ amount: 2000 }), 0n)
+  })
+})
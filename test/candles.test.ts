@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { createCandleAggregator, parseCandleIntervals } from '../src/candles'
+import type { WsTickerEvent } from '../src/types'
+
+const T0 = Date.parse('2026-01-01T00:00:00.000Z')
+
+function tick(price: number, dex = 'raydium', slot = 1): WsTickerEvent {
+  return { type: 'ticker', baseMint: 'So11', quoteMint: 'EPjF', price, dex, slot, signature: 'sig' } as WsTickerEvent
+}
+
+describe('parseCandleIntervals', () => {
+  test('sorts intervals and drops ones of the same length', () => {
+    assert.deepEqual(parseCandleIntervals(['5m', '1s', '60s', '1m']), [
+      { label: '1s', ms: 1_000 },
+      { label: '60s', ms: 60_000 },
+      { label: '5m', ms: 300_000 }
+    ])
+  })
+
+  test('rejects anything but a whole number of seconds, minutes or hours', () => {
+    for (const label of ['0s', '1d', '1.5m', 'm']) {
+      assert.throws(() => parseCandleIntervals([label]), /invalid candle interval/)
+    }
+  })
+})
+
+describe('createCandleAggregator', () => {
+  const intervals = [{ label: '1m', ms: 60_000 }]
+
+  test('closes a candle on the first tick past its interval', () => {
+    const candles = createCandleAggregator({ intervals, perDex: false, rollingWindow: 20 })
+
+    assert.deepEqual(candles.add(tick(2, 'raydium', 10), T0 + 1_000), [])
+    assert.deepEqual(candles.add(tick(3, 'raydium', 11), T0 + 2_000), [])
+    assert.deepEqual(candles.add(tick(1, 'raydium', 12), T0 + 3_000), [])
+    const [first, ...rest] = candles.add(tick(4, 'raydium', 13), T0 + 61_000)
+
+    assert.equal(rest.length, 0)
+    assert.deepEqual(first, {
+      baseMint: 'So11',
+      quoteMint: 'EPjF',
+      dex: null,
+      interval: '1m',
+      openTime: '2026-01-01T00:00:00.000Z',
+      closeTime: '2026-01-01T00:01:00.000Z',
+      open: 2,
+      high: 3,
+      low: 1,
+      close: 1,
+      ticks: 3,
+      firstSlot: 10,
+      lastSlot: 12,
+      avgPrice: 2,
+      changePct: null,
+      rollingChangePct: -50,
+      dexes: 1,
+      spreadPct: null
+    })
+
+    const [second] = candles.sweep(T0 + 120_000)
+    assert.equal(second?.changePct, 300)
+    // Two candles in the window: (2 + 3 + 1 + 4) / 4 ticks, from the first open of 2 to the close of 4
+    assert.equal(second?.avgPrice, 2.5)
+    assert.equal(second?.rollingChangePct, 100)
+  })
+
+  test('builds a candle per DEX next to the cross-DEX one, which reports the spread', () => {
+    const candles = createCandleAggregator({ intervals, perDex: true, rollingWindow: 20 })
+    candles.add(tick(100, 'raydium'), T0)
+    candles.add(tick(102, 'orca'), T0 + 1_000)
+
+    const closed = candles.sweep(T0 + 60_000)
+
+    assert.deepEqual(
+      closed.map(({ dex, close, dexes, spreadPct }) => ({ dex, close, dexes, spreadPct })),
+      [
+        { dex: null, close: 102, dexes: 2, spreadPct: 2 },
+        { dex: 'raydium', close: 100, dexes: 1, spreadPct: null },
+        { dex: 'orca', close: 102, dexes: 1, spreadPct: null }
+      ]
+    )
+  })
+
+  test('ignores ticks without a usable price and forgets idle series', () => {
+    const candles = createCandleAggregator({ intervals, perDex: false, rollingWindow: 2 })
+    candles.add(tick(0), T0)
+    candles.add(tick(Number.NaN), T0)
+    assert.deepEqual(candles.stats(), { series: 0, open: 0 })
+
+    candles.add(tick(1), T0)
+    assert.deepEqual(candles.stats(), { series: 1, open: 1 })
+    assert.equal(candles.sweep(T0 + 59_999).length, 0)
+    assert.equal(candles.sweep(T0 + 60_000).length, 1)
+    assert.deepEqual(candles.stats(), { series: 1, open: 0 })
+    // Idle for longer than two intervals past its last close
+    candles.sweep(T0 + 60_000 + 120_001)
+    assert.deepEqual(candles.stats(), { series: 0, open: 0 })
+  })
+})
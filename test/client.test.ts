@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, test } from 'node:test'
+
+import { createSpendBudget } from '../src/budget'
+import type { AtomicStreamClient } from '../src/client'
+import type { StopInfo } from '../src/events'
+import { createHealthMonitor } from '../src/health'
+import { startMetricsServer } from '../src/metrics'
+import { startMockServer, type MockServer } from '../src/mock/server'
+import type { WsHelloEvent, WsRenewedEvent } from '../src/types'
+import { createMockClient, waitForEvent } from './helpers'
+
+describe('AtomicStreamClient against the mock server', () => {
+  let server: MockServer | undefined
+  let client: AtomicStreamClient | undefined
+
+  afterEach(async () => {
+    await client?.stop()
+    await server?.close()
+    client = undefined
+    server = undefined
+  })
+
+  test('buys a slice, receives hello and data events', async () => {
+    server = await startMockServer({ eventIntervalMs: 50 })
+    client = await createMockClient(server)
+    const hello = waitForEvent<[WsHelloEvent]>(client, 'hello')
+    const whale = waitForEvent(client, 'whaleAlert')
+
+    await client.start()
+    const [event] = await hello
+    await whale
+
+    assert.deepEqual(
+      server.payments.map(({ kind }) => kind),
+      ['schema']
+    )
+    assert.ok(Date.parse(event.expiresAt) > Date.now())
+    assert.equal(client.getSpend().payments, 1)
+    assert.equal(client.getSpend().settledUsdc, '0.150000')
+  })
+
+  test('buys through the v1 schema as well', async () => {
+    server = await startMockServer({ eventIntervalMs: 50 })
+    client = await createMockClient(server, { schemaPath: '/v1/schema/stream/token-ticker' })
+    const ticker = waitForEvent(client, 'ticker')
+
+    await client.start()
+    await ticker
+
+    assert.equal(server.payments[0]?.kind, 'schema')
+  })
+
+  test('renews over http before the slice runs out', async () => {
+    server = await startMockServer({ sliceSeconds: 4, eventIntervalMs: 200 })
+    client = await createMockClient(server, { renewMethod: 'http' })
+    const hello = waitForEvent<[WsHelloEvent]>(client, 'hello')
+    const renewed = waitForEvent<[WsRenewedEvent]>(client, 'renewed')
+
+    await client.start()
+    const [first] = await hello
+    const [event] = await renewed
+
+    assert.equal(event.method, 'http')
+    assert.ok(Date.parse(event.expiresAt) > Date.parse(first.expiresAt))
+    assert.deepEqual(
+      server.payments.map(({ kind }) => kind),
+      ['schema', 'http']
+    )
+    assert.equal(client.getStats().renewals.http.succeeded, 1)
+  })
+
+  test('renews in-band over the socket', async () => {
+    server = await startMockServer({ sliceSeconds: 4, eventIntervalMs: 200 })
+    client = await createMockClient(server, { renewMethod: 'inband' })
+    const renewed = waitForEvent<[WsRenewedEvent]>(client, 'renewed')
+
+    await client.start()
+    const [event] = await renewed
+    // The scheduler counts the attempt once the payment's promise settles, just after the event
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.equal(event.method, 'inband')
+    assert.deepEqual(
+      server.payments.map(({ kind }) => kind),
+      ['schema', 'inband']
+    )
+    assert.equal(client.getStats().renewals.inband.succeeded, 1)
+  })
+
+  test('reconnects after a drop with the token it already paid for', async () => {
+    server = await startMockServer({ eventIntervalMs: 50 })
+    client = await createMockClient(server)
+    const hello = waitForEvent(client, 'hello')
+
+    await client.start()
+    await hello
+    const rehello = waitForEvent(client, 'hello')
+    server.dropConnections()
+    await rehello
+    await waitForEvent(client, 'whaleAlert')
+
+    assert.equal(client.getStats().reconnects, 1)
+    assert.equal(server.payments.length, 1)
+  })
+
+  test('waits instead of buying a new slice while renewals are paused', async () => {
+    server = await startMockServer({ sliceSeconds: 2, expiryGraceMs: 100, eventIntervalMs: 200 })
+    client = await createMockClient(server)
+    const hello = waitForEvent(client, 'hello')
+
+    await client.start()
+    await hello
+    client.setRenewalsPaused(true)
+    await waitForEvent(client, 'close')
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    assert.equal(client.connected, false)
+    assert.equal(server.payments.length, 1)
+
+    const rehello = waitForEvent(client, 'hello')
+    client.setRenewalsPaused(false)
+    await rehello
+
+    assert.deepEqual(
+      server.payments.map(({ kind }) => kind),
+      ['schema', 'schema']
+    )
+  })
+
+  test('buys a slice to check on a paused upstream, then resumes once it is back', async () => {
+    server = await startMockServer({ sliceSeconds: 2, expiryGraceMs: 100, eventIntervalMs: 200 })
+    const live = await createMockClient(server, { reconnect: { baseDelayMs: 50, maxDelayMs: 200, heartbeatIntervalMs: 0, pausedWaitMs: 500 } })
+    client = live
+    createHealthMonitor(live, {
+      upstreamDownMs: 0,
+      onUpstreamDown: () => live.setRenewalsPaused(true),
+      onUpstreamRecovered: () => live.setRenewalsPaused(false)
+    })
+    const metrics = await startMetricsServer({ port: 0, streams: [{ name: 'whale-alert', source: live, client: live }] })
+    try {
+      const hello = waitForEvent(live, 'hello')
+      await live.start()
+      await hello
+
+      server.setUpstreamConnected(false)
+      await waitForEvent(live, 'close')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      assert.equal(live.waitingForRenewals, true)
+      assert.equal((await fetch(`${metrics.url}/healthz`)).status, 503)
+
+      // The wait runs out, so one slice is bought to see the upstream's status again
+      await waitForEvent(live, 'hello')
+      assert.equal(live.waitingForRenewals, false)
+      assert.deepEqual(
+        server.payments.map(({ kind }) => kind),
+        ['schema', 'schema']
+      )
+
+      server.setUpstreamConnected(true)
+      const [renewed] = await waitForEvent<[WsRenewedEvent]>(live, 'renewed')
+      assert.equal(renewed.method, 'http')
+      assert.equal((await fetch(`${metrics.url}/healthz`)).status, 200)
+    } finally {
+      await metrics.close()
+    }
+  })
+
+  test('surfaces payloads that match no known shape', async () => {
+    server = await startMockServer({ events: [] })
+    client = await createMockClient(server)
+    const hello = waitForEvent(client, 'hello')
+
+    await client.start()
+    await hello
+    const unrecognized = waitForEvent<[unknown]>(client, 'unrecognized')
+    server.broadcast({ type: 'whale', stream: 'whale-alert', amountLamports: '5000' })
+    const [payload] = await unrecognized
+
+    assert.deepEqual(payload, { type: 'whale', stream: 'whale-alert', amountLamports: '5000' })
+  })
+
+  test('stops once the spend budget is used up', async () => {
+    server = await startMockServer({ sliceSeconds: 4, eventIntervalMs: 200 })
+    // The schema purchase costs 0.002 USDC, so the first renewal would go over the cap
+    client = await createMockClient(server, { limits: { maxTotalUsdc: 0.003 } })
+    const stopped = waitForEvent<[StopInfo]>(client, 'stopped', () => true, 15_000)
+
+    await client.start()
+    const [info] = await stopped
+
+    assert.equal(info.reason, 'budget')
+    assert.equal(server.payments.length, 1)
+  })
+
+  test('stops every client charged to a shared budget once it is used up', async () => {
+    server = await startMockServer({ sliceSeconds: 4, eventIntervalMs: 200 })
+    // Two schema purchases of 0.002 USDC fit under the cap; neither client can renew
+    const shared = createSpendBudget({ maxTotalUsdc: 0.005, maxRenewals: 0, maxSessionSeconds: 0, maxPricePerSliceUsdc: 0 }, () => {})
+    client = await createMockClient(server, { sharedBudget: shared })
+    const other = await createMockClient(server, { sharedBudget: shared })
+    try {
+      const stopped = Promise.all([client, other].map((c) => waitForEvent<[StopInfo]>(c, 'stopped', () => true, 15_000)))
+
+      await Promise.all([client.start(), other.start()])
+      const infos = (await stopped).map(([info]) => info)
+
+      assert.deepEqual(
+        infos.map(({ reason }) => reason),
+        ['budget', 'budget']
+      )
+      assert.deepEqual(
+        server.payments.map(({ kind }) => kind),
+        ['schema', 'schema']
+      )
+      assert.equal(shared.snapshot().spentUsdc, '0.004000')
+    } finally {
+      await other.stop()
+    }
+  })
+})
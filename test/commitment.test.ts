@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { createCommitmentTracker } from '../src/commitment'
+import type { WsTransactionEvent } from '../src/types'
+
+function transaction(signature: string, slot: number, commitment: 'processed' | 'confirmed') {
+  return { type: 'transaction', signature, slot, commitment } as unknown as WsTransactionEvent
+}
+
+describe('createCommitmentTracker', () => {
+  test('tells a promotion from a repeat', () => {
+    const tracker = createCommitmentTracker()
+
+    assert.equal(tracker.observe(transaction('a', 10, 'processed')), 'new')
+    assert.equal(tracker.observe(transaction('a', 10, 'processed')), 'duplicate')
+    assert.equal(tracker.observe(transaction('a', 10, 'confirmed')), 'promoted')
+    assert.equal(tracker.observe(transaction('a', 10, 'confirmed')), 'duplicate')
+    assert.equal(tracker.observe(transaction('b', 11, 'confirmed')), 'new')
+    assert.deepEqual(tracker.stats(), { tracked: 2, confirmedHeadSlot: 0, promoted: 1, dropped: 0, duplicates: 2, evicted: 0 })
+  })
+
+  test('reports an emitted transaction dropped once the confirmed head passes it by the margin', () => {
+    const tracker = createCommitmentTracker({ dropMarginSlots: 10 })
+    for (const signature of ['dropped', 'filtered', 'confirmed']) tracker.observe(transaction(signature, 100, 'processed'))
+    tracker.observe(transaction('late', 105, 'processed'))
+    tracker.observe(transaction('confirmed', 100, 'confirmed'))
+    tracker.markEmitted('dropped')
+    tracker.markEmitted('late')
+
+    assert.deepEqual(tracker.advanceConfirmedHead(110), [])
+    const dropped = tracker.advanceConfirmedHead(111)
+    assert.deepEqual(
+      dropped.map(({ signature, slot, confirmedHeadSlot }) => ({ signature, slot, confirmedHeadSlot })),
+      [{ signature: 'dropped', slot: 100, confirmedHeadSlot: 111 }]
+    )
+    // The filtered-out one counts as dropped but isn't reported, since its first sighting wasn't either
+    assert.deepEqual(tracker.stats(), { tracked: 1, confirmedHeadSlot: 111, promoted: 1, dropped: 2, duplicates: 0, evicted: 0 })
+    assert.equal(tracker.wasEmitted('late'), true)
+    assert.deepEqual(tracker.advanceConfirmedHead(105), [])
+  })
+
+  test('forgets the oldest signatures beyond maxTracked', () => {
+    const tracker = createCommitmentTracker({ maxTracked: 2 })
+    for (const signature of ['a', 'b', 'c']) tracker.observe(transaction(signature, 1, 'processed'))
+
+    assert.equal(tracker.observe(transaction('a', 1, 'confirmed')), 'new')
+    assert.equal(tracker.observe(transaction('c', 1, 'confirmed')), 'promoted')
+    assert.equal(tracker.stats().evicted, 2)
+  })
+})
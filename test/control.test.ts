@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import { afterEach, before, describe, test } from 'node:test'
+
+import { generateKeyPairSigner } from '@solana/kit'
+
+import { AtomicStreamClient } from '../src/client'
+import { startControlServer, type ControlServer, type ControlServerOptions } from '../src/control'
+
+const ACCOUNT = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi'
+
+type Reply = { status: number; body: unknown }
+
+function request(url: string, path: string, options: { method?: string; headers?: http.OutgoingHttpHeaders; body?: string } = {}) {
+  return new Promise<Reply>((resolve, reject) => {
+    const req = http.request(new URL(path, url), { method: options.method ?? 'GET', headers: options.headers }, (res) => {
+      const chunks: Buffer[] = []
+      res.on('data', (chunk: Buffer) => chunks.push(chunk))
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) }))
+    })
+    req.on('error', reject)
+    req.end(options.body)
+  })
+}
+
+describe('startControlServer', () => {
+  let client: AtomicStreamClient
+  let control: ControlServer | undefined
+
+  before(async () => {
+    // Never started, so changes are only kept for the next connect
+    client = new AtomicStreamClient({ httpBase: 'http://127.0.0.1:1', schemaPath: '/v2/schema/stream/whale-alert', signer: await generateKeyPairSigner() })
+  })
+
+  afterEach(async () => {
+    await control?.close()
+    control = undefined
+    client.setAccounts([])
+  })
+
+  function start(options: Partial<ControlServerOptions> = {}) {
+    return startControlServer({ port: 0, streams: [{ name: 'whale-alert', client }], statusTimeoutMs: 50, ...options })
+  }
+
+  const addAccount = JSON.stringify({ accounts: { add: [ACCOUNT] } })
+
+  test('applies a JSON change sent to localhost', async () => {
+    control = await start()
+    const reply = await request(control.url, '/watchlist', { method: 'POST', headers: { 'content-type': 'application/json' }, body: addAccount })
+
+    assert.equal(reply.status, 200)
+    assert.deepEqual(client.getSubscription().accounts, [ACCOUNT])
+  })
+
+  test('refuses a body that is not JSON, as a cross-origin form post would send', async () => {
+    control = await start()
+    const reply = await request(control.url, '/watchlist', { method: 'POST', headers: { 'content-type': 'text/plain' }, body: addAccount })
+
+    assert.equal(reply.status, 415)
+    assert.deepEqual(client.getSubscription().accounts, [])
+  })
+
+  test('refuses a Host other than localhost, as a rebound DNS name would send', async () => {
+    control = await start()
+    const reply = await request(control.url, '/watchlist', { headers: { host: 'attacker.example:9470' } })
+
+    assert.deepEqual(reply, { status: 403, body: { error: 'Host must be localhost' } })
+    assert.equal((await request(control.url, '/watchlist', { headers: { host: 'localhost:9470' } })).status, 200)
+  })
+
+  test('refuses to listen beyond loopback without a token', async () => {
+    await assert.rejects(start({ host: '0.0.0.0' }), /control API on non-loopback host 0.0.0.0 needs a token/)
+  })
+
+  test('takes a token in place of the Host check', async () => {
+    control = await start({ host: '0.0.0.0', token: 'secret' })
+    const url = control.url.replace('0.0.0.0', '127.0.0.1')
+
+    assert.equal((await request(url, '/watchlist')).status, 401)
+    assert.equal((await request(url, '/watchlist', { headers: { authorization: 'Bearer wrong' } })).status, 401)
+    const reply = await request(url, '/watchlist', { headers: { authorization: 'Bearer secret', host: 'streamer.lan:9470' } })
+    assert.equal(reply.status, 200)
+  })
+})
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'node:events'
+import { PassThrough } from 'node:stream'
+import { afterEach, describe, test } from 'node:test'
+
+import { startDashboard, type Dashboard } from '../src/dashboard'
+import type { AtomicStreamSource } from '../src/events'
+import type { WsTickerEvent } from '../src/types'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/** A terminal of the given size that keeps everything written to it. */
+function terminal(columns: number, rows: number) {
+  const out = Object.assign(new PassThrough(), { columns, rows, isTTY: true })
+  let written = ''
+  out.on('data', (chunk: Buffer) => {
+    written += chunk.toString('utf8')
+  })
+  return {
+    out: out as unknown as NodeJS.WriteStream,
+    written: () => written,
+    /** The last frame drawn, without colors. */
+    frame: () => (written.split('\u001b[H').pop() ?? '').replace(/\u001b\[[\d;?]*[A-Za-z]/g, '')
+  }
+}
+
+function source() {
+  return Object.assign(new EventEmitter(), { now: () => Date.now() }) as unknown as AtomicStreamSource
+}
+
+describe('startDashboard', () => {
+  let dashboard: Dashboard | undefined
+
+  afterEach(() => {
+    dashboard?.close()
+    dashboard = undefined
+  })
+
+  test('draws connection state, tickers and a feed of the other events', async () => {
+    const screen = terminal(120, 40)
+    const ticker = source()
+    dashboard = startDashboard({ streams: [{ name: 'token-ticker', source: ticker }], out: screen.out, refreshMs: 10, statusPollMs: 0 })
+    assert.ok(screen.written().startsWith('\u001b[?1049h\u001b[?25l'))
+
+    ticker.emit('open')
+    const tick = { type: 'ticker', baseMint: 'So11', quoteMint: 'USDC', price: 1.5, dex: 'raydium', slot: 7, signature: 's' }
+    ticker.emit('ticker', tick as WsTickerEvent)
+    ticker.emit('ticker', { ...tick, price: 1.75 } as WsTickerEvent)
+    ticker.emit('whaleAlert', { type: 'whale', mint: 'So11', amount: 5, amountUsd: 900, from: 'a', to: 'b', slot: 7, signature: 'w' } as never)
+    await sleep(50)
+
+    const frame = screen.frame()
+    assert.match(frame, /AtomicStream\s+token-ticker/)
+    assert.match(frame, /connected/)
+    assert.match(frame, /So11\/USDC\s+raydium\s+1\.75/)
+    assert.match(frame, /whaleAlert\s+.*amountUsd=900/)
+    // Tickers have their own panel and stay out of the feed
+    assert.doesNotMatch(frame, /ticker\s+baseMint=/)
+  })
+
+  test('tags each stream by name when there are several', async () => {
+    const screen = terminal(80, 40)
+    const first = source()
+    const second = source()
+    dashboard = startDashboard({
+      streams: [
+        { name: 'whale-alert', source: first },
+        { name: 'rug-alert', source: second }
+      ],
+      out: screen.out,
+      refreshMs: 10,
+      statusPollMs: 0
+    })
+
+    second.emit('rugAlert', { type: 'rug', mint: 'm', signal: 'mint-authority', slot: 1, signature: 'r' } as never)
+    await sleep(50)
+
+    assert.match(screen.frame(), /rug-alert\s+rugAlert/)
+  })
+
+  test('restores the terminal once every stream has stopped', async () => {
+    const screen = terminal(80, 24)
+    const first = source()
+    const second = source()
+    dashboard = startDashboard({
+      streams: [
+        { name: 'a', source: first },
+        { name: 'b', source: second }
+      ],
+      out: screen.out,
+      refreshMs: 10,
+      statusPollMs: 0
+    })
+
+    first.emit('stopped', { reason: 'requested' })
+    await sleep(30)
+    assert.ok(!screen.written().endsWith('\u001b[?25h\u001b[?1049l'))
+    second.emit('stopped', { reason: 'requested' })
+    await sleep(10)
+    assert.ok(screen.written().endsWith('\u001b[?25h\u001b[?1049l'))
+
+    // Nothing is drawn after the terminal is handed back
+    const restored = screen.written().length
+    await sleep(30)
+    assert.equal(screen.written().length, restored)
+  })
+})
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { matchesFilterConditions, parseFilterConditions, parseFilterRules } from '../src/filter'
+
+describe('filter rule parsing', () => {
+  test('keeps quoted values as strings', () => {
+    const [condition] = parseFilterConditions('mint == "0123"')
+    assert.deepEqual(condition?.operands, ['0123'])
+    assert.equal(matchesFilterConditions({ mint: '0123' }, parseFilterConditions('mint == "0123"')), true)
+    assert.equal(matchesFilterConditions({ mint: '123' }, parseFilterConditions('mint == "0123"')), false)
+  })
+
+  test('does not treat quoted keywords as keywords', () => {
+    const [rule] = parseFilterRules(`ticker: dex in "and", 'when' when label == "when"`)
+    assert.deepEqual(rule?.conditions[0]?.operands, ['and', 'when'])
+    assert.deepEqual(rule?.when[0]?.operands, ['when'])
+  })
+
+  test('splits lists on commas outside quotes only', () => {
+    const [condition] = parseFilterConditions('label in "a,b",c d')
+    assert.deepEqual(condition?.operands, ['a,b', 'c', 'd'])
+  })
+
+  test('does not split rules or strip comments inside quotes', () => {
+    const rules = parseFilterRules('swap: mint == "a#b" # comment\nswap: mint == \'a;b\'; ticker: dex == x')
+    assert.deepEqual(
+      rules.map(({ conditions }) => conditions[0]?.operands),
+      [['a#b'], ['a;b'], ['x']]
+    )
+  })
+
+  test('rejects an unterminated quote', () => {
+    assert.throws(() => parseFilterRules('swap: mint == "a\nswap: mint == b"'), /unterminated quote/)
+    assert.throws(() => parseFilterConditions('mint == "abc'), /unterminated quote/)
+  })
+})
@@ -0,0 +1,40 @@
+import type { EventEmitter } from 'node:events'
+
+import { generateKeyPairSigner } from '@solana/kit'
+
+import { AtomicStreamClient, type AtomicStreamClientConfig } from '../src/client'
+import type { MockServer } from '../src/mock/server'
+
+/** Resolves with the arguments of the next `name` event that passes `accept`; rejects after `timeoutMs`. */
+export function waitForEvent<T extends unknown[]>(
+  emitter: EventEmitter,
+  name: string,
+  accept: (...args: T) => boolean = () => true,
+  timeoutMs = 10_000
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onEvent = (...args: unknown[]) => {
+      if (!accept(...(args as T))) return
+      clearTimeout(timer)
+      emitter.off(name, onEvent)
+      resolve(args as T)
+    }
+    const timer = setTimeout(() => {
+      emitter.off(name, onEvent)
+      reject(new Error(`timed out waiting for ${name}`))
+    }, timeoutMs)
+    emitter.on(name, onEvent)
+  })
+}
+
+/** A client pointed at the mock with a throwaway wallet and fast reconnects; `overrides` win. */
+export async function createMockClient(server: MockServer, overrides: Partial<AtomicStreamClientConfig> = {}) {
+  return new AtomicStreamClient({
+    httpBase: server.httpBase,
+    schemaPath: '/v2/schema/stream/whale-alert',
+    signer: await generateKeyPairSigner(),
+    rpcUrl: server.rpcUrl,
+    reconnect: { baseDelayMs: 50, maxDelayMs: 200, heartbeatIntervalMs: 0 },
+    ...overrides
+  })
+}
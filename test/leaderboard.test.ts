@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { createLeaderboardTracker } from '../src/leaderboard'
+import type { WsLeaderboardEvent } from '../src/types'
+
+/** A 1h board listed at `minute` past 00:00, one item per `mint:volume` in rank order. */
+function board(minute: number, items: string[], windowSeconds = 3_600): WsLeaderboardEvent {
+  return {
+    type: 'leaderboard',
+    windowSeconds,
+    intervalSeconds: 60,
+    asOf: new Date(Date.parse('2026-01-01T00:00:00.000Z') + minute * 60_000).toISOString(),
+    items: items.map((item) => {
+      const [mint, volume] = item.split(':')
+      return { mint: mint as string, volumeUsd: Number(volume) }
+    })
+  }
+}
+
+describe('createLeaderboardTracker', () => {
+  test('reports entries, exits and rank moves against the previous snapshot', () => {
+    const tracker = createLeaderboardTracker()
+
+    assert.deepEqual(tracker.update(board(0, ['a:300', 'b:200', 'c:100'])), [])
+    const changes = tracker.update(board(1, ['b:400', 'a:350', 'd:50']))
+
+    assert.deepEqual(
+      changes.map(({ kind, mint, rank, previousRank, volumeDeltaUsd }) => ({ kind, mint, rank, previousRank, volumeDeltaUsd })),
+      [
+        { kind: 'rankUp', mint: 'b', rank: 1, previousRank: 2, volumeDeltaUsd: 200 },
+        { kind: 'rankDown', mint: 'a', rank: 2, previousRank: 1, volumeDeltaUsd: 50 },
+        { kind: 'entered', mint: 'd', rank: 3, previousRank: null, volumeDeltaUsd: 50 },
+        { kind: 'exited', mint: 'c', rank: null, previousRank: 3, volumeDeltaUsd: -100 }
+      ]
+    )
+    assert.equal(changes[0]?.asOf, '2026-01-01T00:01:00.000Z')
+  })
+
+  test('ignores a snapshot that is not newer and keeps a repeated mint at its better rank', () => {
+    const tracker = createLeaderboardTracker()
+    tracker.update(board(1, ['a:300', 'b:200']))
+
+    assert.deepEqual(tracker.update(board(1, ['b:300', 'a:200'])), [])
+    assert.deepEqual(tracker.update(board(0, ['b:300', 'a:200'])), [])
+    assert.deepEqual(
+      tracker.update(board(2, ['b:300', 'a:200', 'b:100'])).map(({ kind, mint }) => `${kind} ${mint}`),
+      ['rankUp b', 'rankDown a']
+    )
+  })
+
+  test('tracks each window on its own', () => {
+    const tracker = createLeaderboardTracker()
+    tracker.update(board(0, ['a:1'], 3_600))
+    tracker.update(board(0, ['b:1'], 86_400))
+
+    assert.deepEqual(tracker.update(board(1, ['a:1'], 3_600)), [])
+    assert.deepEqual(
+      tracker.update(board(1, ['a:1'], 86_400)).map(({ kind, mint, windowSeconds }) => `${kind} ${mint} ${windowSeconds}`),
+      ['entered a 86400', 'exited b 86400']
+    )
+    assert.deepEqual(
+      tracker.mintStats('a').map(({ windowSeconds, appearances }) => [windowSeconds, appearances]),
+      [
+        [3_600, 2],
+        [86_400, 1]
+      ]
+    )
+  })
+
+  test('credits time at rank up to one interval per snapshot and keeps history', () => {
+    const tracker = createLeaderboardTracker({ historyLength: 2 })
+    tracker.update(board(0, ['a:300', 'b:200']))
+    tracker.update(board(1, ['b:300', 'a:200']))
+    // A ten-minute gap counts as one interval at the ranks held before it
+    tracker.update(board(11, ['b:300']))
+
+    assert.equal(tracker.timeInTop('a', 1), 60_000)
+    assert.equal(tracker.timeInTop('b', 1), 60_000)
+    assert.equal(tracker.timeInTop('b', 2), 120_000)
+    assert.deepEqual(
+      tracker.leaders(2).map(({ mint, timeInTopMs }) => [mint, timeInTopMs]),
+      [
+        ['a', 120_000],
+        ['b', 120_000]
+      ]
+    )
+
+    const [stats] = tracker.mintStats('a')
+    assert.equal(stats?.peakRank, 1)
+    assert.equal(stats?.peakVolumeUsd, 300)
+    assert.equal(stats?.rank, null)
+    assert.deepEqual(stats?.history, [
+      { asOf: '2026-01-01T00:01:00.000Z', rank: 2, volumeUsd: 200 },
+      { asOf: '2026-01-01T00:11:00.000Z', rank: null, volumeUsd: null }
+    ])
+  })
+})
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict'
+import { appendFile, mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { createPaymentLedger, formatLedgerReport, readLedger, summarizeLedger, type LedgerEntry, type PaymentKind } from '../src/ledger'
+
+function entry(at: string, streamId: string, kind: PaymentKind, amountAtomic: string): LedgerEntry {
+  return {
+    at,
+    streamId,
+    kind,
+    network: 'solana:devnet',
+    asset: 'USDC',
+    payTo: 'pay-to',
+    amountAtomic,
+    amountUsdc: (Number(amountAtomic) / 1e6).toFixed(6),
+    sliceSeconds: 300,
+    expiresAt: null,
+    transaction: null,
+    payer: null
+  }
+}
+
+const ENTRIES = [
+  entry('2026-01-01T23:00:00.000Z', 'whale-alert', 'schema', '150000'),
+  entry('2026-01-01T23:04:00.000Z', 'whale-alert', 'http', '150000'),
+  entry('2026-01-02T00:01:00.000Z', 'token-ticker', 'schema', '100000'),
+  entry('2026-01-02T00:05:00.000Z', 'token-ticker', 'inband', '100000')
+]
+
+describe('payment ledger', () => {
+  let dir = ''
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ledger-test-'))
+  })
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('reads back what was appended, skipping a torn last line', async () => {
+    const ledger = createPaymentLedger(path.join(dir, 'nested', 'payments.jsonl'))
+    for (const item of ENTRIES) ledger.append(item)
+    await appendFile(ledger.file, '{"at":"2026-01-02T00:09:00.000Z","streamId":"tok')
+
+    assert.deepEqual(readLedger(ledger.file), ENTRIES)
+  })
+
+  test('totals payments per stream, UTC day and method', () => {
+    const summary = summarizeLedger(ENTRIES)
+
+    assert.equal(summary.total.usdc, '0.500000')
+    assert.equal(summary.first, '2026-01-01T23:00:00.000Z')
+    assert.equal(summary.last, '2026-01-02T00:05:00.000Z')
+    assert.deepEqual(
+      Object.entries(summary.byDay).map(([day, { payments, usdc }]) => [day, payments, usdc]),
+      [
+        ['2026-01-01', 2, '0.300000'],
+        ['2026-01-02', 2, '0.200000']
+      ]
+    )
+    assert.deepEqual(
+      Object.fromEntries(Object.entries(summary.byKind).map(([kind, totals]) => [kind, totals?.payments])),
+      { schema: 2, http: 1, inband: 1 }
+    )
+    assert.equal(summary.byStream['token-ticker']?.usdc, '0.200000')
+  })
+
+  test('limits a summary to [from, to)', () => {
+    const summary = summarizeLedger(ENTRIES, {
+      fromMs: Date.parse('2026-01-01T23:04:00.000Z'),
+      toMs: Date.parse('2026-01-02T00:05:00.000Z')
+    })
+
+    assert.equal(summary.total.payments, 2)
+    assert.deepEqual(Object.keys(summary.byStream), ['whale-alert', 'token-ticker'])
+    assert.equal(summary.first, '2026-01-01T23:04:00.000Z')
+    assert.equal(summary.last, '2026-01-02T00:01:00.000Z')
+  })
+
+  test('formats a report with one table per breakdown', () => {
+    const report = formatLedgerReport(summarizeLedger(ENTRIES.slice(0, 2)))
+
+    assert.equal(
+      report,
+      [
+        'Payments: 2, total 0.300000 USDC (2026-01-01T23:00:00.000Z .. 2026-01-01T23:04:00.000Z)',
+        '',
+        'stream       payments            usdc',
+        'whale-alert         2        0.300000',
+        '',
+        'day         payments            usdc',
+        '2026-01-01         2        0.300000',
+        '',
+        'method  payments            usdc',
+        'http           1        0.150000',
+        'schema         1        0.150000',
+        ''
+      ].join('\n')
+    )
+    assert.match(formatLedgerReport(summarizeLedger([])), /^Payments: 0, total 0.000000 USDC \(no payments\)/)
+  })
+})
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'node:events'
+import { PassThrough } from 'node:stream'
+import { describe, test } from 'node:test'
+
+import type { AtomicStreamSource } from '../src/events'
+import { createOutputWriter, formatPrettyValue, parseCsvColumns, parseOutputEvents, type OutputWriterOptions } from '../src/output'
+import type { WsTickerEvent } from '../src/types'
+
+const AT = Date.parse('2026-01-01T12:34:56.789Z')
+const SOL = 'So11111111111111111111111111111111111111112'
+
+function ticker(price: number, dex = 'raydium'): WsTickerEvent {
+  return { type: 'ticker', baseMint: SOL, quoteMint: 'USDC', price, dex, slot: 7, signature: 'sig' } as WsTickerEvent
+}
+
+/** A writer whose output is collected, one string per line. */
+function capture(options: Omit<OutputWriterOptions, 'out'>) {
+  const out = new PassThrough()
+  const lines: string[] = []
+  out.on('data', (chunk: Buffer) => lines.push(...chunk.toString('utf8').split('\n').filter(Boolean)))
+  return { writer: createOutputWriter({ ...options, out }), lines }
+}
+
+describe('createOutputWriter', () => {
+  test('stamps events with the source clock, so a replay writes the recorded time', async () => {
+    const { writer, lines } = capture({ format: 'jsonl' })
+    const recordedAt = Date.parse('2026-01-02T03:04:05.000Z')
+    const source = Object.assign(new EventEmitter(), { now: () => recordedAt }) as unknown as AtomicStreamSource
+    writer.attach(source, 'slots')
+
+    source.emit('slot', { slot: 7 } as never)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.deepEqual(
+      lines.map((line) => JSON.parse(line)),
+      [{ ts: '2026-01-02T03:04:05.000Z', stream: 'slots', event: 'slot', data: { slot: 7 } }]
+    )
+  })
+
+  test('writes jsonl with the full event, for the selected events only', async () => {
+    const { writer, lines } = capture({ format: 'jsonl', events: ['ticker'] })
+    writer.write('ticker', ticker(1.5), 'token-ticker', AT)
+    writer.write('slot', { slot: 7 } as never, 'slots', AT)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.deepEqual(
+      lines.map((line) => JSON.parse(line)),
+      [{ ts: '2026-01-01T12:34:56.789Z', stream: 'token-ticker', event: 'ticker', data: ticker(1.5) }]
+    )
+  })
+
+  test('writes csv with a header before the first row of each event and quotes where needed', async () => {
+    const { writer, lines } = capture({ format: 'csv', csvColumns: { ticker: ['price', 'dex'] } })
+    writer.write('ticker', ticker(1.5), 'token-ticker', AT)
+    writer.write('ticker', ticker(2, 'orca, "v2"'), 'token-ticker', AT)
+    writer.write('transaction', { signature: 's', slot: 9, err: null, tokenTransfers: [{ mint: 'a' }, { mint: 'b' }] } as never, 'tx', AT)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.deepEqual(lines, [
+      'ts,stream,event,price,dex',
+      '2026-01-01T12:34:56.789Z,token-ticker,ticker,1.5,raydium',
+      '2026-01-01T12:34:56.789Z,token-ticker,ticker,2,"orca, ""v2"""',
+      'ts,stream,event,signature,slot,commitment,failed,fee,feePayer,mints',
+      '2026-01-01T12:34:56.789Z,tx,transaction,s,9,,false,,,a b'
+    ])
+  })
+
+  test('writes pretty lines with the log summary, aligned per event type', async () => {
+    const { writer, lines } = capture({ format: 'pretty', color: false, tagged: true })
+    writer.write('ticker', ticker(1.5), 'token-ticker', AT)
+    writer.write('ticker', ticker(10.25, 'orca'), 'token-ticker', AT)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const label = 'ticker'.padEnd('transactionPromoted'.length)
+    assert.deepEqual(lines, [
+      `12:34:56.789  token-ticker  ${label}  baseMint=So11…1112  quoteMint=USDC  price=1.5  dex=raydium  slot=7`,
+      `12:34:56.789  token-ticker  ${label}  baseMint=So11…1112  quoteMint=USDC  price=10.25  dex=orca     slot=7`
+    ])
+  })
+})
+
+describe('output configuration', () => {
+  test('parses CSV columns per event and rejects unknown events', () => {
+    assert.deepEqual(parseCsvColumns('ticker=baseMint, price; swap=mint;'), { ticker: ['baseMint', 'price'], swap: ['mint'] })
+    assert.throws(() => parseCsvColumns('tickers=price'), /invalid CSV columns "tickers=price"/)
+    assert.throws(() => parseCsvColumns('ticker='), /invalid CSV columns/)
+  })
+
+  test('rejects unknown output events', () => {
+    assert.deepEqual(parseOutputEvents(['ticker', 'alert']), ['ticker', 'alert'])
+    assert.throws(() => parseOutputEvents(['ticker', 'hello']), /unknown output events hello/)
+  })
+
+  test('shortens addresses and joins arrays for people', () => {
+    assert.equal(formatPrettyValue(SOL), 'So11…1112')
+    assert.equal(formatPrettyValue(['a', null]), 'a,-')
+    assert.equal(formatPrettyValue([]), '-')
+    assert.equal(formatPrettyValue({ a: 1 }), '{"a":1}')
+  })
+})
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { gunzipSync } from 'node:zlib'
+
+import { createRecorder, type CaptureHeader, type RecorderOptions } from '../src/recorder'
+import type { InboundMessage } from '../src/types'
+
+function record(slot: number): InboundMessage {
+  return { receivedAt: '2026-01-01T00:00:00.000Z', streamId: 'test', connectionId: 'c', message: { type: 'slot', slot } }
+}
+
+describe('createRecorder', () => {
+  let dir = ''
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'recorder-test-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  /** Every capture file in `dir`, in sequence order, as its parsed lines. */
+  async function captures(): Promise<{ file: string; header: CaptureHeader; slots: number[] }[]> {
+    const files = await readdir(dir)
+    const parsed = await Promise.all(
+      files.map(async (file) => {
+        const raw = await readFile(path.join(dir, file))
+        const text = file.endsWith('.gz') ? gunzipSync(raw).toString('utf8') : raw.toString('utf8')
+        const [header, ...records] = text.trimEnd().split('\n').map((line) => JSON.parse(line) as unknown)
+        const slots = (records as InboundMessage[]).map(({ message }) => (message as { slot: number }).slot)
+        return { file, header: header as CaptureHeader, slots }
+      })
+    )
+    return parsed.sort((a, b) => a.header.capture.sequence - b.header.capture.sequence)
+  }
+
+  function start(options: Partial<RecorderOptions> = {}) {
+    return createRecorder({ dir, prefix: 'test', maxBytes: 0, maxAgeMs: 0, gzip: false, ...options })
+  }
+
+  test('writes a header and then one record per line', async () => {
+    const recorder = start()
+    recorder.write(record(1))
+    recorder.write(record(2))
+    await recorder.close()
+
+    const [capture, ...rest] = await captures()
+    assert.equal(rest.length, 0)
+    assert.match(capture?.file ?? '', /^test-.*-1\.ndjson$/)
+    assert.equal(capture?.header.capture.version, 1)
+    assert.equal(capture?.header.capture.pid, process.pid)
+    assert.deepEqual(capture?.slots, [1, 2])
+  })
+
+  test('rotates once a file reaches maxBytes', async () => {
+    // The header alone reaches the limit, so every record after the first starts a new file
+    const recorder = start({ maxBytes: 1 })
+    for (let slot = 1; slot <= 3; slot += 1) recorder.write(record(slot))
+    await recorder.close()
+
+    const files = await captures()
+    assert.deepEqual(
+      files.map(({ header, slots }) => [header.capture.sequence, slots]),
+      [
+        [1, [1]],
+        [2, [2]],
+        [3, [3]]
+      ]
+    )
+  })
+
+  test('rotates once a file reaches maxAgeMs', async () => {
+    const recorder = start({ maxAgeMs: 20 })
+    recorder.write(record(1))
+    await new Promise((resolve) => setTimeout(resolve, 40))
+    recorder.write(record(2))
+    await recorder.close()
+
+    assert.deepEqual(
+      (await captures()).map(({ slots }) => slots),
+      [[1], [2]]
+    )
+  })
+
+  test('gzips each file once it is closed', async () => {
+    const recorder = start({ maxBytes: 1, gzip: true })
+    recorder.write(record(1))
+    recorder.write(record(2))
+    await recorder.close()
+
+    const files = await captures()
+    assert.ok(files.every(({ file }) => file.endsWith('.ndjson.gz')))
+    assert.deepEqual(
+      files.map(({ slots }) => slots),
+      [[1], [2]]
+    )
+  })
+})
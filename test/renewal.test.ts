@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, test } from 'node:test'
+
+import { createRenewalScheduler, type RenewalOutcome, type RenewalScheduler, type RenewalSchedulerOptions } from '../src/renewal'
+import type { RenewMethod } from '../src/types'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('createRenewalScheduler', () => {
+  let scheduler: RenewalScheduler | undefined
+
+  afterEach(() => {
+    scheduler?.stop()
+    scheduler = undefined
+  })
+
+  /** A scheduler whose attempts fail for the methods in `failing`, with every attempt and outcome logged. */
+  function start(options: Partial<RenewalSchedulerOptions> & { failing?: RenewMethod[] } = {}) {
+    const attempts: string[] = []
+    scheduler = createRenewalScheduler({
+      method: 'http',
+      leadMs: 0,
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 5,
+      attempt: async (method) => {
+        await sleep(5)
+        if (options.failing?.includes(method)) throw new Error(`${method} down`)
+      },
+      onAttempt: (method: RenewMethod, outcome: RenewalOutcome) => attempts.push(`${method} ${outcome}`),
+      ...options
+    })
+    return { scheduler, attempts }
+  }
+
+  test('joins triggers that arrive during a cycle instead of paying twice', async () => {
+    const { scheduler, attempts } = start()
+    scheduler.schedule(Date.now() + 1_000)
+
+    const first = scheduler.trigger('reminder', Date.now() + 1_000)
+    assert.equal(scheduler.renewing, true)
+    await Promise.all([first, scheduler.trigger('payment_required')])
+
+    assert.deepEqual(attempts, ['http succeeded'])
+    assert.equal(scheduler.renewing, false)
+  })
+
+  test('ignores signals about a slice that has since been extended', async () => {
+    const { scheduler, attempts } = start()
+    scheduler.schedule(Date.now() + 60_000)
+
+    await scheduler.trigger('reminder', Date.now() + 1_000)
+    await scheduler.trigger('payment_required')
+
+    assert.deepEqual(attempts, [])
+  })
+
+  test('switches method after fallbackAfterFailures failures in a row', async () => {
+    const { scheduler, attempts } = start({ failing: ['http'], fallbackAfterFailures: 2 })
+    scheduler.schedule(Date.now() + 1_000)
+
+    await scheduler.trigger('payment_required')
+
+    assert.deepEqual(attempts, ['http failed', 'http failed', 'inband succeeded'])
+  })
+
+  test('gives up once the next retry would land past expiry plus graceMs', async () => {
+    const { scheduler, attempts } = start({ failing: ['http', 'inband'], graceMs: 0 })
+    scheduler.schedule(Date.now())
+
+    await scheduler.trigger('payment_required')
+
+    assert.deepEqual(attempts, ['http failed'])
+  })
+
+  test('skips the cycle while renewing is blocked', async () => {
+    const { scheduler, attempts } = start({ blocked: () => 'renewals paused' })
+
+    await scheduler.trigger('payment_required')
+
+    assert.deepEqual(attempts, ['http skipped'])
+  })
+
+  test('renews on its own leadMs before expiry, but not before the slice is half used', async () => {
+    const { scheduler, attempts } = start({ leadMs: 60_000 })
+    // With a 200ms slice, the lead would put the renewal in the past; it waits 100ms instead
+    scheduler.schedule(Date.now() + 200)
+
+    await sleep(30)
+    assert.deepEqual(attempts, [])
+    await sleep(170)
+    assert.deepEqual(attempts, ['http succeeded'])
+  })
+})
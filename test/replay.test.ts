@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { createAlertEngine, parseAlertRules, type Alert } from '../src/alerts'
+import { createCandleAggregator, type Candle } from '../src/candles'
+import type { StopInfo } from '../src/events'
+import { ReplaySource } from '../src/replay'
+import type { WsTickerEvent } from '../src/types'
+import { waitForEvent } from './helpers'
+
+describe('ReplaySource', () => {
+  let dir = ''
+
+  /** Writes a capture of `messages`, each recorded at the given time of day on 2026-01-01. */
+  async function writeCapture(name: string, messages: [time: string, message: unknown][]): Promise<string> {
+    const file = path.join(dir, name)
+    const lines = messages.map(([time, message]) =>
+      JSON.stringify({ receivedAt: `2026-01-01T${time}.000Z`, streamId: 'test', connectionId: 'c', message })
+    )
+    await writeFile(file, `${lines.join('\n')}\n`)
+    return file
+  }
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'replay-test-'))
+  })
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('replays recorded events and ends with stopped', async () => {
+    const file = path.join(dir, 'ticker.ndjson')
+    const ticker = { type: 'ticker', baseMint: 'So11', quoteMint: 'EPjF', price: 1.5, dex: 'raydium', slot: 1, signature: 'sig' }
+    const record = { receivedAt: '2026-01-01T00:00:00.000Z', streamId: 'token-ticker', connectionId: 'c', message: ticker }
+    await writeFile(file, `${JSON.stringify(record)}\n`)
+    const source = new ReplaySource({ files: [file], speed: 0 })
+    const replayed: WsTickerEvent[] = []
+    source.on('ticker', (event) => replayed.push(event))
+    const stopped = waitForEvent<[StopInfo]>(source, 'stopped')
+
+    await source.start()
+
+    assert.deepEqual(replayed, [ticker])
+    assert.deepEqual(await stopped, [{ reason: 'ended' }])
+  })
+
+  test('buckets candles by recorded time rather than replay time', async () => {
+    const ticker = (slot: number, price: number) => ({
+      type: 'ticker',
+      baseMint: 'So11',
+      quoteMint: 'EPjF',
+      price,
+      dex: 'raydium',
+      slot,
+      signature: `sig${slot}`
+    })
+    const file = await writeCapture('candles.ndjson', [
+      ['00:00:10', ticker(1, 1.5)],
+      ['00:00:50', ticker(2, 2)],
+      ['00:01:05', ticker(3, 1.8)]
+    ])
+    const source = new ReplaySource({ files: [file], speed: 0 })
+    createCandleAggregator({ intervals: [{ label: '1m', ms: 60_000 }], perDex: false, rollingWindow: 20 }).attach(source)
+    const candles: Candle[] = []
+    source.on('candle', (candle) => candles.push(candle))
+
+    await source.start()
+
+    assert.equal(candles.length, 1)
+    assert.deepEqual(
+      { openTime: candles[0]?.openTime, open: candles[0]?.open, close: candles[0]?.close, ticks: candles[0]?.ticks },
+      { openTime: '2026-01-01T00:00:00.000Z', open: 1.5, close: 2, ticks: 2 }
+    )
+  })
+
+  test('measures alert windows by recorded time rather than replay time', async () => {
+    const whale = (slot: number) => ({
+      type: 'whale',
+      stream: 'whale-alert',
+      slot,
+      signature: `sig${slot}`,
+      mint: null,
+      from: 'a',
+      to: 'b',
+      amount: 1,
+      amountUsd: 1
+    })
+    // A minute apart when recorded, so only the last two fall within one window
+    const file = await writeCapture('whales.ndjson', [
+      ['00:00:00', whale(1)],
+      ['00:01:00', whale(2)],
+      ['00:01:05', whale(3)]
+    ])
+    const source = new ReplaySource({ files: [file], speed: 0 })
+    const rules = parseAlertRules([{ name: 'burst', kind: 'count', event: 'whaleAlert', atLeast: 2, windowSeconds: 10 }])
+    createAlertEngine(rules).attach(source)
+    const alerts: Alert[] = []
+    source.on('alert', (alert) => alerts.push(alert))
+
+    await source.start()
+
+    assert.deepEqual(
+      alerts.map(({ firedAt, events }) => ({ firedAt, slots: events.map(({ data }) => (data as { slot: number }).slot) })),
+      [{ firedAt: '2026-01-01T00:01:05.000Z', slots: [2, 3] }]
+    )
+  })
+
+  test('rejects and stops with an error when a file cannot be read', async () => {
+    const source = new ReplaySource({ files: [path.join(dir, 'missing.ndjson')], speed: 0 })
+    const stopped = waitForEvent<[StopInfo]>(source, 'stopped')
+
+    await assert.rejects(source.start(), /ENOENT/)
+    const [info] = await stopped
+
+    assert.equal(info.reason, 'error')
+    assert.match(info.message ?? '', /ENOENT/)
+  })
+
+  test('rejects and stops with an error when a gzipped file cannot be read', async () => {
+    const source = new ReplaySource({ files: [path.join(dir, 'missing.ndjson.gz')], speed: 0 })
+    const stopped = waitForEvent<[StopInfo]>(source, 'stopped')
+
+    await assert.rejects(source.start(), /ENOENT/)
+    const [info] = await stopped
+
+    assert.equal(info.reason, 'error')
+    assert.match(info.message ?? '', /ENOENT/)
+  })
+})
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, afterEach, before, describe, test } from 'node:test'
+
+import type { AtomicStreamClient } from '../src/client'
+import { startMockServer, type MockServer } from '../src/mock/server'
+import { createSessionStore } from '../src/session'
+import type { WsHelloEvent } from '../src/types'
+import type { Ws402Session } from '../src/x402'
+import { createMockClient, waitForEvent } from './helpers'
+
+const SESSION: Ws402Session = {
+  wsUrl: 'ws://127.0.0.1:1/stream',
+  token: 'token',
+  streamId: 'whale-alert',
+  expiresAtMs: Date.parse('2026-01-01T00:05:00.000Z'),
+  sliceCostAtomic: 150_000n
+}
+
+describe('createSessionStore', () => {
+  let dir = ''
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'session-test-'))
+  })
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('loads what it saved, for the same endpoint and stream only', async () => {
+    const store = createSessionStore(path.join(dir, 'nested', 'session.json'))
+    store.save('http://mock', '/v2/schema/stream/whale-alert', 'v2', SESSION)
+
+    assert.deepEqual(store.load('http://mock', '/v2/schema/stream/whale-alert'), SESSION)
+    assert.equal(store.load('http://mock', '/v2/schema/stream/token-ticker'), undefined)
+    assert.equal(store.load('http://other', '/v2/schema/stream/whale-alert'), undefined)
+    // It holds a live token
+    assert.equal((await stat(store.file)).mode & 0o777, 0o600)
+
+    store.clear()
+    assert.equal(store.load('http://mock', '/v2/schema/stream/whale-alert'), undefined)
+  })
+
+  test('ignores a file it cannot read as a session', async () => {
+    const file = path.join(dir, 'broken.json')
+    await writeFile(file, '{"version":1,"token":')
+
+    assert.equal(createSessionStore(file).load('http://mock', '/v2/schema/stream/whale-alert'), undefined)
+  })
+})
+
+describe('resuming a saved session', () => {
+  let dir = ''
+  let server: MockServer | undefined
+  let clients: AtomicStreamClient[] = []
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'session-test-'))
+  })
+
+  afterEach(async () => {
+    for (const client of clients) await client.stop()
+    await server?.close()
+    clients = []
+    server = undefined
+  })
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('reconnects with the saved token after a restart instead of paying again', async () => {
+    server = await startMockServer({ eventIntervalMs: 50 })
+    const sessionStore = createSessionStore(path.join(dir, 'session.json'))
+
+    const first = await createMockClient(server, { sessionStore })
+    clients.push(first)
+    const firstHello = waitForEvent<[WsHelloEvent]>(first, 'hello')
+    await first.start()
+    await firstHello
+    await first.stop()
+    const saved = JSON.parse(await readFile(sessionStore.file, 'utf8')) as { streamId: string }
+
+    const second = await createMockClient(server, { sessionStore })
+    clients.push(second)
+    const secondHello = waitForEvent<[WsHelloEvent]>(second, 'hello')
+    await second.start()
+    await secondHello
+
+    assert.deepEqual(
+      server.payments.map(({ kind }) => kind),
+      ['schema']
+    )
+    assert.equal(second.getSpend().payments, 0)
+    assert.equal(saved.streamId, server.payments[0]?.streamId)
+  })
+})
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import { afterEach, describe, test } from 'node:test'
+
+import {
+  AccountRole,
+  address,
+  appendTransactionMessageInstructions,
+  assertIsTransactionWithinSizeLimit,
+  compileTransaction,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getAddressEncoder,
+  getProgramDerivedAddress,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+  type Address,
+  type Blockhash,
+  type TransactionPartialSigner
+} from '@solana/kit'
+import { TOKEN_PROGRAM_ADDRESS, USDC_DEVNET_ADDRESS } from '@x402/svm'
+
+import type { AtomicStreamClient } from '../src/client'
+import { startMockServer, type MockServer } from '../src/mock/server'
+import { createRemoteSigner } from '../src/remote-signer'
+import { startSignerDaemon, type SignerDaemon, type SigningPolicy } from '../src/signer-daemon'
+import { createMockClient, waitForEvent } from './helpers'
+
+const ASSOCIATED_TOKEN_PROGRAM = address('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL')
+const TOKEN_PROGRAM = address(TOKEN_PROGRAM_ADDRESS)
+const USDC_MINT = address(USDC_DEVNET_ADDRESS)
+
+async function usdcAccount(owner: string): Promise<Address> {
+  const encoder = getAddressEncoder()
+  const [ata] = await getProgramDerivedAddress({
+    programAddress: ASSOCIATED_TOKEN_PROGRAM,
+    seeds: [encoder.encode(owner as Address), encoder.encode(TOKEN_PROGRAM), encoder.encode(USDC_MINT)]
+  })
+  return ata
+}
+
+/** A payment-shaped transaction with `transfers` devnet USDC TransferChecked instructions to `payTo`. */
+async function paymentTransaction(options: { feePayer: Address; authority: Address; payTo: string; transfers: number }) {
+  const data = new Uint8Array(10)
+  data[0] = 12
+  new DataView(data.buffer).setBigUint64(1, 1000n, true)
+  data[9] = 6
+  const transfer = {
+    programAddress: TOKEN_PROGRAM,
+    accounts: [
+      { address: await usdcAccount(options.authority), role: AccountRole.WRITABLE },
+      { address: USDC_MINT, role: AccountRole.READONLY },
+      { address: await usdcAccount(options.payTo), role: AccountRole.WRITABLE },
+      { address: options.authority, role: AccountRole.READONLY_SIGNER }
+    ],
+    data
+  }
+  const transaction = compileTransaction(
+    pipe(
+      createTransactionMessage({ version: 0 }),
+      (message) => setTransactionMessageFeePayer(options.feePayer, message),
+      (message) =>
+        setTransactionMessageLifetimeUsingBlockhash({ blockhash: options.feePayer as string as Blockhash, lastValidBlockHeight: 1n }, message),
+      (message) => appendTransactionMessageInstructions(Array.from({ length: options.transfers }, () => transfer), message)
+    )
+  )
+  assertIsTransactionWithinSizeLimit(transaction)
+  return transaction
+}
+
+/** Posts `body` to the daemon at `url` without going through `createRemoteSigner`, returning the status. */
+function post(url: string, path: string, body: string, headers: http.OutgoingHttpHeaders): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(new URL(path, url), { method: 'POST', headers }, (res) => {
+      res.resume()
+      res.on('end', () => resolve(res.statusCode ?? 0))
+    })
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+describe('paying through the signer daemon', () => {
+  let server: MockServer | undefined
+  let daemon: SignerDaemon | undefined
+  let clients: AtomicStreamClient[] = []
+
+  afterEach(async () => {
+    for (const client of clients) await client.stop()
+    await daemon?.close()
+    await server?.close()
+    clients = []
+    daemon = undefined
+    server = undefined
+  })
+
+  async function start(policy: Partial<SigningPolicy> = {}): Promise<{ server: MockServer; signer: TransactionPartialSigner }> {
+    server = await startMockServer({ eventIntervalMs: 50 })
+    daemon = await startSignerDaemon({
+      signer: await generateKeyPairSigner(),
+      policy: { allowedPayTo: [server.payTo], allowedMints: [USDC_DEVNET_ADDRESS], maxPaymentUsdc: 0, maxDailyUsdc: 0, ...policy },
+      port: 0
+    })
+    return { server, signer: await createRemoteSigner({ url: daemon.url }) }
+  }
+
+  async function startClient(server: MockServer, signer: TransactionPartialSigner) {
+    const client = await createMockClient(server, { signer })
+    clients.push(client)
+    await client.start()
+    return client
+  }
+
+  test('buys a slice with a remote signature', async () => {
+    const { server, signer } = await start()
+    const client = await createMockClient(server, { signer })
+    clients.push(client)
+    const hello = waitForEvent(client, 'hello')
+
+    await client.start()
+    await hello
+
+    assert.deepEqual(
+      server.payments.map(({ kind }) => kind),
+      ['schema']
+    )
+  })
+
+  test('refuses a payTo outside the policy', async () => {
+    const { server, signer } = await start({ allowedPayTo: [(await generateKeyPairSigner()).address] })
+
+    await assert.rejects(startClient(server, signer), /remote signer refused: recipient .* is not the token account of an allowed payTo/)
+    assert.equal(server.payments.length, 0)
+  })
+
+  test('refuses a mint outside the policy', async () => {
+    // The mock is paid in devnet USDC; the default allows mainnet USDC only
+    const { server, signer } = await start({ allowedMints: undefined })
+
+    await assert.rejects(startClient(server, signer), /remote signer refused: token .* is not an allowed payment mint/)
+    assert.equal(server.payments.length, 0)
+  })
+
+  test('refuses a transaction with a second transfer', async () => {
+    const { server, signer } = await start()
+    const transaction = await paymentTransaction({
+      feePayer: (await generateKeyPairSigner()).address,
+      authority: signer.address,
+      payTo: server.payTo,
+      transfers: 2
+    })
+
+    await assert.rejects(signer.signTransactions([transaction]), /remote signer refused: expected exactly one token transfer/)
+  })
+
+  test('refuses a transaction whose fee the signer would pay', async () => {
+    const { server, signer } = await start()
+    const transaction = await paymentTransaction({ feePayer: signer.address, authority: signer.address, payTo: server.payTo, transfers: 1 })
+
+    await assert.rejects(signer.signTransactions([transaction]), /remote signer refused: the signer does not pay transaction fees/)
+  })
+
+  test('refuses a payment over the daily limit', async () => {
+    // A schema purchase from the mock costs 0.15 USDC, so a second one goes over
+    const { server, signer } = await start({ maxDailyUsdc: 0.2 })
+    await startClient(server, signer)
+
+    await assert.rejects(startClient(server, signer), /remote signer refused: daily limit of 0.200000 USDC reached \(0.150000 USDC signed today\)/)
+    assert.equal(server.payments.length, 1)
+  })
+
+  test('refuses requests a web page could make without a token', async () => {
+    await start()
+    const { url } = daemon as SignerDaemon
+    const body = JSON.stringify({ transactions: ['AA=='] })
+
+    assert.equal(await post(url, '/sign', body, { 'content-type': 'text/plain' }), 415)
+    assert.equal(await post(url, '/sign', body, { 'content-type': 'application/json', host: 'attacker.example:8410' }), 403)
+    // Gets as far as the policy, which can't decode the transaction
+    assert.equal(await post(url, '/sign', body, { 'content-type': 'application/json' }), 403)
+  })
+
+  test('refuses to listen beyond loopback without a token', async () => {
+    const options = { signer: await generateKeyPairSigner(), policy: { allowedPayTo: [USDC_DEVNET_ADDRESS], maxPaymentUsdc: 0, maxDailyUsdc: 0 } }
+
+    await assert.rejects(startSignerDaemon({ ...options, host: '0.0.0.0' }), /signer on non-loopback host 0.0.0.0 needs a token/)
+    daemon = await startSignerDaemon({ ...options, host: '0.0.0.0', token: 'secret' })
+    const url = daemon.url.replace('0.0.0.0', '127.0.0.1')
+    const headers = { 'content-type': 'application/json', host: 'signer.lan:8410' }
+    assert.equal(await post(url, '/sign', '{}', headers), 401)
+    assert.equal(await post(url, '/sign', '{}', { ...headers, authorization: 'Bearer secret' }), 400)
+  })
+})
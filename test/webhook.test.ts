@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'node:events'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { test } from 'node:test'
+
+import type { AtomicStreamSource } from '../src/events'
+import { createWebhookSink, type WebhookBatch } from '../src/webhook'
+import { waitForEvent } from './helpers'
+
+test('a full queue evicts the oldest batch that is not being sent', async () => {
+  // Holds the first request open until released, so later batches queue up behind it
+  const received: string[] = []
+  const arrived = new EventEmitter()
+  let release: () => void = () => undefined
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      const batch = JSON.parse(Buffer.concat(chunks).toString('utf8')) as WebhookBatch
+      const signature = (batch.events[0]?.event as { signature: string }).signature
+      received.push(signature)
+      arrived.emit('batch', signature)
+      if (received.length === 1) release = () => res.end()
+      else res.end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  const sink = createWebhookSink({
+    targets: [{ url: `http://127.0.0.1:${port}/`, events: ['whaleAlert'], batchSize: 1 }],
+    maxQueuedBatches: 2
+  })
+  const source = Object.assign(new EventEmitter(), { now: () => Date.now() }) as unknown as AtomicStreamSource
+  sink.attach(source, 'whale-alert')
+  const whale = (signature: string) => source.emit('whaleAlert', { signature } as never)
+
+  try {
+    whale('a')
+    await waitForEvent(arrived, 'batch')
+    whale('b')
+    whale('c')
+    const delivered = waitForEvent<[string]>(arrived, 'batch', (signature) => signature === 'c')
+    release()
+    await delivered
+  } finally {
+    release()
+    await sink.close()
+    server.close()
+  }
+
+  assert.deepEqual(received, ['a', 'c'])
+  assert.deepEqual(sink.stats()[0], { url: `http://127.0.0.1:${port}/`, delivered: 2, failedAttempts: 0, discarded: 1, queued: 0 })
+})
+
+test('stamps events with the source clock, so a replay forwards the recorded time', async () => {
+  const arrived = new EventEmitter()
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      res.end()
+      arrived.emit('batch', JSON.parse(Buffer.concat(chunks).toString('utf8')))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  const sink = createWebhookSink({ targets: [{ url: `http://127.0.0.1:${port}/`, events: ['whaleAlert'], batchSize: 1 }] })
+  const recordedAt = Date.parse('2026-01-02T03:04:05.000Z')
+  const source = Object.assign(new EventEmitter(), { now: () => recordedAt }) as unknown as AtomicStreamSource
+  sink.attach(source, 'whale-alert')
+
+  try {
+    const delivered = waitForEvent<[WebhookBatch]>(arrived, 'batch')
+    source.emit('whaleAlert', { signature: 'a' } as never)
+    const [batch] = await delivered
+    assert.equal(batch.events[0]?.receivedAt, '2026-01-02T03:04:05.000Z')
+  } finally {
+    await sink.close()
+    server.close()
+  }
+})